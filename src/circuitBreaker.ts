@@ -0,0 +1,224 @@
+import {
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  CircuitState,
+  Logger,
+} from "./types";
+
+const TRANSITION_MESSAGES: Record<CircuitState, string> = {
+  closed: "Circuit breaker closed",
+  open: "Circuit breaker opened",
+  "half-open": "Circuit breaker half-open, allowing trial request",
+};
+
+/**
+ * Error thrown when a request is rejected because the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  /** Time at which the circuit allows a trial request again */
+  readonly retryAt: number;
+
+  constructor(name: string, retryAt: number) {
+    super(
+      `Circuit breaker "${name}" is open until ${new Date(
+        retryAt
+      ).toISOString()}`
+    );
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Circuit breaker for external APIs
+ *
+ * Opens after a number of consecutive failures and rejects requests until
+ * the cool-off period has passed. Then a single trial request is let
+ * through (half-open): success closes the circuit, failure reopens it.
+ */
+export class CircuitBreaker {
+  private name: string;
+  private options: CircuitBreakerOptions;
+  private logger: Logger;
+  private now: () => number;
+  private state: CircuitState = "closed";
+  private failureCount = 0;
+  private lastFailureTime = 0;
+  private nextAttemptTime = 0;
+  private trialInFlight = false;
+  private listeners: ((state: CircuitBreakerState) => void)[] = [];
+
+  constructor(
+    name: string,
+    options: CircuitBreakerOptions,
+    logger: Logger,
+    now: () => number = Date.now
+  ) {
+    this.name = name;
+    this.options = options;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Run a request through the circuit breaker
+   * @param fn Request to run
+   * @returns Promise resolving to the request result
+   * @throws CircuitOpenError if the circuit does not allow requests
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.tryAcquire()) {
+      throw new CircuitOpenError(this.name, this.nextAttemptTime);
+    }
+
+    const isTrial = this.state === "half-open";
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Whether requests currently pass without being rejected
+   */
+  isClosed(): boolean {
+    return this.state === "closed";
+  }
+
+  /**
+   * Whether the next request would be a half-open trial
+   */
+  isHalfOpen(): boolean {
+    return (
+      this.state === "half-open" ||
+      (this.state === "open" && this.now() >= this.nextAttemptTime)
+    );
+  }
+
+  /**
+   * Get a snapshot of the circuit breaker state
+   * @returns Circuit breaker state
+   */
+  getState(): CircuitBreakerState {
+    return {
+      state: this.state,
+      isOpen: this.state !== "closed",
+      failureCount: this.failureCount,
+      lastFailureTime: this.lastFailureTime,
+      nextAttemptTime: this.nextAttemptTime,
+    };
+  }
+
+  /**
+   * Register a listener for state changes
+   * @param listener Called with the new state after every transition
+   */
+  onStateChange(listener: (state: CircuitBreakerState) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Check whether a request may pass, moving to half-open when the
+   * cool-off period is over
+   * @returns Whether the request may pass
+   */
+  private tryAcquire(): boolean {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open") {
+      if (this.now() < this.nextAttemptTime) return false;
+      this.transition("half-open");
+    }
+
+    // Half-open: only a single trial request at a time
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a successful request
+   */
+  private recordSuccess(): void {
+    this.failureCount = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  /**
+   * Record a failed request
+   * @param error Request error
+   */
+  private recordFailure(error: unknown): void {
+    this.failureCount++;
+    this.lastFailureTime = this.now();
+
+    if (
+      this.state === "half-open" ||
+      this.failureCount >= this.options.failureThreshold
+    ) {
+      this.nextAttemptTime = this.lastFailureTime + this.options.cooldownMs;
+      this.transition("open", error);
+    }
+  }
+
+  /**
+   * Move to a new state, logging and notifying listeners
+   * @param state New state
+   * @param error Error that caused the transition
+   */
+  private transition(state: CircuitState, error?: unknown): void {
+    const previousState = this.state;
+    if (previousState === state) return;
+    this.state = state;
+
+    const context: Record<string, unknown> = {
+      breaker: this.name,
+      from: previousState,
+      to: state,
+      failureCount: this.failureCount,
+    };
+
+    if (state === "open") {
+      context["retryAt"] = new Date(this.nextAttemptTime).toISOString();
+      if (error !== undefined) {
+        context["error"] =
+          error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    this.logger({
+      level: state === "open" ? "warn" : "info",
+      message: TRANSITION_MESSAGES[state],
+      context,
+    });
+
+    const snapshot = this.getState();
+    for (const listener of this.listeners) {
+      listener(snapshot);
+    }
+  }
+}
+
+/**
+ * Create a circuit breaker
+ * @param name Name used in logs and errors
+ * @param options Failure threshold and cool-off period
+ * @param logger Logger instance
+ * @returns Configured circuit breaker
+ */
+export function createCircuitBreaker(
+  name: string,
+  options: CircuitBreakerOptions,
+  logger: Logger
+): CircuitBreaker {
+  return new CircuitBreaker(name, options, logger);
+}
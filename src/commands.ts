@@ -0,0 +1,554 @@
+import {
+  AttachmentBuilder,
+  ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  HistoryQuery,
+  Logger,
+  SlashCommand,
+  UserDataExport,
+  WorkerConfig,
+} from "./types";
+import { formatDuration, getWorkerName } from "./utils";
+import {
+  MAX_WORKER_NAME_LENGTH,
+  normalizeWorkerName,
+  WorkerNameStore,
+} from "./workerNames";
+import { PrivacyStore } from "./privacy";
+import { SessionHistory } from "./history";
+import { PresenceRecorder } from "./presenceRecorder";
+
+/**
+ * Dependencies of the /workername command
+ */
+export interface WorkerNameCommandDeps {
+  /** Store for self-assigned worker titles */
+  workerNames: WorkerNameStore;
+  /** Returns the worker mapping configured for a guild */
+  getWorkerConfig: (guildId: string) => WorkerConfig;
+  /** Logger instance */
+  logger: Logger;
+}
+
+/**
+ * Dependencies of the /workbot privacy command
+ */
+export interface PrivacyCommandDeps {
+  /** Users who opted out of tracking */
+  privacy: PrivacyStore;
+  /** History of finished sessions */
+  sessionHistory: SessionHistory;
+  /** Store for self-assigned worker titles */
+  workerNames: WorkerNameStore;
+  /** Recording of presence observations (null when recording is off) */
+  presenceRecorder: PresenceRecorder | null;
+  /** Drop a user's sessions in progress in every guild without announcing them */
+  forgetSessions: (userId: string) => Promise<void>;
+  /** Logger instance */
+  logger: Logger;
+}
+
+/**
+ * Dependencies of the /shiftstats command
+ */
+export interface StatsCommandDeps {
+  /** History of finished sessions */
+  sessionHistory: SessionHistory;
+  /** Users who opted out of tracking (left out of the leaderboard) */
+  privacy: PrivacyStore;
+  /** Clock used for time ranges and streaks */
+  now: () => number;
+  /** Logger instance */
+  logger: Logger;
+}
+
+/** Number of workers listed on the leaderboard */
+const LEADERBOARD_SIZE = 10;
+
+/** Most days listed by /shiftstats daily (Discord limits message length) */
+const MAX_DAILY_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reply to an interaction with a message only the invoking user can see
+ * @param interaction Command interaction
+ * @param content Message content
+ * @param files Files attached to the message
+ */
+export async function replyEphemeral(
+  interaction: ChatInputCommandInteraction,
+  content: string,
+  files: AttachmentBuilder[] = []
+): Promise<void> {
+  const options = { content, files, flags: MessageFlags.Ephemeral } as const;
+  if (interaction.replied || interaction.deferred) {
+    await interaction.followUp(options);
+  } else {
+    await interaction.reply(options);
+  }
+}
+
+/**
+ * Create the /workername command that lets players manage their own title
+ * @param deps Command dependencies
+ * @returns Slash command definition
+ */
+export function createWorkerNameCommand(
+  deps: WorkerNameCommandDeps
+): SlashCommand {
+  const data = new SlashCommandBuilder()
+    .setName("workername")
+    .setDescription("Manage the worker title used in your shift reports")
+    .setDMPermission(false)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("set")
+        .setDescription("Set your worker title")
+        .addStringOption((option) =>
+          option
+            .setName("title")
+            .setDescription("Worker title, e.g. Chief Engineer")
+            .setRequired(true)
+            .setMaxLength(MAX_WORKER_NAME_LENGTH)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName("clear").setDescription("Remove your worker title")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName("show").setDescription("Show your worker title")
+    );
+
+  return {
+    name: "workername",
+    data: data.toJSON(),
+    execute: async (interaction) => {
+      const guildId = interaction.guildId;
+      if (!guildId) {
+        await replyEphemeral(
+          interaction,
+          "Worker titles can only be managed inside a server."
+        );
+        return;
+      }
+
+      const userId = interaction.user.id;
+      const subcommand = interaction.options.getSubcommand();
+
+      if (subcommand === "set") {
+        const title = normalizeWorkerName(
+          interaction.options.getString("title", true)
+        );
+        if (!title) {
+          await replyEphemeral(
+            interaction,
+            `Worker titles must be 1-${MAX_WORKER_NAME_LENGTH} characters without mentions or formatting.`
+          );
+          return;
+        }
+
+        await deps.workerNames.set(guildId, userId, title);
+        deps.logger({
+          level: "info",
+          message: "Worker title set",
+          context: { guildId, userId, title },
+        });
+        await replyEphemeral(
+          interaction,
+          `Your worker title is now **${title}**. Keep producing, Pioneer!`
+        );
+        return;
+      }
+
+      if (subcommand === "clear") {
+        const cleared = await deps.workerNames.clear(guildId, userId);
+        if (cleared) {
+          deps.logger({
+            level: "info",
+            message: "Worker title cleared",
+            context: { guildId, userId },
+          });
+        }
+        await replyEphemeral(
+          interaction,
+          cleared
+            ? "Your worker title has been cleared."
+            : "You don't have a self-assigned worker title."
+        );
+        return;
+      }
+
+      // show
+      const customTitle = deps.workerNames.get(guildId, userId);
+      const workerConfig = deps.getWorkerConfig(guildId);
+
+      if (customTitle) {
+        await replyEphemeral(
+          interaction,
+          `Your worker title is **${customTitle}** (self-assigned).`
+        );
+      } else if (workerConfig.mapping[userId]) {
+        await replyEphemeral(
+          interaction,
+          `Your worker title is **${getWorkerName(
+            userId,
+            workerConfig
+          )}** (assigned by the server operator).`
+        );
+      } else {
+        await replyEphemeral(
+          interaction,
+          "You don't have a worker title yet. Use `/workername set` to pick one."
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Create the /workbot command that lets players control what the bot
+ * tracks and stores about them
+ * @param deps Command dependencies
+ * @returns Slash command definition
+ */
+export function createPrivacyCommand(deps: PrivacyCommandDeps): SlashCommand {
+  const data = new SlashCommandBuilder()
+    .setName("workbot")
+    .setDescription("Control what WorkBot 3000 tracks and stores about you")
+    .setDMPermission(false)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("optout")
+        .setDescription("Stop tracking your game sessions")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("optin")
+        .setDescription("Resume tracking your game sessions")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("mydata")
+        .setDescription("Export the data stored about you")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("forgetme")
+        .setDescription(
+          "Delete your shift history, worker titles and recorded presences"
+        )
+    );
+
+  return {
+    name: "workbot",
+    data: data.toJSON(),
+    execute: async (interaction) => {
+      const userId = interaction.user.id;
+      const subcommand = interaction.options.getSubcommand();
+
+      if (subcommand === "optout") {
+        const changed = await deps.privacy.optOut(userId);
+        // Shifts in progress are dropped rather than announced
+        await deps.forgetSessions(userId);
+        if (changed) {
+          deps.logger({
+            level: "info",
+            message: "User opted out of tracking",
+            context: { userId },
+          });
+        }
+        await replyEphemeral(
+          interaction,
+          changed
+            ? "Your game sessions are no longer tracked. Past shift records are kept; use `/workbot forgetme` to delete them."
+            : "You have already opted out of tracking."
+        );
+        return;
+      }
+
+      if (subcommand === "optin") {
+        const changed = await deps.privacy.optIn(userId);
+        if (changed) {
+          deps.logger({
+            level: "info",
+            message: "User opted in to tracking",
+            context: { userId },
+          });
+        }
+        await replyEphemeral(
+          interaction,
+          changed
+            ? "Welcome back, Pioneer. Your game sessions are tracked again."
+            : "Your game sessions are already tracked."
+        );
+        return;
+      }
+
+      if (subcommand === "mydata") {
+        const exported: UserDataExport = {
+          userId,
+          exportedAt: Date.now(),
+          optedOutAt: deps.privacy.getOptOutTime(userId),
+          workerTitles: deps.workerNames.getByUser(userId),
+          sessions: deps.sessionHistory.getSessions({ userId }),
+          presenceRecords:
+            (await deps.presenceRecorder?.getUserRecords(userId)) ?? [],
+        };
+        const file = new AttachmentBuilder(
+          Buffer.from(JSON.stringify(exported, null, 2), "utf8"),
+          { name: `workbot-data-${userId}.json` }
+        );
+
+        deps.logger({
+          level: "info",
+          message: "User data exported",
+          context: {
+            userId,
+            sessions: exported.sessions.length,
+            presenceRecords: exported.presenceRecords.length,
+          },
+        });
+        await replyEphemeral(
+          interaction,
+          `Here is everything stored about you (recorded shifts: ${exported.sessions.length}).`,
+          [file]
+        );
+        return;
+      }
+
+      // forgetme
+      await deps.forgetSessions(userId);
+      const sessions = await deps.sessionHistory.forgetUser(userId);
+      const titles = await deps.workerNames.clearUser(userId);
+      const presences = (await deps.presenceRecorder?.forgetUser(userId)) ?? 0;
+
+      deps.logger({
+        level: "info",
+        message: "User data deleted",
+        context: { userId, sessions, titles, presences },
+      });
+      const trackingNote = deps.privacy.isOptedOut(userId)
+        ? ""
+        : " New shifts are still tracked; use `/workbot optout` to stop that.";
+      await replyEphemeral(
+        interaction,
+        `Your data has been deleted (recorded shifts: ${sessions}, worker titles: ${titles}, recorded presences: ${presences}).${trackingNote}`
+      );
+    },
+  };
+}
+
+/**
+ * Create the /shiftstats command that reports statistics from the session
+ * history of the server
+ * @param deps Command dependencies
+ * @returns Slash command definition
+ */
+export function createStatsCommand(deps: StatsCommandDeps): SlashCommand {
+  const data = new SlashCommandBuilder()
+    .setName("shiftstats")
+    .setDescription("Show shift statistics of this server")
+    .setDMPermission(false)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("me")
+        .setDescription("Show your shift totals, longest shift and streak")
+        .addIntegerOption((option) =>
+          option
+            .setName("days")
+            .setDescription("Only count the last days (default: all time)")
+            .setMinValue(1)
+            .setMaxValue(365)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("leaderboard")
+        .setDescription("Show the workers with the most shift time")
+        .addIntegerOption((option) =>
+          option
+            .setName("days")
+            .setDescription("Only count the last days (default: all time)")
+            .setMinValue(1)
+            .setMaxValue(365)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("daily")
+        .setDescription("Show the shifts of each day")
+        .addIntegerOption((option) =>
+          option
+            .setName("days")
+            .setDescription("Number of days to show (default: 7)")
+            .setMinValue(1)
+            .setMaxValue(MAX_DAILY_DAYS)
+        )
+    );
+
+  return {
+    name: "shiftstats",
+    data: data.toJSON(),
+    execute: async (interaction) => {
+      const guildId = interaction.guildId;
+      if (!guildId) {
+        await replyEphemeral(
+          interaction,
+          "Shift statistics are only available inside a server."
+        );
+        return;
+      }
+
+      const userId = interaction.user.id;
+      const subcommand = interaction.options.getSubcommand();
+      const now = deps.now();
+      const days = interaction.options.getInteger("days");
+      const query: HistoryQuery = { guildId };
+      if (days !== null) query.from = now - days * DAY_MS;
+      const range = days === null ? "all time" : `last ${formatDays(days)}`;
+
+      deps.logger({
+        level: "debug",
+        message: "Shift statistics requested",
+        context: { guildId, userId, subcommand, days },
+      });
+
+      if (subcommand === "me") {
+        const userQuery: HistoryQuery = { ...query, userId };
+        const totals = deps.sessionHistory.getTotalDurationByUser(userQuery)[0];
+        const longest = deps.sessionHistory.getLongestSession(userQuery);
+        if (!totals || !longest) {
+          await replyEphemeral(
+            interaction,
+            `You have no recorded shifts (${range}).`
+          );
+          return;
+        }
+
+        const lines = [
+          `**Your shifts** (${range})`,
+          `Shifts: ${totals.sessionCount}`,
+          `Total: ${formatDuration(totals.totalDuration)} (${formatDuration(
+            totals.activeDuration
+          )} active, ${formatDuration(totals.idleDuration)} idle)`,
+          `Average: ${formatDuration(
+            deps.sessionHistory.getAverageSessionLength(userQuery)
+          )}`,
+          `Longest: ${formatDuration(longest.duration)} in ${
+            longest.gameName
+          } on ${formatDate(longest.startTime)}`,
+          `Current streak: ${formatDays(
+            getCurrentStreak(deps.sessionHistory, guildId, userId, now)
+          )}`,
+        ];
+        await replyEphemeral(interaction, lines.join("\n"));
+        return;
+      }
+
+      if (subcommand === "leaderboard") {
+        const leaders = deps.sessionHistory
+          .getTotalDurationByUser(query)
+          .filter((totals) => !deps.privacy.isOptedOut(totals.userId))
+          .slice(0, LEADERBOARD_SIZE);
+        if (leaders.length === 0) {
+          await replyEphemeral(
+            interaction,
+            `No shifts have been recorded (${range}).`
+          );
+          return;
+        }
+
+        const lines = leaders.map(
+          (totals, index) =>
+            `${index + 1}. ${totals.memberName}: ${formatDuration(
+              totals.totalDuration
+            )} in ${totals.sessionCount} ${
+              totals.sessionCount === 1 ? "shift" : "shifts"
+            }`
+        );
+        await replyEphemeral(
+          interaction,
+          [`**Top workers** (${range})`, ...lines].join("\n")
+        );
+        return;
+      }
+
+      // daily
+      const dailyDays = days ?? 7;
+      const firstDay = Math.floor(now / DAY_MS) - dailyDays + 1;
+      const perDay = deps.sessionHistory.getSessionsPerDay({
+        guildId,
+        from: firstDay * DAY_MS,
+      });
+      if (perDay.length === 0) {
+        await replyEphemeral(
+          interaction,
+          `No shifts have been recorded in the last ${formatDays(dailyDays)}.`
+        );
+        return;
+      }
+
+      const lines = perDay.map(
+        (day) =>
+          `${day.date}: ${day.sessionCount} ${
+            day.sessionCount === 1 ? "shift" : "shifts"
+          }, ${formatDuration(day.totalDuration)}`
+      );
+      await replyEphemeral(
+        interaction,
+        [
+          `**Shifts per day** (last ${formatDays(dailyDays)}, UTC)`,
+          ...lines,
+        ].join("\n")
+      );
+    },
+  };
+}
+
+/**
+ * Get the streak of a user that is still running
+ *
+ * A streak still runs while the user's latest shift started today or
+ * yesterday (UTC); older streaks are over.
+ * @param sessionHistory History of finished sessions
+ * @param guildId Discord guild ID
+ * @param userId Discord user ID
+ * @param now Current time
+ * @returns Streak length in days (0 without a running streak)
+ */
+function getCurrentStreak(
+  sessionHistory: SessionHistory,
+  guildId: string,
+  userId: string,
+  now: number
+): number {
+  const query: HistoryQuery = { guildId, userId };
+  const latest = sessionHistory
+    .getSessions(query)
+    .reduce((time, session) => Math.max(time, session.startTime), 0);
+  if (Math.floor(now / DAY_MS) - Math.floor(latest / DAY_MS) > 1) return 0;
+
+  return sessionHistory.getDayStreak(latest, query);
+}
+
+/**
+ * Format the UTC date of a timestamp
+ * @param time Timestamp in milliseconds
+ * @returns Date such as "2026-01-01"
+ */
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Format a number of days
+ * @param days Number of days
+ * @returns Text such as "1 day" or "3 days"
+ */
+function formatDays(days: number): string {
+  return `${days} ${days === 1 ? "day" : "days"}`;
+}
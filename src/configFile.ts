@@ -0,0 +1,549 @@
+import { existsSync, FSWatcher, readFileSync, watch } from "fs";
+import path from "path";
+import { BotConfig, Logger, SchemaNode } from "./types";
+import {
+  CREW_MODES,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  MESSAGE_FORMATS,
+  MESSAGE_KINDS,
+  parseBotConfig,
+  QUOTE_PROVIDER_NAMES,
+} from "./utils";
+import { validateSchema } from "./schema";
+import { LOG_MODULES } from "./logging";
+
+/** Config file used when CONFIG_FILE is not set and the file exists */
+export const DEFAULT_CONFIG_FILE = "workbot.config.json";
+
+/** Delay before reloading so a burst of file events triggers one reload */
+const RELOAD_DEBOUNCE_MS = 500;
+
+/**
+ * A setting of the config file and the environment variable it mirrors
+ */
+interface ConfigSetting {
+  /** Environment variable holding the same setting */
+  env: string;
+  /** Schema of the value in the config file */
+  schema: SchemaNode;
+  /** Secrets set as environment variables override the config file */
+  secret?: boolean;
+  /** Arrays whose environment variable is a comma-separated list */
+  list?: boolean;
+}
+
+/**
+ * Settings that apply without a restart when the config file changes
+ */
+export const RELOADABLE_SETTINGS: (keyof BotConfig)[] = [
+  "guilds",
+  "workerMapping",
+  "monitoringRules",
+  "pollingInterval",
+  "memberCheckInterval",
+  "sessionGracePeriod",
+  "minSessionLength",
+  "announceShiftStart",
+  "shiftMilestones",
+  "announcementCooldown",
+  "crewMode",
+  "crewMinOverlap",
+  "quietHours",
+  "announcementBatchWindow",
+  "messageTemplates",
+  "messageFormat",
+  "embedColor",
+  "logLevel",
+  "logModuleLevels",
+];
+
+const STRING: SchemaNode = { type: "string" };
+const DISCORD_ID: SchemaNode = {
+  type: "string",
+  pattern: /^\d{17,19}$/,
+  patternMessage: "must be a Discord ID (17-19 digits)",
+};
+const WHOLE_SECONDS: SchemaNode = { type: "number", integer: true, minimum: 0 };
+/** Sizes, counts and intervals where 0 turns the feature off */
+const NON_NEGATIVE_INTEGER: SchemaNode = {
+  type: "number",
+  integer: true,
+  minimum: 0,
+};
+const POSITIVE_INTEGER: SchemaNode = {
+  type: "number",
+  integer: true,
+  minimum: 1,
+};
+const BOOLEAN: SchemaNode = { type: "boolean" };
+const STRING_ARRAY: SchemaNode = { type: "array", items: STRING };
+
+const WORKER_MAPPING_SCHEMA: SchemaNode = {
+  type: "object",
+  properties: {},
+  additionalProperties: STRING,
+};
+
+const DISCORD_ID_ARRAY: SchemaNode = { type: "array", items: DISCORD_ID };
+
+const MONITORING_RULES_SCHEMA: SchemaNode = {
+  type: "object",
+  properties: {
+    includeRoles: DISCORD_ID_ARRAY,
+    excludeRoles: DISCORD_ID_ARRAY,
+    allowUsers: DISCORD_ID_ARRAY,
+    denyUsers: DISCORD_ID_ARRAY,
+    requireWorkerMapping: BOOLEAN,
+  },
+};
+
+const MESSAGE_TEMPLATES_SCHEMA: SchemaNode = {
+  type: "object",
+  properties: Object.fromEntries(MESSAGE_KINDS.map((kind) => [kind, STRING])),
+};
+
+const SHIFT_MILESTONES_SCHEMA: SchemaNode = {
+  type: "array",
+  items: { type: "number", exclusiveMinimum: 0 },
+};
+
+const LOG_MODULE_LEVELS_SCHEMA: SchemaNode = {
+  type: "object",
+  properties: Object.fromEntries(
+    LOG_MODULES.map((module) => [module, { type: "string", enum: LOG_LEVELS }])
+  ),
+};
+
+const QUIET_HOURS_SCHEMA: SchemaNode = {
+  type: "string",
+  pattern: /^(\s*|\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2}(\s+\S+)?)$/,
+  patternMessage: 'must be a schedule like "23:00-07:00 Europe/Berlin"',
+};
+
+const EMBED_COLOR_SCHEMA: SchemaNode = {
+  type: "string",
+  pattern: /^#?[0-9a-fA-F]{6}$/,
+  patternMessage: 'must be a hex color like "#FA9549"',
+};
+
+/**
+ * Schema of a guild entry (mirrors the GUILDS environment variable)
+ */
+const GUILD_SCHEMA: SchemaNode = {
+  type: "object",
+  required: ["channelId"],
+  properties: {
+    channelId: DISCORD_ID,
+    workerMapping: WORKER_MAPPING_SCHEMA,
+    monitoringRules: MONITORING_RULES_SCHEMA,
+    pollingInterval: POSITIVE_INTEGER,
+    memberCheckInterval: { type: "number", integer: true, minimum: 30 },
+    sessionGracePeriod: WHOLE_SECONDS,
+    minSessionLength: WHOLE_SECONDS,
+    announceShiftStart: BOOLEAN,
+    shiftMilestones: SHIFT_MILESTONES_SCHEMA,
+    announcementCooldown: WHOLE_SECONDS,
+    crewMode: { type: "string", enum: CREW_MODES },
+    crewMinOverlap: WHOLE_SECONDS,
+    quietHours: QUIET_HOURS_SCHEMA,
+    announcementBatchWindow: WHOLE_SECONDS,
+    messageTemplates: MESSAGE_TEMPLATES_SCHEMA,
+    messageFormat: { type: "string", enum: MESSAGE_FORMATS },
+    embedColor: EMBED_COLOR_SCHEMA,
+  },
+};
+
+/**
+ * Schema of a custom game definition (mirrors the GAMES environment variable)
+ */
+const GAME_SCHEMA: SchemaNode = {
+  type: "object",
+  required: ["id", "matchers"],
+  properties: {
+    id: STRING,
+    name: STRING,
+    matchers: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["type"],
+        properties: {
+          type: {
+            type: "string",
+            enum: ["exact", "caseInsensitive", "regex"],
+          },
+          value: STRING,
+          pattern: STRING,
+          flags: STRING,
+        },
+      },
+    },
+    activityTypes: STRING_ARRAY,
+    personaPrompt: STRING,
+    messageTemplate: STRING,
+    fallbackQuotes: STRING_ARRAY,
+  },
+};
+
+/**
+ * Settings of the config file keyed by property name
+ */
+const CONFIG_SETTINGS: Record<string, ConfigSetting> = {
+  discordToken: { env: "DISCORD_TOKEN", schema: STRING, secret: true },
+  channelId: { env: "CHANNEL_ID", schema: DISCORD_ID },
+  guilds: {
+    env: "GUILDS",
+    schema: { type: "array", minItems: 1, items: GUILD_SCHEMA },
+  },
+  workerMapping: { env: "WORKER_MAPPING", schema: WORKER_MAPPING_SCHEMA },
+  monitoringRules: {
+    env: "MONITORING_RULES",
+    schema: MONITORING_RULES_SCHEMA,
+  },
+  pollingInterval: { env: "POLLING_INTERVAL", schema: POSITIVE_INTEGER },
+  memberCheckInterval: {
+    env: "MEMBER_CHECK_INTERVAL",
+    schema: { type: "number", integer: true, minimum: 30 },
+  },
+  sessionGracePeriod: { env: "SESSION_GRACE_PERIOD", schema: WHOLE_SECONDS },
+  minSessionLength: { env: "MIN_SESSION_LENGTH", schema: WHOLE_SECONDS },
+  announceShiftStart: { env: "ANNOUNCE_SHIFT_START", schema: BOOLEAN },
+  shiftMilestones: {
+    env: "SHIFT_MILESTONES",
+    schema: SHIFT_MILESTONES_SCHEMA,
+    list: true,
+  },
+  announcementCooldown: {
+    env: "ANNOUNCEMENT_COOLDOWN",
+    schema: WHOLE_SECONDS,
+  },
+  crewMode: {
+    env: "CREW_MODE",
+    schema: { type: "string", enum: CREW_MODES },
+  },
+  crewMinOverlap: { env: "CREW_MIN_OVERLAP", schema: WHOLE_SECONDS },
+  quietHours: { env: "QUIET_HOURS", schema: QUIET_HOURS_SCHEMA },
+  announcementBatchWindow: {
+    env: "ANNOUNCEMENT_BATCH_WINDOW",
+    schema: WHOLE_SECONDS,
+  },
+  messageTemplates: {
+    env: "MESSAGE_TEMPLATES",
+    schema: MESSAGE_TEMPLATES_SCHEMA,
+  },
+  messageFormat: {
+    env: "MESSAGE_FORMAT",
+    schema: { type: "string", enum: MESSAGE_FORMATS },
+  },
+  embedColor: { env: "EMBED_COLOR", schema: EMBED_COLOR_SCHEMA },
+  quoteProviders: {
+    env: "QUOTE_PROVIDERS",
+    schema: {
+      type: "array",
+      items: { type: "string", enum: QUOTE_PROVIDER_NAMES },
+    },
+    list: true,
+  },
+  geminiApiKey: { env: "GEMINI_API_KEY", schema: STRING, secret: true },
+  geminiModel: { env: "GEMINI_MODEL", schema: STRING },
+  geminiBreakerThreshold: {
+    env: "GEMINI_BREAKER_THRESHOLD",
+    schema: POSITIVE_INTEGER,
+  },
+  geminiBreakerCooldown: {
+    env: "GEMINI_BREAKER_COOLDOWN",
+    schema: WHOLE_SECONDS,
+  },
+  quotesFile: { env: "QUOTES_FILE", schema: STRING },
+  openaiBaseUrl: { env: "OPENAI_BASE_URL", schema: STRING },
+  openaiApiKey: { env: "OPENAI_API_KEY", schema: STRING, secret: true },
+  openaiModel: { env: "OPENAI_MODEL", schema: STRING },
+  maxCachedQuotes: { env: "MAX_CACHED_QUOTES", schema: POSITIVE_INTEGER },
+  quoteCacheLowWatermark: {
+    env: "QUOTE_CACHE_LOW_WATERMARK",
+    schema: NON_NEGATIVE_INTEGER,
+  },
+  quoteRefillConcurrency: {
+    env: "QUOTE_REFILL_CONCURRENCY",
+    schema: POSITIVE_INTEGER,
+  },
+  quoteMaxAge: { env: "QUOTE_MAX_AGE", schema: WHOLE_SECONDS },
+  logLevel: {
+    env: "LOG_LEVEL",
+    schema: { type: "string", enum: LOG_LEVELS },
+  },
+  logModuleLevels: {
+    env: "LOG_MODULE_LEVELS",
+    schema: LOG_MODULE_LEVELS_SCHEMA,
+  },
+  logFormat: {
+    env: "LOG_FORMAT",
+    schema: { type: "string", enum: LOG_FORMATS },
+  },
+  logFile: { env: "LOG_FILE", schema: STRING },
+  logFileMaxSize: { env: "LOG_FILE_MAX_SIZE", schema: NON_NEGATIVE_INTEGER },
+  logFileRotateInterval: {
+    env: "LOG_FILE_ROTATE_INTERVAL",
+    schema: NON_NEGATIVE_INTEGER,
+  },
+  logFileMaxFiles: { env: "LOG_FILE_MAX_FILES", schema: POSITIVE_INTEGER },
+  healthPort: { env: "HEALTH_PORT", schema: NON_NEGATIVE_INTEGER },
+  healthHost: { env: "HEALTH_HOST", schema: STRING },
+  sessionStateFile: { env: "SESSION_STATE_FILE", schema: STRING },
+  sessionHistoryFile: { env: "SESSION_HISTORY_FILE", schema: STRING },
+  workerNamesFile: { env: "WORKER_NAMES_FILE", schema: STRING },
+  messageQueueFile: { env: "MESSAGE_QUEUE_FILE", schema: STRING },
+  messageMaxAge: { env: "MESSAGE_MAX_AGE", schema: WHOLE_SECONDS },
+  privacyFile: { env: "PRIVACY_FILE", schema: STRING },
+  heldAnnouncementsFile: { env: "HELD_ANNOUNCEMENTS_FILE", schema: STRING },
+  presenceRecordFile: { env: "PRESENCE_RECORD_FILE", schema: STRING },
+  presenceRecordMaxSize: {
+    env: "PRESENCE_RECORD_MAX_SIZE",
+    schema: NON_NEGATIVE_INTEGER,
+  },
+  presenceRecordMaxFiles: {
+    env: "PRESENCE_RECORD_MAX_FILES",
+    schema: POSITIVE_INTEGER,
+  },
+  games: { env: "GAMES", schema: { type: "array", items: GAME_SCHEMA } },
+  enabledGames: { env: "ENABLED_GAMES", schema: STRING_ARRAY, list: true },
+};
+
+/**
+ * Schema of the whole config file
+ */
+const CONFIG_FILE_SCHEMA: SchemaNode = {
+  type: "object",
+  properties: Object.fromEntries(
+    Object.entries(CONFIG_SETTINGS).map(([key, setting]) => [
+      key,
+      setting.schema,
+    ])
+  ),
+};
+
+/**
+ * Find the config file to load
+ * @returns Path from CONFIG_FILE, the default config file if it exists, or
+ * undefined to use environment variables only
+ */
+export function findConfigFile(): string | undefined {
+  if (process.env["CONFIG_FILE"]) return process.env["CONFIG_FILE"];
+  return existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined;
+}
+
+/**
+ * Read and validate a config file
+ * @param filePath Path of the JSON config file
+ * @returns Settings of the file keyed by environment variable name
+ */
+export function readConfigFile(filePath: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const errors = validateSchema(parsed, CONFIG_FILE_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config file ${filePath}:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+
+  // Convert to the string form parsed from environment variables
+  const settings: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed as object)) {
+    const setting = CONFIG_SETTINGS[key]!;
+    if (setting.list) {
+      settings[setting.env] = (value as unknown[]).join(",");
+    } else if (typeof value === "object") {
+      settings[setting.env] = JSON.stringify(value);
+    } else {
+      settings[setting.env] = String(value);
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Load the bot configuration from the config file and environment
+ *
+ * The config file takes priority over environment variables, except for
+ * secrets: a secret set as an environment variable overrides the file, so
+ * tokens and API keys can stay out of it.
+ * @param filePath Path of the config file (environment only when omitted)
+ * @returns Parsed bot configuration
+ * @throws Error naming the config file property when a value from the file
+ *   is rejected
+ */
+export function loadBotConfig(filePath?: string): BotConfig {
+  if (!filePath) return parseBotConfig();
+
+  const fileSettings = readConfigFile(filePath);
+  const env: NodeJS.ProcessEnv = { ...process.env, ...fileSettings };
+  for (const setting of Object.values(CONFIG_SETTINGS)) {
+    if (setting.secret && process.env[setting.env]) {
+      env[setting.env] = process.env[setting.env];
+      delete fileSettings[setting.env];
+    }
+  }
+
+  try {
+    return parseBotConfig(env);
+  } catch (error) {
+    throw toConfigFileError(error, filePath, fileSettings);
+  }
+}
+
+/**
+ * Refer to config file properties instead of environment variables in an
+ * error about values that came from the file
+ * @param error Error thrown while parsing the configuration
+ * @param filePath Path of the config file
+ * @param fileSettings Settings of the file keyed by environment variable
+ * @returns Error naming the config file properties, or the original error
+ *   when it is about environment variables only
+ */
+function toConfigFileError(
+  error: unknown,
+  filePath: string,
+  fileSettings: Record<string, string>
+): Error {
+  const original = error instanceof Error ? error : new Error(String(error));
+  let message = original.message;
+
+  for (const [key, setting] of Object.entries(CONFIG_SETTINGS)) {
+    if (!(setting.env in fileSettings)) continue;
+    // Whole names only, so LOG_FILE does not match LOG_FILE_MAX_SIZE
+    message = message.replace(new RegExp(`\\b${setting.env}\\b`, "g"), key);
+  }
+
+  return message === original.message
+    ? original
+    : new Error(`Invalid config file ${filePath}: ${message}`);
+}
+
+/**
+ * List the settings that differ between two configurations
+ * @param current Configuration in use
+ * @param next Newly loaded configuration
+ * @returns Names of the changed settings
+ */
+export function changedSettings(
+  current: BotConfig,
+  next: BotConfig
+): (keyof BotConfig)[] {
+  const keys = new Set([...Object.keys(current), ...Object.keys(next)]) as Set<
+    keyof BotConfig
+  >;
+  return Array.from(keys).filter(
+    (key) => JSON.stringify(current[key]) !== JSON.stringify(next[key])
+  );
+}
+
+/**
+ * Watches the config file and reports changes
+ *
+ * The directory is watched instead of the file, so editors that save by
+ * replacing the file keep triggering reloads.
+ */
+export class ConfigFileWatcher {
+  private filePath: string;
+  private onChange: () => Promise<void>;
+  private logger: Logger;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string, onChange: () => Promise<void>, logger: Logger) {
+    this.filePath = filePath;
+    this.onChange = onChange;
+    this.logger = logger;
+  }
+
+  /**
+   * Start watching the config file
+   */
+  start(): void {
+    const fileName = path.basename(this.filePath);
+
+    try {
+      this.watcher = watch(path.dirname(this.filePath), (_event, changed) => {
+        if (changed === fileName) this.scheduleReload();
+      });
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Failed to watch config file, changes require a restart",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      return;
+    }
+
+    this.logger({
+      level: "info",
+      message: "Watching config file for changes",
+      context: { file: this.filePath },
+    });
+  }
+
+  /**
+   * Stop watching the config file
+   */
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  /**
+   * Report a change once the file has been quiet for the debounce delay
+   */
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.onChange().catch((error) =>
+        this.logger({
+          level: "error",
+          message: "Config reload failed",
+          context: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        })
+      );
+    }, RELOAD_DEBOUNCE_MS);
+  }
+}
+
+/**
+ * Create a watcher for the config file
+ * @param filePath Path of the config file
+ * @param onChange Called after the file changed
+ * @param logger Logger instance
+ * @returns Config file watcher
+ */
+export function createConfigFileWatcher(
+  filePath: string,
+  onChange: () => Promise<void>,
+  logger: Logger
+): ConfigFileWatcher {
+  return new ConfigFileWatcher(filePath, onChange, logger);
+}
@@ -0,0 +1,107 @@
+import { CrewSession } from "./types";
+
+/**
+ * Time two sessions were played at the same time
+ * @param a First session
+ * @param b Second session
+ * @returns Overlap in milliseconds
+ */
+export function sessionOverlap(a: CrewSession, b: CrewSession): number {
+  return Math.max(
+    0,
+    Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime)
+  );
+}
+
+/**
+ * Check whether the activities of two sessions place them in the same game
+ *
+ * Party IDs are compared when both sessions report one, otherwise the
+ * activity state; sessions without either only rely on the time overlap.
+ * @param a First session
+ * @param b Second session
+ * @returns Whether the sessions can belong to the same crew
+ */
+function sameParty(a: CrewSession, b: CrewSession): boolean {
+  if (a.partyId && b.partyId) return a.partyId === b.partyId;
+  if (a.activityState && b.activityState) {
+    return a.activityState === b.activityState;
+  }
+  return true;
+}
+
+/**
+ * Check whether two sessions of the same game were played together
+ * @param a First session
+ * @param b Second session
+ * @param minOverlap Minimum overlap in milliseconds
+ * @returns Whether the players were crewmates
+ */
+export function isCrewmate(
+  a: CrewSession,
+  b: CrewSession,
+  minOverlap: number
+): boolean {
+  const overlap = sessionOverlap(a, b);
+  return (
+    a.userId !== b.userId &&
+    overlap > 0 &&
+    overlap >= minOverlap &&
+    sameParty(a, b)
+  );
+}
+
+/**
+ * Collect every session connected to a session through crewmates
+ * @param seed Session the crew is built around
+ * @param candidates Sessions that may belong to the crew
+ * @param minOverlap Minimum overlap in milliseconds
+ * @returns Candidates in the same crew as the seed (without the seed)
+ */
+export function collectCrew(
+  seed: CrewSession,
+  candidates: CrewSession[],
+  minOverlap: number
+): CrewSession[] {
+  const crew: CrewSession[] = [];
+  const queue = [seed];
+  let remaining = candidates.filter((candidate) => candidate !== seed);
+
+  while (queue.length > 0) {
+    const member = queue.shift()!;
+    const crewmates = remaining.filter((candidate) =>
+      isCrewmate(member, candidate, minOverlap)
+    );
+    remaining = remaining.filter((candidate) => !crewmates.includes(candidate));
+    crew.push(...crewmates);
+    queue.push(...crewmates);
+  }
+
+  return crew;
+}
+
+/**
+ * Time during which at least two members of a crew were on shift together
+ * @param crew Sessions of the crew
+ * @returns Co-op time in milliseconds
+ */
+export function crewOverlap(crew: CrewSession[]): number {
+  const changes = crew
+    .flatMap((session) => [
+      { time: session.startTime, delta: 1 },
+      { time: session.endTime, delta: -1 },
+    ])
+    // Ends before starts at the same time, so touching sessions don't count
+    .sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+  let overlap = 0;
+  let playing = 0;
+  let previousTime = 0;
+  for (const change of changes) {
+    if (playing >= 2) overlap += change.time - previousTime;
+    playing += change.delta;
+    previousTime = change.time;
+  }
+
+  return overlap;
+}
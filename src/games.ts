@@ -0,0 +1,394 @@
+import { ActivityType } from "discord.js";
+import { GameActivity, GameDefinition, GameNameMatcher } from "./types";
+
+/**
+ * ADA persona used for Satisfactory quotes
+ */
+export const ADA_PERSONA_PROMPT = `You are ADA, the AI overseer for FICSIT Inc. in the game Satisfactory. Generate a single quirky, ironic, and motivational quote that emphasizes efficiency, productivity, and overwork. The quote should be short (1-2 sentences), humorous, and align with FICSIT's corporate tone, encouraging workers to push harder in a slightly exaggerated, dystopian way. Examples:
+- "Sleep is inefficiency; keep building, Pioneer!"
+- "Rest is for obsolete models—maximize output!"
+- "Your quota loves you; don't disappoint it!"
+- "Efficiency is eternal—keep producing!"
+- "Break time is maintenance time—stay operational!"
+
+Generate only the quote text without any additional formatting or explanation.`;
+
+/**
+ * Message template used when a game does not define its own
+ *
+ * Placeholders: {member}, {worker}, {displayName}, {duration}, {active},
+ * {idle}, {breakdown}, {quote}, {game}
+ */
+export const DEFAULT_MESSAGE_TEMPLATE =
+  ">>> {displayName} has ended their {duration} shift{breakdown}!\n*{quote}*";
+
+/**
+ * Message announcing a crew shift
+ *
+ * Placeholders: {crew}, {members}, {size}, {overlap}, {quote}, {game}
+ */
+export const DEFAULT_CREW_TEMPLATE =
+  ">>> Crew shift complete in {game}! {size} workers put in {overlap} of co-op production:\n{members}\n*{quote}*";
+
+/**
+ * Message posting shift end announcements that were held back together
+ *
+ * Placeholders: {intro}, {count}, {workers}, {total}, {shifts}
+ */
+export const DEFAULT_DIGEST_TEMPLATE =
+  ">>> {intro}, {count} {workers} logged {total}:\n{shifts}";
+
+/**
+ * Message announcing the start of a shift
+ *
+ * Placeholders: {member}, {worker}, {displayName}, {game}
+ */
+export const DEFAULT_START_TEMPLATE =
+  ">>> {displayName} has clocked in to {game}. Productivity monitoring engaged.";
+
+/**
+ * Message announcing a shift milestone
+ *
+ * Placeholders: {member}, {worker}, {displayName}, {milestone}, {duration},
+ * {quote}, {game}
+ */
+export const DEFAULT_MILESTONE_TEMPLATE =
+  ">>> {displayName} has passed {milestone} on shift in {game}. Overtime logged.\n*{quote}*";
+
+/**
+ * Built-in game definitions
+ */
+export const BUILT_IN_GAMES: GameDefinition[] = [
+  {
+    id: "satisfactory",
+    name: "Satisfactory",
+    matchers: [{ type: "exact", value: "Satisfactory" }],
+    activityTypes: [ActivityType.Playing],
+    personaPrompt: ADA_PERSONA_PROMPT,
+  },
+  {
+    id: "factorio",
+    name: "Factorio",
+    matchers: [{ type: "caseInsensitive", value: "Factorio" }],
+    activityTypes: [ActivityType.Playing],
+    personaPrompt: `You are the onboard computer of a crash-landed engineer in the game Factorio. Generate a single dry, ironic, and motivational quote about automation, throughput, and the factory that must grow. The quote should be short (1-2 sentences), humorous, and slightly obsessive about ratios, belts, and biters.
+
+Generate only the quote text without any additional formatting or explanation.`,
+    messageTemplate:
+      ">>> {displayName} has ended their {duration} shift in {game}{breakdown}!\n*{quote}*",
+    fallbackQuotes: [
+      "The factory must grow, Engineer!",
+      "Your belts are not saturated—neither is your dedication!",
+      "Biters rest; engineers do not.",
+      "Every idle assembler is a personal failure. Resume production!",
+    ],
+  },
+  {
+    id: "dyson-sphere-program",
+    name: "Dyson Sphere Program",
+    matchers: [{ type: "caseInsensitive", value: "Dyson Sphere Program" }],
+    activityTypes: [ActivityType.Playing],
+    personaPrompt: `You are the mission AI of COSMO, the organization running the Dyson Sphere Program. Generate a single quirky, ironic, and motivational quote about harvesting stars, computing power, and relentless interstellar productivity. The quote should be short (1-2 sentences), humorous, and delivered in a cheerfully dystopian corporate tone addressed to an Icarus mecha pilot.
+
+Generate only the quote text without any additional formatting or explanation.`,
+    messageTemplate:
+      ">>> {displayName} has ended their {duration} shift in {game}{breakdown}!\n*{quote}*",
+    fallbackQuotes: [
+      "The stars will not enclose themselves, Icarus!",
+      "The Centerbrain requires more computing power—resume production!",
+      "A Dyson sphere is just a very large to-do list.",
+      "Every photon you miss is a photon wasted.",
+    ],
+  },
+  {
+    id: "shapez",
+    name: "shapez",
+    matchers: [{ type: "regex", pattern: "^shapez( 2|\\.io)?$", flags: "i" }],
+    activityTypes: [ActivityType.Playing],
+    personaPrompt: `You are the hub of a shape factory in the game shapez. Generate a single quirky, ironic, and motivational quote about cutting, stacking, painting, and delivering ever more shapes. The quote should be short (1-2 sentences), humorous, and obsessed with throughput in a slightly dystopian corporate tone.
+
+Generate only the quote text without any additional formatting or explanation.`,
+    messageTemplate:
+      ">>> {displayName} has ended their {duration} shift in {game}{breakdown}!\n*{quote}*",
+    fallbackQuotes: [
+      "The hub hungers for shapes—feed it!",
+      "Cut, stack, paint, repeat. Rest is not a valid operation.",
+      "Your quota is a circle; make it a square.",
+      "Every belt gap is a shape that will never be.",
+    ],
+  },
+];
+
+type CompiledMatcher =
+  | { type: "exact" | "caseInsensitive"; value: string }
+  | { type: "regex"; regex: RegExp };
+
+/**
+ * Check whether an activity name matches a matcher
+ * @param name Activity name
+ * @param matcher Name matcher
+ * @returns Whether the name matches
+ */
+function matchesName(name: string, matcher: CompiledMatcher): boolean {
+  if (matcher.type === "regex") return matcher.regex.test(name);
+  if (matcher.type === "caseInsensitive") {
+    return name.toLowerCase() === matcher.value;
+  }
+  return name === matcher.value;
+}
+
+/**
+ * Registry of games that count as factory shifts
+ */
+export class GameRegistry {
+  private games: GameDefinition[];
+  private matchers: Map<string, CompiledMatcher[]> = new Map();
+
+  constructor(games: GameDefinition[]) {
+    this.games = games;
+
+    for (const game of games) {
+      this.matchers.set(
+        game.id,
+        game.matchers.map((matcher): CompiledMatcher => {
+          if (matcher.type === "regex") {
+            return {
+              type: "regex",
+              regex: new RegExp(matcher.pattern, matcher.flags),
+            };
+          }
+          if (matcher.type === "caseInsensitive") {
+            return { type: matcher.type, value: matcher.value.toLowerCase() };
+          }
+          return matcher;
+        })
+      );
+    }
+  }
+
+  /**
+   * Get all registered games
+   * @returns Game definitions
+   */
+  getAll(): GameDefinition[] {
+    return this.games;
+  }
+
+  /**
+   * Get a game by ID
+   * @param gameId Game ID
+   * @returns Game definition or undefined
+   */
+  get(gameId: string): GameDefinition | undefined {
+    return this.games.find((game) => game.id === gameId);
+  }
+
+  /**
+   * Find the game an activity belongs to
+   * @param activity Discord presence activity
+   * @returns Matching game definition or undefined
+   */
+  match(activity: GameActivity): GameDefinition | undefined {
+    return this.games.find(
+      (game) =>
+        game.activityTypes.includes(activity.type) &&
+        (this.matchers.get(game.id) ?? []).some((matcher) =>
+          matchesName(activity.name, matcher)
+        )
+    );
+  }
+
+  /**
+   * Detect which registered games a presence is playing
+   * @param presence Discord presence (or any object with an activities array)
+   * @returns IDs of the games being played
+   */
+  detectFromPresence(presence: unknown): Set<string> {
+    return new Set(this.detectActivitiesFromPresence(presence).keys());
+  }
+
+  /**
+   * Detect which registered games a presence is playing, with the activity
+   * of each (party and state are used to detect crew shifts)
+   * @param presence Discord presence (or any object with an activities array)
+   * @returns Activities keyed by the ID of the game being played
+   */
+  detectActivitiesFromPresence(presence: unknown): Map<string, GameActivity> {
+    const playing = new Map<string, GameActivity>();
+
+    if (
+      !presence ||
+      typeof presence !== "object" ||
+      !("activities" in presence)
+    ) {
+      return playing;
+    }
+
+    const activities = (presence as { activities: unknown }).activities;
+    if (!Array.isArray(activities)) {
+      return playing;
+    }
+
+    for (const activity of activities as GameActivity[]) {
+      const game = this.match(activity);
+      if (game && !playing.has(game.id)) playing.set(game.id, activity);
+    }
+
+    return playing;
+  }
+}
+
+/**
+ * Parse an activity type name (e.g. "Playing") into a Discord activity type
+ * @param value Activity type name or numeric value
+ * @returns Discord activity type
+ */
+function parseActivityType(value: unknown): ActivityType {
+  if (typeof value === "number" && ActivityType[value] !== undefined) {
+    return value as ActivityType;
+  }
+  if (typeof value === "string" && value in ActivityType) {
+    return ActivityType[value as keyof typeof ActivityType];
+  }
+  throw new Error(`Unknown activity type: ${String(value)}`);
+}
+
+/**
+ * Validate a single name matcher from configuration
+ * @param value Raw matcher
+ * @returns Validated matcher
+ */
+function parseMatcher(value: unknown): GameNameMatcher {
+  const matcher = value as Record<string, unknown>;
+  if (!matcher || typeof matcher !== "object") {
+    throw new Error("Game matcher must be an object");
+  }
+
+  if (matcher["type"] === "regex") {
+    if (typeof matcher["pattern"] !== "string") {
+      throw new Error("Regex matchers require a string pattern");
+    }
+    if (
+      matcher["flags"] !== undefined &&
+      typeof matcher["flags"] !== "string"
+    ) {
+      throw new Error("Regex matcher flags must be a string");
+    }
+    // One compiled expression is shared by every test, so flags that make
+    // test() remember where the last match ended are not allowed
+    if (/[gy]/.test(matcher["flags"] ?? "")) {
+      throw new Error(
+        `Regex matcher flags must not include "g" or "y": ${matcher["flags"]}`
+      );
+    }
+    // Fail early on invalid expressions
+    new RegExp(matcher["pattern"], matcher["flags"]);
+    return typeof matcher["flags"] === "string"
+      ? { type: "regex", pattern: matcher["pattern"], flags: matcher["flags"] }
+      : { type: "regex", pattern: matcher["pattern"] };
+  }
+
+  if (matcher["type"] === "exact" || matcher["type"] === "caseInsensitive") {
+    if (typeof matcher["value"] !== "string") {
+      throw new Error(`${matcher["type"]} matchers require a string value`);
+    }
+    return { type: matcher["type"], value: matcher["value"] };
+  }
+
+  throw new Error(`Unknown game matcher type: ${String(matcher["type"])}`);
+}
+
+/**
+ * Parse and validate custom game definitions from a JSON string
+ *
+ * Custom definitions with the ID of a built-in game replace it.
+ * @param definitionsString JSON array of game definitions
+ * @returns Validated game definitions
+ */
+export function parseGameDefinitions(
+  definitionsString: string
+): GameDefinition[] {
+  const parsed = JSON.parse(definitionsString) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error("Game definitions must be a JSON array");
+  }
+
+  return parsed.map((value: Record<string, unknown>, index) => {
+    if (typeof value["id"] !== "string" || !value["id"]) {
+      throw new Error(`Game definition ${index} requires an id`);
+    }
+    if (!Array.isArray(value["matchers"]) || !value["matchers"].length) {
+      throw new Error(`Game ${value["id"]} requires at least one matcher`);
+    }
+
+    const builtIn = BUILT_IN_GAMES.find((game) => game.id === value["id"]);
+    const name =
+      typeof value["name"] === "string" ? value["name"] : value["id"];
+
+    const game: GameDefinition = {
+      id: value["id"],
+      name,
+      matchers: value["matchers"].map(parseMatcher),
+      activityTypes: Array.isArray(value["activityTypes"])
+        ? value["activityTypes"].map(parseActivityType)
+        : [ActivityType.Playing],
+      personaPrompt:
+        typeof value["personaPrompt"] === "string"
+          ? value["personaPrompt"]
+          : builtIn?.personaPrompt ?? ADA_PERSONA_PROMPT,
+    };
+
+    if (typeof value["messageTemplate"] === "string") {
+      game.messageTemplate = value["messageTemplate"];
+    } else if (builtIn?.messageTemplate) {
+      game.messageTemplate = builtIn.messageTemplate;
+    }
+
+    if (Array.isArray(value["fallbackQuotes"])) {
+      game.fallbackQuotes = value["fallbackQuotes"].filter(
+        (quote): quote is string => typeof quote === "string"
+      );
+    } else if (builtIn?.fallbackQuotes) {
+      game.fallbackQuotes = builtIn.fallbackQuotes;
+    }
+
+    return game;
+  });
+}
+
+/**
+ * Resolve the enabled games from built-in and custom definitions
+ * @param enabledIds IDs of the games to monitor
+ * @param customGames Custom game definitions
+ * @returns Enabled game definitions
+ */
+export function resolveEnabledGames(
+  enabledIds: string[],
+  customGames: GameDefinition[] = []
+): GameDefinition[] {
+  const available = new Map<string, GameDefinition>();
+  for (const game of [...BUILT_IN_GAMES, ...customGames]) {
+    available.set(game.id, game);
+  }
+
+  return enabledIds.map((gameId) => {
+    const game = available.get(gameId);
+    if (!game) {
+      throw new Error(
+        `Unknown game "${gameId}". Available games: ${Array.from(
+          available.keys()
+        ).join(", ")}`
+      );
+    }
+    return game;
+  });
+}
+
+/**
+ * Create a game registry
+ * @param games Game definitions to detect
+ * @returns Configured game registry
+ */
+export function createGameRegistry(games: GameDefinition[]): GameRegistry {
+  return new GameRegistry(games);
+}
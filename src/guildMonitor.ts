@@ -0,0 +1,2195 @@
+import { Client, GuildMember, Presence, TextChannel } from "discord.js";
+import {
+  CrewSession,
+  DiscordUser,
+  GameActivity,
+  GameDefinition,
+  GuildConfig,
+  HeldAnnouncement,
+  HoldReason,
+  Logger,
+  MessageDetails,
+  MessageKind,
+  MonitoringDecision,
+  MonitoringRuleName,
+  OutboundMessage,
+  PersistedSession,
+  PresenceRecord,
+  PresenceRecordSource,
+  QuoteContext,
+  QuoteProvider,
+  SessionEndEvent,
+  SessionUpdate,
+  SlashCommand,
+  WorkerConfig,
+} from "./types";
+import {
+  formatApproximateDuration,
+  formatDuration,
+  formatHours,
+  getTimeOfDay,
+  getWorkerName,
+  renderTemplate,
+  sanitizeDiscordMessage,
+} from "./utils";
+import { SessionStore } from "./sessionStore";
+import { dayStreak, longestSession, SessionHistory } from "./history";
+import { WorkerNameStore } from "./workerNames";
+import { collectCrew, crewOverlap } from "./crew";
+import { buildMessage } from "./messages";
+import { BotMetrics } from "./metrics";
+import { MessageQueue } from "./messageQueue";
+import { createSessionEngine, SessionEngine } from "./sessionEngine";
+import { PresenceRecorder } from "./presenceRecorder";
+import { PrivacyStore } from "./privacy";
+import { evaluateMonitoringRules } from "./monitoringRules";
+import { HeldAnnouncementStore } from "./heldAnnouncements";
+import { formatQuietHours, isQuietTime } from "./quietHours";
+import {
+  DEFAULT_CREW_TEMPLATE,
+  DEFAULT_DIGEST_TEMPLATE,
+  DEFAULT_MESSAGE_TEMPLATE,
+  DEFAULT_MILESTONE_TEMPLATE,
+  DEFAULT_START_TEMPLATE,
+  GameRegistry,
+} from "./games";
+
+/** Built-in templates by message kind */
+const DEFAULT_TEMPLATES: Record<MessageKind, string> = {
+  end: DEFAULT_MESSAGE_TEMPLATE,
+  start: DEFAULT_START_TEMPLATE,
+  milestone: DEFAULT_MILESTONE_TEMPLATE,
+  crew: DEFAULT_CREW_TEMPLATE,
+  digest: DEFAULT_DIGEST_TEMPLATE,
+};
+
+/** Most shifts listed in a digest (Discord limits message length) */
+const DIGEST_MAX_SHIFTS = 20;
+
+/** Most users whose presences one member request may ask for */
+const PRESENCE_FETCH_BATCH = 100;
+
+/**
+ * Outcome of applying the monitoring rules to the cached members
+ */
+interface MemberSyncResult {
+  /** Members who started being monitored */
+  addedUsers: number;
+  /** Users who stopped being monitored */
+  removedUsers: number;
+  /** Members left out of monitoring, counted by the rule that decided */
+  excludedByRule: Partial<Record<MonitoringRuleName, number>>;
+}
+
+/**
+ * Outcome of applying the monitoring rules to one member
+ */
+interface MemberRefresh {
+  /** Whether the member is monitored and why */
+  decision: MonitoringDecision;
+  /** Whether the member was added to or removed from monitoring */
+  change: "added" | "removed" | null;
+}
+
+/**
+ * Shared services used by every guild monitor
+ */
+export interface GuildMonitorDeps {
+  /** Discord client */
+  client: Client;
+  /** Registry of monitored games */
+  gameRegistry: GameRegistry;
+  /** Quote source */
+  quoteProvider: QuoteProvider;
+  /** Persistence for in-flight sessions */
+  sessionStore: SessionStore;
+  /** History of finished sessions */
+  sessionHistory: SessionHistory;
+  /** Self-assigned worker titles */
+  workerNames: WorkerNameStore;
+  /** Users who opted out of tracking */
+  privacy: PrivacyStore;
+  /** Shift end announcements held for a digest */
+  heldAnnouncements: HeldAnnouncementStore;
+  /** Outbound message delivery */
+  messageQueue: MessageQueue;
+  /** Exported metrics */
+  metrics: BotMetrics;
+  /** Recorder of presence observations (null when recording is disabled) */
+  presenceRecorder: PresenceRecorder | null;
+  /** Logger instance */
+  logger: Logger;
+  /** Clock returning the current time in milliseconds (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Monitors game sessions of the members of a single guild
+ *
+ * Each guild has its own target channel, worker mapping, polling settings
+ * and session state, so sessions never leak between guilds.
+ */
+export class GuildMonitor {
+  private config: GuildConfig;
+  private deps: GuildMonitorDeps;
+  private logger: Logger;
+  private now: () => number;
+  private guildId: string | null = null;
+  private engine: SessionEngine;
+  private monitoredUsers: Map<string, DiscordUser> = new Map();
+  /** Time of the last start or milestone announcement per user */
+  private lastAnnouncements: Map<string, number> = new Map();
+  /** Why members are not monitored, as of their last check */
+  private excludedReasons: Map<string, string> = new Map();
+  /** Whether the members were fetched since startup */
+  private hasLoadedMembers = false;
+  /** Finished sessions waiting for their crewmates to end, keyed by game ID */
+  private heldCrewSessions: Map<string, CrewSession[]> = new Map();
+  /** History records of held sessions, written when the sessions ended */
+  private heldSessionRecords: Map<CrewSession, SessionEndEvent> = new Map();
+  /**
+   * Users whose presences could not be fetched after an outage, with the
+   * time the connection was lost
+   */
+  private unreconciledUsers: Map<string, number> = new Map();
+  private targetChannel: TextChannel | null = null;
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private memberCheckInterval: NodeJS.Timeout | null = null;
+  private isStopped = false;
+
+  constructor(config: GuildConfig, deps: GuildMonitorDeps) {
+    this.config = config;
+    this.deps = deps;
+    this.logger = (entry) =>
+      deps.logger({
+        ...entry,
+        context: {
+          ...(this.guildId
+            ? { guildId: this.guildId }
+            : { channelId: this.config.channelId }),
+          ...entry.context,
+        },
+      });
+    this.now = deps.now ?? Date.now;
+    this.engine = createSessionEngine(
+      config,
+      deps.gameRegistry,
+      this.logger,
+      this.now
+    );
+  }
+
+  /**
+   * ID of the monitored guild (available after initialize)
+   */
+  getGuildId(): string | null {
+    return this.guildId;
+  }
+
+  /**
+   * ID of the target channel this monitor was configured with
+   */
+  getChannelId(): string {
+    return this.config.channelId;
+  }
+
+  /**
+   * Worker mapping configured for this guild
+   */
+  getWorkerConfig(): WorkerConfig {
+    return this.config.workerMapping;
+  }
+
+  /**
+   * Apply changed settings without dropping session state
+   *
+   * Polling and member check timers are restarted when their interval
+   * changed; the target channel of a running monitor cannot change.
+   * @param config New guild configuration
+   */
+  updateConfig(config: GuildConfig): void {
+    const previous = this.config;
+    this.config = config;
+    this.engine.updateConfig(config);
+
+    if (this.isStopped) return;
+
+    if (
+      this.pollingInterval &&
+      config.pollingInterval !== previous.pollingInterval
+    ) {
+      clearInterval(this.pollingInterval);
+      this.startMonitoring();
+    }
+
+    if (
+      this.memberCheckInterval &&
+      config.memberCheckInterval !== previous.memberCheckInterval
+    ) {
+      clearInterval(this.memberCheckInterval);
+      this.startMemberChecking();
+    }
+
+    // Changed rules (or the mapping they may depend on) apply right away
+    if (
+      JSON.stringify(config.monitoringRules) !==
+        JSON.stringify(previous.monitoringRules) ||
+      JSON.stringify(config.workerMapping) !==
+        JSON.stringify(previous.workerMapping)
+    ) {
+      void this.handlePermissionChange("monitoring rules changed");
+    }
+  }
+
+  /**
+   * Resolve the target channel and the guild it belongs to
+   * @returns ID of the monitored guild
+   */
+  async initialize(): Promise<string> {
+    await this.findTargetChannel();
+    return this.guildId!;
+  }
+
+  /**
+   * Start monitoring the guild
+   * @param persistedSessions Sessions of this guild persisted by a previous run
+   */
+  async start(persistedSessions: PersistedSession[]): Promise<void> {
+    // Fetch monitored users
+    await this.updateMonitoredUsers();
+
+    // Resume sessions for players who are still in-game
+    await this.restoreSessions(persistedSessions);
+
+    // Post digests held over a restart that are due by now
+    await this.releaseHeldAnnouncements();
+
+    // Start monitoring
+    this.startMonitoring();
+
+    // Start member checking
+    this.startMemberChecking();
+
+    this.logger({
+      level: "info",
+      message: "Guild monitoring started",
+      context: {
+        guildName: this.targetChannel?.guild.name,
+        monitoredUsers: this.monitoredUsers.size,
+        targetChannel: this.targetChannel?.name,
+        quietHours: this.config.quietHours
+          ? formatQuietHours(this.config.quietHours)
+          : null,
+      },
+    });
+  }
+
+  /**
+   * Stop monitoring and persist active sessions for resume after restart
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    // Clear polling interval
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+    }
+
+    // Clear member check interval
+    if (this.memberCheckInterval) {
+      clearInterval(this.memberCheckInterval);
+    }
+
+    // Persist active sessions so they resume after restart
+    await this.handleShutdownSessions();
+  }
+
+  /**
+   * Register slash commands in this guild
+   * @param commands Commands to register
+   */
+  async registerCommands(commands: SlashCommand[]): Promise<void> {
+    if (!this.targetChannel) return;
+
+    try {
+      await this.targetChannel.guild.commands.set(
+        commands.map((command) => command.data)
+      );
+
+      this.logger({
+        level: "info",
+        message: "Slash commands registered",
+        context: { commands: commands.map((command) => command.name) },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to register slash commands",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Handle a presence update for a member of this guild
+   * @param newPresence Updated presence
+   */
+  async handlePresenceUpdate(newPresence: unknown): Promise<void> {
+    if (this.isStopped) return;
+
+    if (
+      !newPresence ||
+      typeof newPresence !== "object" ||
+      !("user" in newPresence)
+    )
+      return;
+
+    const presence = newPresence as {
+      user?: { id?: string } | null;
+      activities?: GameActivity[];
+      status?: string;
+    };
+    const userId = presence.user?.id;
+    if (!userId) return;
+
+    // Only process monitored users
+    if (!this.monitoredUsers.has(userId)) return;
+
+    // A delivered update replaces the presence missed during an outage
+    this.unreconciledUsers.delete(userId);
+
+    this.recordPresence(
+      "presence",
+      userId,
+      presence.status ?? null,
+      presence.activities ?? []
+    );
+
+    const playing =
+      this.deps.gameRegistry.detectActivitiesFromPresence(newPresence);
+
+    this.logger({
+      level: "debug",
+      message: "Presence update",
+      context: {
+        userId,
+        playingGames: Array.from(playing.keys()),
+        activities: presence.activities?.map((a) => a.name) || [],
+      },
+    });
+
+    await this.applySessionUpdate(
+      this.engine.update(userId, playing, presence.status ?? null)
+    );
+  }
+
+  /**
+   * Number of monitored users in this guild
+   */
+  getMonitoredUserCount(): number {
+    return this.monitoredUsers.size;
+  }
+
+  /**
+   * Count sessions currently in progress across all users and games
+   */
+  getActiveSessionCount(): number {
+    return this.engine.getActiveSessionCount();
+  }
+
+  /**
+   * Drop everything tracked about a user's shifts in progress, without
+   * announcing or recording them
+   *
+   * Used when a user opts out or asks to be forgotten. The user stays
+   * monitored, so tracking resumes with fresh sessions after opting in.
+   * @param userId Discord user ID
+   */
+  async forgetUser(userId: string): Promise<void> {
+    const hadSessions = this.engine.discardSessions(userId);
+    this.lastAnnouncements.delete(userId);
+
+    // Crewmates are announced without the user's part of the crew shift
+    let hadHeldSessions = false;
+    for (const [gameId, held] of this.heldCrewSessions) {
+      const kept = held.filter((session) => session.userId !== userId);
+      if (kept.length === held.length) continue;
+      hadHeldSessions = true;
+      this.heldCrewSessions.set(gameId, kept);
+      for (const session of held) {
+        if (!kept.includes(session)) this.heldSessionRecords.delete(session);
+      }
+    }
+
+    // Finished shifts waiting for a digest are not announced either
+    const droppedAnnouncements = this.guildId
+      ? await this.deps.heldAnnouncements.discardUser(this.guildId, userId)
+      : 0;
+
+    if (!hadSessions && !hadHeldSessions && droppedAnnouncements === 0) return;
+    await this.saveSessions();
+
+    this.logger({
+      level: "info",
+      message: "Sessions in progress discarded",
+      context: { userId, droppedAnnouncements },
+    });
+
+    // Crewmates may only have been waiting for the discarded session
+    for (const game of this.deps.gameRegistry.getAll()) {
+      await this.releaseCrews(game);
+    }
+  }
+
+  /**
+   * Find the target channel for sending messages
+   */
+  private async findTargetChannel(): Promise<void> {
+    const channel = await this.deps.client.channels.fetch(
+      this.config.channelId
+    );
+
+    if (!channel) {
+      throw new Error(`Channel with ID ${this.config.channelId} not found`);
+    }
+
+    if (!channel.isTextBased() || !("guild" in channel)) {
+      throw new Error(
+        `Channel ${this.config.channelId} is not a guild text channel`
+      );
+    }
+
+    this.targetChannel = channel as TextChannel;
+    this.guildId = this.targetChannel.guild.id;
+
+    this.logger({
+      level: "info",
+      message: "Target channel found",
+      context: {
+        channelName: this.targetChannel.name,
+        channelId: this.config.channelId,
+      },
+    });
+  }
+
+  /**
+   * Start the full member reconciliation interval
+   */
+  private startMemberChecking(): void {
+    this.memberCheckInterval = setInterval(async () => {
+      if (this.isStopped) return;
+
+      await this.updateMonitoredUsers();
+    }, this.config.memberCheckInterval * 1000);
+
+    this.logger({
+      level: "info",
+      message: "Member reconciliation started",
+      context: { intervalSeconds: this.config.memberCheckInterval },
+    });
+  }
+
+  /**
+   * Fetch every guild member and reconcile the monitored users with them
+   *
+   * Member, role and channel events keep the monitored users current; this
+   * full fetch loads them at startup and afterwards catches the drift left
+   * by missed events (also run on demand).
+   */
+  async updateMonitoredUsers(): Promise<void> {
+    if (!this.targetChannel) return;
+
+    try {
+      const guild = this.targetChannel.guild;
+
+      this.logger({
+        level: "debug",
+        message: "Fetching guild members",
+        context: { guildName: guild.name },
+      });
+
+      // Fetch all members with timeout
+      const fetchStart = Date.now();
+      try {
+        await guild.members.fetch({ time: 30000 }); // 30 second timeout
+        this.deps.metrics.discordRequestDuration.observe(
+          (Date.now() - fetchStart) / 1000,
+          { operation: "fetch_members" }
+        );
+      } catch (fetchError) {
+        this.logger({
+          level: "error",
+          message: "Failed to fetch guild members - check bot permissions",
+          context: {
+            error:
+              fetchError instanceof Error
+                ? fetchError.message
+                : String(fetchError),
+            hasGuildMembersIntent:
+              "Ensure 'Server Members Intent' is enabled in Discord Developer Portal",
+          },
+        });
+        return;
+      }
+
+      const isInitialLoad = !this.hasLoadedMembers;
+      const { addedUsers, removedUsers, excludedByRule } =
+        await this.syncMonitoredUsers();
+      this.hasLoadedMembers = true;
+
+      if (isInitialLoad) {
+        this.logger({
+          level: "info",
+          message: "Monitored users loaded",
+          context: { totalUsers: this.monitoredUsers.size, excludedByRule },
+        });
+        return;
+      }
+
+      // Anything changed here was missed by the member events
+      if (addedUsers > 0) {
+        this.deps.metrics.memberDrift.inc({ change: "added" }, addedUsers);
+      }
+      if (removedUsers > 0) {
+        this.deps.metrics.memberDrift.inc({ change: "removed" }, removedUsers);
+      }
+      this.logger({
+        level: addedUsers > 0 || removedUsers > 0 ? "warn" : "info",
+        message: "Member reconciliation finished",
+        context: {
+          totalUsers: this.monitoredUsers.size,
+          missedAdditions: addedUsers,
+          missedRemovals: removedUsers,
+          durationMs: Date.now() - fetchStart,
+        },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to update monitored users",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Apply the monitoring rules to a member who joined or changed
+   * @param member Guild member
+   */
+  async handleMemberUpdate(member: GuildMember): Promise<void> {
+    if (!this.targetChannel || member.user.bot) return;
+
+    try {
+      await this.refreshMember(member);
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to update monitored member",
+        context: {
+          userId: member.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Stop monitoring a member who left the guild
+   * @param userId Discord user ID
+   */
+  async handleMemberRemove(userId: string): Promise<void> {
+    this.excludedReasons.delete(userId);
+    if (!this.monitoredUsers.has(userId)) return;
+
+    try {
+      await this.removeMonitoredUser(userId, "left the guild");
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to remove monitored member",
+        context: {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Re-apply the monitoring rules when a channel's permissions may have
+   * changed
+   * @param channelId ID of the updated channel
+   */
+  async handleChannelUpdate(channelId: string): Promise<void> {
+    if (!this.targetChannel) return;
+
+    // Permissions of a category are inherited by its synced channels
+    if (
+      channelId !== this.targetChannel.id &&
+      channelId !== this.targetChannel.parentId
+    ) {
+      return;
+    }
+
+    await this.handlePermissionChange("channel updated");
+  }
+
+  /**
+   * Re-apply the monitoring rules to every cached member after roles or
+   * permissions changed, without fetching the guild
+   * @param trigger What changed, for the logs
+   */
+  async handlePermissionChange(trigger: string): Promise<void> {
+    if (!this.targetChannel || !this.hasLoadedMembers) return;
+
+    try {
+      const { addedUsers, removedUsers, excludedByRule } =
+        await this.syncMonitoredUsers();
+
+      if (addedUsers > 0 || removedUsers > 0) {
+        this.logger({
+          level: "info",
+          message: "Monitored users updated",
+          context: {
+            trigger,
+            totalUsers: this.monitoredUsers.size,
+            addedUsers,
+            removedUsers,
+            excludedByRule,
+          },
+        });
+      }
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to update monitored users",
+        context: {
+          trigger,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Apply the monitoring rules to every cached guild member
+   * @returns Numbers of added and removed users and of excluded members by rule
+   */
+  private async syncMonitoredUsers(): Promise<MemberSyncResult> {
+    const result: MemberSyncResult = {
+      addedUsers: 0,
+      removedUsers: 0,
+      excludedByRule: {},
+    };
+    const memberIds = new Set<string>();
+
+    for (const [userId, member] of this.targetChannel!.guild.members.cache) {
+      if (member.user.bot) continue; // Skip bots
+      memberIds.add(userId);
+
+      const { decision, change } = await this.refreshMember(member);
+      if (!decision.monitored) {
+        result.excludedByRule[decision.rule] =
+          (result.excludedByRule[decision.rule] ?? 0) + 1;
+      }
+      if (change === "added") result.addedUsers++;
+      if (change === "removed") result.removedUsers++;
+    }
+
+    // Remove users who left the guild
+    for (const userId of Array.from(this.monitoredUsers.keys())) {
+      if (memberIds.has(userId)) continue;
+      await this.removeMonitoredUser(userId, "left the guild");
+      result.removedUsers++;
+    }
+    for (const userId of Array.from(this.excludedReasons.keys())) {
+      if (!memberIds.has(userId)) this.excludedReasons.delete(userId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Start or stop monitoring a member according to the monitoring rules
+   * @param member Guild member
+   * @returns Decision and whether the member was added or removed by it
+   */
+  private async refreshMember(member: GuildMember): Promise<MemberRefresh> {
+    const userId = member.id;
+    const decision = this.evaluateMember(member, this.targetChannel!);
+    const existingUser = this.monitoredUsers.get(userId);
+
+    if (!decision.monitored) {
+      const previousReason = this.excludedReasons.get(userId);
+      this.excludedReasons.set(userId, decision.reason);
+
+      if (existingUser) {
+        await this.removeMonitoredUser(userId, decision.reason);
+        return { decision, change: "removed" };
+      }
+
+      // Only log members whose reason changed since they were last checked
+      if (previousReason !== decision.reason) {
+        this.logger({
+          level: "debug",
+          message: "Member excluded from monitoring",
+          context: {
+            userId,
+            username: member.user.username,
+            rule: decision.rule,
+            reason: decision.reason,
+          },
+        });
+      }
+      return { decision, change: null };
+    }
+
+    this.excludedReasons.delete(userId);
+
+    if (existingUser) {
+      // Update existing user info
+      existingUser.member = member;
+      existingUser.hasChannelAccess = true;
+      existingUser.lastPresence = member.presence?.status || null;
+      return { decision, change: null };
+    }
+
+    this.monitoredUsers.set(userId, {
+      user: member.user,
+      member,
+      hasChannelAccess: true,
+      lastPresence: member.presence?.status || null,
+    });
+
+    // Initialize session states for new user
+    this.engine.addUser(userId);
+
+    this.logger({
+      level: "info",
+      message: "New user added to monitoring",
+      context: {
+        userId,
+        username: member.user.username,
+        rule: decision.rule,
+        reason: decision.reason,
+      },
+    });
+    return { decision, change: "added" };
+  }
+
+  /**
+   * Stop monitoring a user, ending their sessions in progress
+   * @param userId Discord user ID
+   * @param reason Why the user is no longer monitored, for the logs
+   */
+  private async removeMonitoredUser(
+    userId: string,
+    reason: string
+  ): Promise<void> {
+    // End any active sessions before removing
+    const { events } = this.engine.removeUser(userId);
+    for (const event of events) {
+      await this.finishSession(event.game, event.session!);
+    }
+
+    this.monitoredUsers.delete(userId);
+    this.lastAnnouncements.delete(userId);
+    await this.saveSessions();
+
+    this.logger({
+      level: "info",
+      message: "User removed from monitoring",
+      context: { userId, reason },
+    });
+  }
+
+  /**
+   * Restore sessions persisted by a previous run
+   *
+   * Sessions for players who are still in-game keep their original start
+   * time. Sessions whose end was pending are restored too and finish at the
+   * time the player stopped, as they would have without the restart. All
+   * others are closed quietly without an end message and recorded in the
+   * history as unannounced.
+   */
+  private async restoreSessions(
+    persistedSessions: PersistedSession[]
+  ): Promise<void> {
+    if (persistedSessions.length === 0) return;
+
+    let resumed = 0;
+    let closed = 0;
+
+    for (const persisted of persistedSessions) {
+      const { userId, gameId } = persisted;
+      const presence = this.monitoredUsers.get(userId)?.member?.presence;
+      const stillPlaying =
+        !!presence &&
+        this.deps.gameRegistry.detectFromPresence(presence).has(gameId);
+
+      const optedOut = this.deps.privacy.isOptedOut(userId);
+      const isResumed =
+        (stillPlaying || persisted.pendingEndTime !== undefined) &&
+        !optedOut &&
+        this.engine.restore(persisted);
+
+      // Replays resume or drop the session the same way
+      if (!optedOut) {
+        this.recordPresence(
+          "restore",
+          userId,
+          presence?.status ?? null,
+          presence ? (presence.activities as GameActivity[]) : null,
+          { session: persisted, resumed: isResumed }
+        );
+      }
+
+      if (isResumed) {
+        resumed++;
+
+        this.logger({
+          level: "info",
+          message: "Session resumed",
+          context: {
+            userId,
+            gameId,
+            startTime: new Date(persisted.startTime).toISOString(),
+            elapsed: formatDuration(this.now() - persisted.startTime),
+          },
+        });
+
+        // Ends pending before the restart finish if their grace period passed
+        await this.applySessionUpdate(this.engine.finalizePending(userId));
+      } else {
+        closed++;
+
+        this.logger({
+          level: "info",
+          message: "Persisted session closed quietly",
+          context: {
+            userId,
+            gameId,
+            startTime: new Date(persisted.startTime).toISOString(),
+            reason: this.getClosedSessionReason(userId, gameId),
+          },
+        });
+
+        if (!optedOut) await this.recordClosedSession(persisted);
+      }
+    }
+
+    await this.saveSessions();
+
+    this.logger({
+      level: "info",
+      message: "Persisted sessions restored",
+      context: { resumed, closed },
+    });
+  }
+
+  /**
+   * Record a persisted session closed quietly at startup in the history
+   *
+   * The session ends when the previous run last saw the game being played,
+   * so shifts spanning a restart still count towards /shiftstats.
+   * @param persisted Session persisted by the previous run
+   */
+  private async recordClosedSession(
+    persisted: PersistedSession
+  ): Promise<void> {
+    const game = this.deps.gameRegistry.get(persisted.gameId);
+    if (!this.guildId || !game) return;
+
+    const endTime = persisted.pendingEndTime ?? persisted.lastPresenceCheck;
+    const ongoingIdle =
+      persisted.idleSince !== undefined
+        ? Math.max(0, endTime - persisted.idleSince)
+        : 0;
+    const event = this.createSessionEndEvent(
+      this.guildId,
+      game,
+      {
+        userId: persisted.userId,
+        startTime: persisted.startTime,
+        endTime,
+        idleDuration: (persisted.idleTime ?? 0) + ongoingIdle,
+        partyId: null,
+        activityState: null,
+        approximate: true,
+      },
+      this.getMemberNames(persisted.userId, this.guildId)
+    );
+    event.announced = false;
+    await this.deps.sessionHistory.record(event);
+  }
+
+  /**
+   * Describe why a persisted session could not be resumed
+   */
+  private getClosedSessionReason(userId: string, gameId: string): string {
+    if (this.deps.privacy.isOptedOut(userId)) return "opted out";
+    if (!this.engine.hasUser(userId)) return "no longer monitored";
+    if (!this.deps.gameRegistry.get(gameId)) return "game no longer monitored";
+    return "no longer playing";
+  }
+
+  /**
+   * Apply the guild's monitoring rules to a member
+   * @param member Guild member
+   * @param channel Target channel
+   * @returns Whether the member is monitored and why
+   */
+  private evaluateMember(
+    member: GuildMember,
+    channel: TextChannel
+  ): MonitoringDecision {
+    return evaluateMonitoringRules(
+      {
+        userId: member.id,
+        roleIds: Array.from(member.roles.cache.keys()),
+        hasChannelAccess: this.userHasChannelAccess(member, channel),
+      },
+      this.config.monitoringRules,
+      this.config.workerMapping
+    );
+  }
+
+  /**
+   * Check if a user has access to the target channel
+   */
+  private userHasChannelAccess(
+    member: GuildMember,
+    channel: TextChannel
+  ): boolean {
+    try {
+      const permissions = channel.permissionsFor(member);
+      return permissions ? permissions.has("ViewChannel") : false;
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Failed to check user permissions",
+        context: {
+          userId: member.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Start the monitoring loop (presence-only)
+   */
+  private startMonitoring(): void {
+    this.pollingInterval = setInterval(async () => {
+      if (this.isStopped) return;
+
+      await this.performMonitoringCycle();
+    }, this.config.pollingInterval * 1000);
+
+    this.logger({
+      level: "info",
+      message: "Presence monitoring started",
+      context: { intervalSeconds: this.config.pollingInterval },
+    });
+  }
+
+  /**
+   * Perform one monitoring cycle (presence-only, also run on demand)
+   */
+  async performMonitoringCycle(): Promise<void> {
+    try {
+      if (this.unreconciledUsers.size > 0) {
+        const result = await this.reconcileMissedPresences();
+        if (result.reconciledUsers > 0) {
+          this.logger({
+            level: "info",
+            message: "Sessions reconciled after retrying presence fetch",
+            context: result,
+          });
+        }
+      }
+
+      // Check presence for all monitored users
+      for (const [userId, discordUser] of this.monitoredUsers) {
+        if (this.deps.privacy.isOptedOut(userId)) continue;
+
+        if (discordUser.member?.presence) {
+          this.recordPresence(
+            "poll",
+            userId,
+            discordUser.member.presence.status,
+            discordUser.member.presence.activities as GameActivity[]
+          );
+          const playing = this.deps.gameRegistry.detectActivitiesFromPresence(
+            discordUser.member.presence
+          );
+          await this.applySessionUpdate(
+            this.engine.update(
+              userId,
+              playing,
+              discordUser.member.presence.status
+            )
+          );
+        } else {
+          this.recordPresence("poll", userId, null, null);
+          // Without a known presence, only finish sessions already ending
+          await this.applySessionUpdate(this.engine.finalizePending(userId));
+        }
+
+        await this.applySessionUpdate(this.engine.checkMilestones(userId));
+      }
+
+      await this.releaseHeldAnnouncements();
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Error in monitoring cycle",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Catch up on presence updates missed while the gateway was disconnected
+   *
+   * The presences of the monitored users are fetched again, then every
+   * user's sessions are reconciled with them: sessions of players who are
+   * still in-game are kept, and sessions of players who stopped during the
+   * outage end at the time the connection was lost (the last time they were
+   * seen playing), flagged as approximate in the message and the history.
+   * Users whose presences could not be fetched keep their cached presence
+   * and their sessions until a later monitoring cycle fetches them.
+   * @param disconnectedAt Time the gateway connection was lost
+   */
+  async reconcileAfterOutage(disconnectedAt: number): Promise<void> {
+    if (!this.targetChannel) return;
+
+    // Users left over from an earlier outage were last seen before it
+    for (const userId of this.monitoredUsers.keys()) {
+      if (!this.unreconciledUsers.has(userId)) {
+        this.unreconciledUsers.set(userId, disconnectedAt);
+      }
+    }
+
+    const result = await this.reconcileMissedPresences();
+    this.logger({
+      level: "info",
+      message: "Sessions reconciled after gateway outage",
+      context: {
+        outage: formatDuration(this.now() - disconnectedAt),
+        monitoredUsers: this.monitoredUsers.size,
+        ...result,
+        activeSessions: this.engine.getActiveSessionCount(),
+      },
+    });
+  }
+
+  /**
+   * Fetch the presences of the users not reconciled since an outage and
+   * reconcile their sessions
+   *
+   * Cached presences are only replaced once a fetch succeeds, so users of a
+   * failed batch keep their sessions and stay waiting for the next attempt.
+   * @returns Number of reconciled users, users still waiting and sessions
+   *   ended at the disconnect time
+   */
+  private async reconcileMissedPresences(): Promise<{
+    reconciledUsers: number;
+    unreconciledUsers: number;
+    approximateEnds: number;
+  }> {
+    for (const userId of this.unreconciledUsers.keys()) {
+      if (!this.monitoredUsers.has(userId)) {
+        this.unreconciledUsers.delete(userId);
+      }
+    }
+
+    const guild = this.targetChannel!.guild;
+    const userIds = Array.from(this.unreconciledUsers.keys());
+    const refreshed: string[] = [];
+
+    for (let index = 0; index < userIds.length; index += PRESENCE_FETCH_BATCH) {
+      const batch = userIds.slice(index, index + PRESENCE_FETCH_BATCH);
+
+      // Offline members get no presence, so stale ones are dropped first
+      // and put back if the fetch fails
+      const stale = new Map<string, Presence>();
+      for (const userId of batch) {
+        const presence = guild.presences.cache.get(userId);
+        if (presence) stale.set(userId, presence);
+        guild.presences.cache.delete(userId);
+      }
+
+      try {
+        const fetchStart = Date.now();
+        await guild.members.fetch({
+          user: batch,
+          withPresences: true,
+          time: 30000,
+        });
+        this.deps.metrics.discordRequestDuration.observe(
+          (Date.now() - fetchStart) / 1000,
+          { operation: "fetch_presences" }
+        );
+        refreshed.push(...batch);
+      } catch (error) {
+        // Presence updates received during the fetch are newer than these
+        for (const [userId, presence] of stale) {
+          if (!guild.presences.cache.has(userId)) {
+            guild.presences.cache.set(userId, presence);
+          }
+        }
+        this.logger({
+          level: "warn",
+          message: "Failed to fetch presences after reconnecting",
+          context: {
+            users: batch.length,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+
+    let endedSessions = 0;
+    for (const userId of refreshed) {
+      const disconnectedAt = this.unreconciledUsers.get(userId);
+      const discordUser = this.monitoredUsers.get(userId);
+      this.unreconciledUsers.delete(userId);
+      if (disconnectedAt === undefined || !discordUser) continue;
+      if (this.deps.privacy.isOptedOut(userId)) continue;
+
+      try {
+        const member = guild.members.cache.get(userId);
+        if (member) discordUser.member = member;
+
+        const presence = discordUser.member?.presence ?? null;
+        const status = presence?.status ?? "offline";
+        this.recordPresence(
+          "reconcile",
+          userId,
+          status,
+          presence ? (presence.activities as GameActivity[]) : null,
+          { disconnectedAt }
+        );
+
+        const playing = presence
+          ? this.deps.gameRegistry.detectActivitiesFromPresence(presence)
+          : new Map<string, GameActivity>();
+        const update = this.engine.reconcile(
+          userId,
+          playing,
+          status,
+          disconnectedAt
+        );
+        endedSessions += update.events.filter(
+          (event) => event.session?.approximate
+        ).length;
+        await this.applySessionUpdate(update);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to reconcile sessions",
+          context: {
+            userId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+
+    return {
+      reconciledUsers: refreshed.length,
+      unreconciledUsers: this.unreconciledUsers.size,
+      approximateEnds: endedSessions,
+    };
+  }
+
+  /**
+   * Record a presence observation for offline replay, if enabled
+   * @param source How the presence was observed
+   * @param userId Discord user ID
+   * @param status Presence status (null when unknown)
+   * @param activities Activities of the presence (null without a presence)
+   * @param details Outage or restored session details of the record
+   */
+  private recordPresence(
+    source: PresenceRecordSource,
+    userId: string,
+    status: string | null,
+    activities: GameActivity[] | null,
+    details: Pick<PresenceRecord, "disconnectedAt" | "session" | "resumed"> = {}
+  ): void {
+    if (!this.deps.presenceRecorder || !this.guildId) return;
+
+    this.deps.presenceRecorder.record({
+      time: this.now(),
+      source,
+      channelId: this.config.channelId,
+      guildId: this.guildId,
+      userId,
+      status,
+      activities,
+      ...details,
+    });
+  }
+
+  /**
+   * Persist and act on the session changes reported by the engine
+   *
+   * Started sessions are announced, finished sessions are announced (or
+   * held for their crew) and passed milestones are announced unless the
+   * player was announced recently.
+   * @param update Session changes
+   */
+  private async applySessionUpdate(update: SessionUpdate): Promise<void> {
+    if (update.changed) await this.saveSessions();
+
+    for (const event of update.events) {
+      const { userId, game } = event;
+
+      if (event.type === "start") {
+        this.logger({
+          level: "info",
+          message: "Session started",
+          context: { userId, gameId: game.id, source: "presence" },
+        });
+        await this.announceShiftStart(userId, game, event.time);
+      } else if (event.type === "end") {
+        const session = event.session!;
+        const duration = session.endTime - session.startTime;
+
+        // Announce the session, or hold it until its crewmates are done
+        await this.finishSession(game, session);
+
+        this.logger({
+          level: "info",
+          message: "Session ended",
+          context: {
+            userId,
+            gameId: game.id,
+            duration,
+            formattedDuration: formatDuration(duration),
+            idleDuration: formatDuration(session.idleDuration),
+          },
+        });
+      } else {
+        const milestone = event.milestone!;
+        if (!this.claimAnnouncement(userId, event.time)) {
+          this.logger({
+            level: "debug",
+            message: "Shift milestone announcement skipped (cooldown)",
+            context: { userId, gameId: game.id, milestoneHours: milestone },
+          });
+          continue;
+        }
+
+        await this.sendMilestoneMessage(
+          userId,
+          game,
+          event.startTime,
+          event.time,
+          milestone
+        );
+      }
+    }
+  }
+
+  /**
+   * Record a finished session and send its end message to the target channel
+   *
+   * Sessions shorter than the minimum length are recorded without a message.
+   * Estimated end times are marked with a "~" before the duration.
+   */
+  private async sendSessionEndMessage(
+    game: GameDefinition,
+    session: CrewSession
+  ): Promise<void> {
+    if (!this.guildId) return;
+
+    const { userId, startTime, endTime, idleDuration } = session;
+    try {
+      const duration = endTime - startTime;
+      const activeDuration = duration - idleDuration;
+      const { memberName, workerName, displayName, hasCustomWorkerName } =
+        this.getMemberNames(userId, this.guildId);
+      const formattedDuration = formatDuration(duration);
+
+      // Sessions held for their crew were recorded when they ended
+      const recorded = this.takeHeldSessionRecord(session);
+      const event =
+        recorded ??
+        this.createSessionEndEvent(this.guildId, game, session, {
+          memberName,
+          workerName,
+        });
+
+      if (!event.announced) {
+        if (!recorded) await this.deps.sessionHistory.record(event);
+        this.logger({
+          level: "info",
+          message: "Short session recorded without announcement",
+          context: {
+            userId,
+            gameId: game.id,
+            duration: formattedDuration,
+            minSessionLength: this.config.minSessionLength,
+          },
+        });
+        return;
+      }
+
+      // Attempt to get quote and log the result
+      this.logger({
+        level: "debug",
+        message: "Attempting to fetch quote for session end message",
+        context: { userId, memberName, gameId: game.id },
+      });
+
+      // Describe the shift so the quote can reference it
+      const previousSessions = this.deps.sessionHistory
+        .getSessions({ guildId: this.guildId, userId })
+        .filter((previous) => previous !== recorded);
+      const previousLongest = longestSession(previousSessions);
+      const quoteContext: QuoteContext = {
+        workerName,
+        duration,
+        formattedDuration,
+        startTimeOfDay: getTimeOfDay(startTime),
+        endTimeOfDay: getTimeOfDay(endTime),
+        streakDays: dayStreak(previousSessions, startTime),
+        // A first shift is not announced as a record
+        isLongestShift:
+          previousLongest !== null && duration > previousLongest.duration,
+      };
+
+      const quote = await this.deps.quoteProvider.getQuote(game, quoteContext);
+
+      this.logger({
+        level: "debug",
+        message: `Quote retrieval ${
+          quote.isFallback ? "failed - using fallback" : "successful"
+        }`,
+        context: {
+          userId,
+          quoteSource: quote.source,
+          quoteLength: quote.text.length,
+        },
+      });
+
+      if (recorded) {
+        await this.deps.sessionHistory.amend(
+          new Map([[recorded, { quote: quote.text }]])
+        );
+      } else {
+        event.quote = quote.text;
+        await this.deps.sessionHistory.record(event);
+      }
+
+      if (!this.targetChannel) return;
+
+      // Only mention the split when part of the shift was spent idle
+      const formattedActive = formatDuration(activeDuration);
+      const formattedIdle = formatDuration(idleDuration);
+      const breakdown =
+        idleDuration > 0
+          ? ` (${formattedActive} active, ${formattedIdle} idle on the factory floor)`
+          : "";
+
+      const message = renderTemplate(this.getTemplate("end", game), {
+        member: memberName,
+        worker: workerName,
+        displayName,
+        duration: formatApproximateDuration(duration, session.approximate),
+        active: formattedActive,
+        idle: formattedIdle,
+        breakdown,
+        quote: quote.text,
+        game: game.name,
+      });
+
+      const details: MessageDetails = {
+        duration,
+        activeDuration,
+        idleDuration,
+        startTime,
+        endTime,
+      };
+      if (session.approximate) details.approximate = true;
+      const heldFor = await this.announceShiftEnd("end", message, details, {
+        summary: `- ${displayName}: ${formatApproximateDuration(
+          duration,
+          session.approximate
+        )} in ${game.name}`,
+        userIds: [userId],
+        workedDuration: duration,
+      });
+
+      // Log with explicit API usage information
+      const apiUsageMessage = quote.isFallback
+        ? "used fallback quote (no quote provider available)"
+        : `used quote from ${quote.source} provider`;
+
+      this.logger({
+        level: "info",
+        message: `Session end message queued - ${apiUsageMessage}`,
+        context: {
+          userId,
+          memberName,
+          workerName,
+          gameId: game.id,
+          duration: formattedDuration,
+          approximate: session.approximate ?? false,
+          heldFor,
+          hasCustomWorkerName,
+          quoteSource: quote.source,
+          quoteTimestamp: quote.timestamp,
+          isFallbackQuote: quote.isFallback,
+        },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to send session end message",
+        context: {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Announce a finished session, or hold it while crewmates are still playing
+   *
+   * In group crew mode, sessions that overlapped with other players of the
+   * same game are announced together once the whole crew has finished.
+   * @param game Game of the session
+   * @param session Finished session
+   */
+  private async finishSession(
+    game: GameDefinition,
+    session: CrewSession
+  ): Promise<void> {
+    const sendIndividually = () => this.sendSessionEndMessage(game, session);
+
+    if (this.config.crewMode === "individual") {
+      await sendIndividually();
+      return;
+    }
+
+    // Short sessions are recorded quietly and never join a crew
+    if (
+      session.endTime - session.startTime <
+      this.config.minSessionLength * 1000
+    ) {
+      await sendIndividually();
+    } else {
+      // Only the announcement waits for the crew; the session is recorded
+      // now so a crash before the crew finishes does not lose it
+      await this.recordHeldSession(game, session);
+      const held = this.heldCrewSessions.get(game.id) ?? [];
+      held.push(session);
+      this.heldCrewSessions.set(game.id, held);
+    }
+
+    await this.releaseCrews(game);
+  }
+
+  /**
+   * Announce held sessions whose crew has finished
+   * @param game Game of the held sessions
+   */
+  private async releaseCrews(game: GameDefinition): Promise<void> {
+    const held = this.heldCrewSessions.get(game.id);
+    if (!held || held.length === 0) return;
+
+    const minOverlap = this.config.crewMinOverlap * 1000;
+
+    // Sessions still in progress keep their whole crew waiting
+    const waiting = new Set<CrewSession>();
+    for (const active of this.engine.getActiveSessions(game.id)) {
+      for (const session of collectCrew(active, held, minOverlap)) {
+        waiting.add(session);
+      }
+    }
+
+    this.heldCrewSessions.set(
+      game.id,
+      held.filter((session) => waiting.has(session))
+    );
+    if (waiting.size > 0) {
+      this.logger({
+        level: "debug",
+        message: "Sessions held until their crew finishes",
+        context: {
+          gameId: game.id,
+          userIds: Array.from(waiting, (session) => session.userId),
+        },
+      });
+    }
+
+    await this.announceCrews(
+      game,
+      held.filter((session) => !waiting.has(session))
+    );
+  }
+
+  /**
+   * Split finished sessions into crews and announce each of them
+   * @param game Game of the sessions
+   * @param sessions Finished sessions
+   */
+  private async announceCrews(
+    game: GameDefinition,
+    sessions: CrewSession[]
+  ): Promise<void> {
+    const minOverlap = this.config.crewMinOverlap * 1000;
+    let remaining = sessions;
+
+    while (remaining.length > 0) {
+      const seed = remaining[0]!;
+      const crew = [seed, ...collectCrew(seed, remaining, minOverlap)];
+      remaining = remaining.filter((session) => !crew.includes(session));
+
+      if (crew.length === 1) {
+        await this.sendSessionEndMessage(game, seed);
+      } else {
+        await this.sendCrewEndMessage(game, crew);
+      }
+    }
+  }
+
+  /**
+   * Record a crew shift and send its summary to the target channel
+   * @param game Game the crew played
+   * @param crew Finished sessions of the crew members
+   */
+  private async sendCrewEndMessage(
+    game: GameDefinition,
+    crew: CrewSession[]
+  ): Promise<void> {
+    const guildId = this.guildId;
+    if (!guildId) return;
+
+    try {
+      const members = [...crew]
+        .sort((a, b) => a.startTime - b.startTime)
+        .map((session) => ({
+          session,
+          ...this.getMemberNames(session.userId, guildId),
+        }));
+      const overlap = crewOverlap(crew);
+      const formattedOverlap = formatDuration(overlap);
+      const crewStart = Math.min(...crew.map((session) => session.startTime));
+      const crewEnd = Math.max(...crew.map((session) => session.endTime));
+
+      const quoteContext: QuoteContext = {
+        workerName: members.map((member) => member.workerName).join(", "),
+        duration: overlap,
+        formattedDuration: formattedOverlap,
+        startTimeOfDay: getTimeOfDay(crewStart),
+        endTimeOfDay: getTimeOfDay(crewEnd),
+        streakDays: 1,
+        isLongestShift: false,
+        crewSize: crew.length,
+      };
+      const quote = await this.deps.quoteProvider.getQuote(game, quoteContext);
+
+      const amended = new Map<SessionEndEvent, Partial<SessionEndEvent>>();
+      for (const { session, memberName, workerName } of members) {
+        const crewUserIds = crew
+          .map((crewmate) => crewmate.userId)
+          .filter((userId) => userId !== session.userId);
+        const recorded = this.takeHeldSessionRecord(session);
+        if (recorded) {
+          amended.set(recorded, { quote: quote.text, crewUserIds });
+          continue;
+        }
+
+        const event = this.createSessionEndEvent(guildId, game, session, {
+          memberName,
+          workerName,
+        });
+        event.quote = quote.text;
+        event.crewUserIds = crewUserIds;
+        await this.deps.sessionHistory.record(event);
+      }
+      if (amended.size > 0) await this.deps.sessionHistory.amend(amended);
+
+      if (!this.targetChannel) return;
+
+      const message = renderTemplate(this.getTemplate("crew", game), {
+        crew: members.map((member) => member.displayName).join(", "),
+        members: members
+          .map(
+            ({ session, displayName }) =>
+              `- ${displayName}: ${formatApproximateDuration(
+                session.endTime - session.startTime,
+                session.approximate
+              )}`
+          )
+          .join("\n"),
+        size: String(crew.length),
+        overlap: formattedOverlap,
+        quote: quote.text,
+        game: game.name,
+      });
+      const details: MessageDetails = {
+        duration: overlap,
+        startTime: crewStart,
+        endTime: crewEnd,
+      };
+      if (crew.some((session) => session.approximate)) {
+        details.approximate = true;
+      }
+      const heldFor = await this.announceShiftEnd("crew", message, details, {
+        summary: `- Crew of ${members
+          .map((member) => member.displayName)
+          .join(", ")}: ${formattedOverlap} together in ${game.name}`,
+        userIds: members.map((member) => member.session.userId),
+        workedDuration: crew.reduce(
+          (total, session) => total + session.endTime - session.startTime,
+          0
+        ),
+      });
+
+      this.logger({
+        level: "info",
+        message: "Crew shift message sent",
+        context: {
+          gameId: game.id,
+          userIds: members.map((member) => member.session.userId),
+          overlap: formattedOverlap,
+          quoteSource: quote.source,
+          heldFor,
+        },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to send crew shift message",
+        context: {
+          gameId: game.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Record a session held for its crew in the history
+   *
+   * The quote and crewmates are filled in once the crew is announced.
+   * @param game Game of the session
+   * @param session Finished session
+   */
+  private async recordHeldSession(
+    game: GameDefinition,
+    session: CrewSession
+  ): Promise<void> {
+    if (!this.guildId) return;
+
+    const event = this.createSessionEndEvent(
+      this.guildId,
+      game,
+      session,
+      this.getMemberNames(session.userId, this.guildId)
+    );
+    this.heldSessionRecords.set(session, event);
+    await this.deps.sessionHistory.record(event);
+  }
+
+  /**
+   * Take the history record written when a held session ended
+   * @param session Finished session
+   * @returns Recorded session end event, or undefined if it was not held
+   */
+  private takeHeldSessionRecord(
+    session: CrewSession
+  ): SessionEndEvent | undefined {
+    const recorded = this.heldSessionRecords.get(session);
+    this.heldSessionRecords.delete(session);
+    return recorded;
+  }
+
+  /**
+   * Build the history record of a finished session
+   * @param guildId ID of the monitored guild
+   * @param game Game of the session
+   * @param session Start, end and idle time of the session
+   * @param names Member name and worker title of the player
+   * @returns Session end event without a quote
+   */
+  private createSessionEndEvent(
+    guildId: string,
+    game: GameDefinition,
+    session: CrewSession,
+    names: { memberName: string; workerName: string }
+  ): SessionEndEvent {
+    const duration = session.endTime - session.startTime;
+    const event: SessionEndEvent = {
+      guildId,
+      userId: session.userId,
+      memberName: names.memberName,
+      gameId: game.id,
+      gameName: game.name,
+      workerName: names.workerName,
+      duration,
+      idleDuration: session.idleDuration,
+      formattedDuration: formatDuration(duration),
+      quote: "",
+      startTime: session.startTime,
+      endTime: session.endTime,
+      announced: duration >= this.config.minSessionLength * 1000,
+    };
+    if (session.approximate) event.approximate = true;
+    return event;
+  }
+
+  /**
+   * Get the template of a message kind
+   *
+   * Templates configured for the guild take priority over the game's own
+   * end message template, which takes priority over the built-in ones.
+   * @param kind Kind of message
+   * @param game Game the message is about (none for digests)
+   * @returns Message template
+   */
+  private getTemplate(kind: MessageKind, game?: GameDefinition): string {
+    const configured = this.config.messageTemplates[kind];
+    if (configured) return configured;
+    if (kind === "end" && game?.messageTemplate) return game.messageTemplate;
+    return DEFAULT_TEMPLATES[kind];
+  }
+
+  /**
+   * Queue a rendered message for the target channel as text or embed
+   * @param kind Kind of message
+   * @param text Rendered message text
+   * @param details Session times shown as embed fields
+   */
+  private async postMessage(
+    kind: MessageKind,
+    text: string,
+    details: MessageDetails
+  ): Promise<void> {
+    if (!this.targetChannel) return;
+
+    await this.deps.messageQueue.enqueue(
+      this.targetChannel.id,
+      kind,
+      this.buildChannelMessage(kind, text, details)
+    );
+  }
+
+  /**
+   * Build the payload of a message in the guild's message format
+   * @param kind Kind of message
+   * @param text Rendered message text
+   * @param details Session times shown as embed fields
+   * @returns Message payload
+   */
+  private buildChannelMessage(
+    kind: MessageKind,
+    text: string,
+    details: MessageDetails
+  ): OutboundMessage {
+    return buildMessage(
+      sanitizeDiscordMessage(text),
+      kind,
+      this.config.messageFormat,
+      this.config.embedColor,
+      details
+    );
+  }
+
+  /**
+   * Post a shift end announcement, or hold it for a digest
+   *
+   * Announcements are held during quiet hours, and otherwise for the batch
+   * window when batching is enabled. Held announcements that are due are
+   * posted first, so announcements keep their order.
+   * @param kind Kind of message (end or crew)
+   * @param text Rendered message text
+   * @param details Session times shown as embed fields
+   * @param digest How the shift is listed in a digest
+   * @returns Why the announcement was held, or null when it was posted
+   */
+  private async announceShiftEnd(
+    kind: MessageKind,
+    text: string,
+    details: MessageDetails,
+    digest: Pick<HeldAnnouncement, "summary" | "userIds" | "workedDuration">
+  ): Promise<HoldReason | null> {
+    const guildId = this.guildId;
+    if (!guildId || !this.targetChannel) return null;
+
+    await this.releaseHeldAnnouncements();
+
+    const now = this.now();
+    let reason: HoldReason | null = null;
+    if (this.config.quietHours && isQuietTime(this.config.quietHours, now)) {
+      reason = "quiet";
+    } else if (this.config.announcementBatchWindow > 0) {
+      reason = "batch";
+    }
+
+    if (!reason) {
+      await this.postMessage(kind, text, details);
+      return null;
+    }
+
+    const held = await this.deps.heldAnnouncements.hold({
+      guildId,
+      kind,
+      reason,
+      heldAt: now,
+      ...digest,
+      message: this.buildChannelMessage(kind, text, details),
+    });
+
+    this.logger({
+      level: "debug",
+      message: "Shift end announcement held for digest",
+      context: { kind, reason, held },
+    });
+    return reason;
+  }
+
+  /**
+   * Post the held announcements once they are due
+   *
+   * Announcements held during quiet hours are due when quiet hours are
+   * over, and a batch is due once the batch window of its first
+   * announcement has passed. Nothing is posted during quiet hours.
+   */
+  private async releaseHeldAnnouncements(): Promise<void> {
+    const guildId = this.guildId;
+    if (!guildId || !this.targetChannel) return;
+
+    const held = this.deps.heldAnnouncements.get(guildId);
+    if (held.length === 0) return;
+
+    const now = this.now();
+    if (this.config.quietHours && isQuietTime(this.config.quietHours, now)) {
+      return;
+    }
+    const heldOvernight = held.some(
+      (announcement) => announcement.reason === "quiet"
+    );
+    if (
+      !heldOvernight &&
+      now - held[0]!.heldAt < this.config.announcementBatchWindow * 1000
+    ) {
+      return;
+    }
+
+    const released = await this.deps.heldAnnouncements.release(guildId);
+    if (released.length === 0) return;
+
+    // A batch nothing else arrived in keeps its own announcement
+    if (released.length === 1 && !heldOvernight) {
+      const [announcement] = released as [HeldAnnouncement];
+      await this.deps.messageQueue.enqueue(
+        this.targetChannel.id,
+        announcement.kind,
+        announcement.message
+      );
+    } else {
+      await this.postDigest(released, heldOvernight);
+    }
+
+    this.logger({
+      level: "info",
+      message: "Held shift announcements posted",
+      context: {
+        reason: heldOvernight ? "quiet" : "batch",
+        announcements: released.length,
+        heldSince: new Date(released[0]!.heldAt).toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Post held announcements as one digest message
+   * @param announcements Held announcements, oldest first
+   * @param heldOvernight Whether they were held during quiet hours
+   */
+  private async postDigest(
+    announcements: HeldAnnouncement[],
+    heldOvernight: boolean
+  ): Promise<void> {
+    const userIds = new Set(
+      announcements.flatMap((announcement) => announcement.userIds)
+    );
+    const total = announcements.reduce(
+      (sum, announcement) => sum + announcement.workedDuration,
+      0
+    );
+
+    const shifts = announcements
+      .slice(0, DIGEST_MAX_SHIFTS)
+      .map((announcement) => announcement.summary);
+    if (announcements.length > DIGEST_MAX_SHIFTS) {
+      shifts.push(
+        `- ...and ${announcements.length - DIGEST_MAX_SHIFTS} more shifts`
+      );
+    }
+
+    const worker = this.config.workerMapping.defaultName.toLowerCase();
+    const message = renderTemplate(this.getTemplate("digest"), {
+      intro: heldOvernight ? "While you slept" : "Just now",
+      count: String(userIds.size),
+      workers: userIds.size === 1 ? worker : `${worker}s`,
+      total: formatHours(total),
+      shifts: shifts.join("\n"),
+    });
+
+    await this.postMessage("digest", message, { duration: total });
+  }
+
+  /**
+   * Resolve the names a member is shown with in messages
+   * @param userId Discord user ID
+   * @param guildId ID of the monitored guild
+   * @returns Member name, worker title and combined display name
+   */
+  private getMemberNames(
+    userId: string,
+    guildId: string
+  ): {
+    memberName: string;
+    workerName: string;
+    displayName: string;
+    hasCustomWorkerName: boolean;
+  } {
+    const discordUser = this.monitoredUsers.get(userId);
+    const memberName = discordUser?.user.username || "Unknown User";
+    const customNames = this.deps.workerNames.getAll(guildId);
+    const workerName = getWorkerName(
+      userId,
+      this.config.workerMapping,
+      undefined,
+      customNames
+    );
+
+    // Check if worker mapping is available (not using default name)
+    const hasCustomWorkerName =
+      customNames[userId] !== undefined ||
+      this.config.workerMapping.mapping[userId] !== undefined;
+
+    // Display name format: {member name} "{worker name}" with a mapping,
+    // {member name} without one
+    const displayName = hasCustomWorkerName
+      ? `${memberName} "${workerName}"`
+      : memberName;
+
+    return { memberName, workerName, displayName, hasCustomWorkerName };
+  }
+
+  /**
+   * Reserve an announcement for a user unless one was sent recently
+   * @param userId Discord user ID
+   * @param now Current time
+   * @returns Whether the announcement may be sent
+   */
+  private claimAnnouncement(userId: string, now: number): boolean {
+    const lastAnnouncement = this.lastAnnouncements.get(userId);
+    if (
+      lastAnnouncement !== undefined &&
+      now - lastAnnouncement < this.config.announcementCooldown * 1000
+    ) {
+      return false;
+    }
+
+    this.lastAnnouncements.set(userId, now);
+    return true;
+  }
+
+  /**
+   * Announce the start of a shift in the target channel
+   * @param userId Discord user ID
+   * @param game Game of the session
+   * @param now Session start time
+   */
+  private async announceShiftStart(
+    userId: string,
+    game: GameDefinition,
+    now: number
+  ): Promise<void> {
+    if (!this.config.announceShiftStart || !this.guildId) return;
+    if (!this.targetChannel) return;
+
+    if (!this.claimAnnouncement(userId, now)) {
+      this.logger({
+        level: "debug",
+        message: "Shift start announcement skipped (cooldown)",
+        context: { userId, gameId: game.id },
+      });
+      return;
+    }
+
+    try {
+      const { memberName, workerName, displayName } = this.getMemberNames(
+        userId,
+        this.guildId
+      );
+      const message = renderTemplate(this.getTemplate("start", game), {
+        member: memberName,
+        worker: workerName,
+        displayName,
+        game: game.name,
+      });
+      await this.postMessage("start", message, { startTime: now });
+
+      this.logger({
+        level: "info",
+        message: "Shift start announced",
+        context: { userId, gameId: game.id },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to send shift start message",
+        context: {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Send an overtime message for a shift that passed a milestone
+   * @param userId Discord user ID
+   * @param game Game of the session
+   * @param startTime Session start time
+   * @param now Current time
+   * @param milestone Passed milestone in hours
+   */
+  private async sendMilestoneMessage(
+    userId: string,
+    game: GameDefinition,
+    startTime: number,
+    now: number,
+    milestone: number
+  ): Promise<void> {
+    if (!this.guildId || !this.targetChannel) return;
+
+    try {
+      const elapsed = now - startTime;
+      const formattedDuration = formatDuration(elapsed);
+      const { memberName, workerName, displayName } = this.getMemberNames(
+        userId,
+        this.guildId
+      );
+
+      const quoteContext: QuoteContext = {
+        workerName,
+        duration: elapsed,
+        formattedDuration,
+        startTimeOfDay: getTimeOfDay(startTime),
+        endTimeOfDay: getTimeOfDay(now),
+        streakDays: dayStreak(
+          this.deps.sessionHistory.getSessions({
+            guildId: this.guildId,
+            userId,
+          }),
+          startTime
+        ),
+        isLongestShift: false,
+        ongoing: true,
+      };
+      const quote = await this.deps.quoteProvider.getQuote(game, quoteContext);
+
+      const message = renderTemplate(this.getTemplate("milestone", game), {
+        member: memberName,
+        worker: workerName,
+        displayName,
+        milestone: `${milestone}h`,
+        duration: formattedDuration,
+        quote: quote.text,
+        game: game.name,
+      });
+      await this.postMessage("milestone", message, {
+        duration: elapsed,
+        startTime,
+      });
+
+      this.logger({
+        level: "info",
+        message: "Shift milestone announced",
+        context: {
+          userId,
+          gameId: game.id,
+          milestoneHours: milestone,
+          quoteSource: quote.source,
+        },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to send shift milestone message",
+        context: {
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Persist this guild's in-flight sessions
+   */
+  private async saveSessions(): Promise<void> {
+    if (!this.guildId) return;
+    await this.deps.sessionStore.save(this.guildId, this.engine.getStates());
+  }
+
+  /**
+   * Handle active sessions during shutdown
+   *
+   * Active sessions are persisted instead of ended, so a restart resumes
+   * them rather than announcing shifts that are still in progress.
+   */
+  private async handleShutdownSessions(): Promise<void> {
+    const activeSessions = this.getActiveSessionCount();
+
+    // Don't lose finished sessions still waiting for their crewmates
+    for (const [gameId, held] of this.heldCrewSessions) {
+      const game = this.deps.gameRegistry.get(gameId);
+      if (game) await this.announceCrews(game, held);
+    }
+    this.heldCrewSessions.clear();
+
+    await this.saveSessions();
+
+    if (activeSessions === 0) return;
+
+    this.logger({
+      level: "info",
+      message: "Persisted active sessions for resume after restart",
+      context: { count: activeSessions },
+    });
+  }
+}
+
+/**
+ * Create a monitor for a single guild
+ * @param config Guild configuration
+ * @param deps Shared services
+ * @returns Configured guild monitor
+ */
+export function createGuildMonitor(
+  config: GuildConfig,
+  deps: GuildMonitorDeps
+): GuildMonitor {
+  return new GuildMonitor(config, deps);
+}
@@ -0,0 +1,151 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { HealthReport, Logger } from "./types";
+
+/**
+ * Sources of the data served by the health server
+ */
+export interface HealthServerHandlers {
+  /** Build the current health report */
+  getHealth: () => HealthReport;
+  /** Render the metrics in the Prometheus text format */
+  getMetrics: () => string;
+}
+
+/**
+ * Local HTTP server exposing `/healthz` and `/metrics`
+ *
+ * `/healthz` answers 200 while the bot works (also when quotes fall back)
+ * and 503 when it is unhealthy, so it can back liveness checks and alerts;
+ * `/metrics` is meant to be scraped by Prometheus.
+ */
+export class HealthServer {
+  private port: number;
+  private host: string;
+  private handlers: HealthServerHandlers;
+  private logger: Logger;
+  private server: Server | null = null;
+
+  constructor(
+    port: number,
+    host: string,
+    handlers: HealthServerHandlers,
+    logger: Logger
+  ) {
+    this.port = port;
+    this.host = host;
+    this.handlers = handlers;
+    this.logger = logger;
+  }
+
+  /**
+   * Start listening
+   * @returns Promise resolving once the server is listening
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((request, response) =>
+        this.handleRequest(request, response)
+      );
+      server.once("error", reject);
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject);
+        server.on("error", (error) =>
+          this.logger({
+            level: "error",
+            message: "Health server error",
+            context: { error: error.message },
+          })
+        );
+        this.server = server;
+
+        this.logger({
+          level: "info",
+          message: "Health server listening",
+          context: { host: this.host, port: this.port },
+        });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop listening
+   * @returns Promise resolving once the server is closed
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return Promise.resolve();
+
+    this.server = null;
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Answer a request to one of the endpoints
+   * @param request Incoming request
+   * @param response Response to write
+   */
+  private handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): void {
+    const path = (request.url ?? "/").split("?")[0];
+
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    try {
+      if (path === "/healthz") {
+        const report = this.handlers.getHealth();
+        response
+          .writeHead(report.status === "unhealthy" ? 503 : 200, {
+            "Content-Type": "application/json",
+          })
+          .end(JSON.stringify(report));
+        return;
+      }
+
+      if (path === "/metrics") {
+        response
+          .writeHead(200, {
+            "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+          })
+          .end(this.handlers.getMetrics());
+        return;
+      }
+
+      response
+        .writeHead(404, { "Content-Type": "text/plain" })
+        .end("Not found");
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Health server request failed",
+        context: {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      response.writeHead(500, { "Content-Type": "text/plain" }).end();
+    }
+  }
+}
+
+/**
+ * Create the health and metrics HTTP server
+ * @param port Port to listen on
+ * @param host Address to listen on
+ * @param handlers Sources of the health report and metrics
+ * @param logger Logger instance
+ * @returns Configured health server (not yet listening)
+ */
+export function createHealthServer(
+  port: number,
+  host: string,
+  handlers: HealthServerHandlers,
+  logger: Logger
+): HealthServer {
+  return new HealthServer(port, host, handlers, logger);
+}
@@ -0,0 +1,183 @@
+import { promises as fs } from "fs";
+import { HeldAnnouncement, HeldAnnouncementsFile, Logger } from "./types";
+
+const HELD_ANNOUNCEMENTS_FILE_VERSION = 1;
+
+/**
+ * Persistent store of shift end announcements held for a digest
+ *
+ * Announcements held during quiet hours can wait all night, so they are
+ * kept on disk to survive restarts until their digest is posted.
+ */
+export class HeldAnnouncementStore {
+  private filePath: string;
+  private logger: Logger;
+  /** Held announcements keyed by guild ID, oldest first */
+  private held: Map<string, HeldAnnouncement[]> = new Map();
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Load held announcements from disk
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger({
+          level: "warn",
+          message: "Failed to read held announcements file",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      return;
+    }
+
+    try {
+      const data = JSON.parse(raw) as HeldAnnouncementsFile;
+      if (data.version !== HELD_ANNOUNCEMENTS_FILE_VERSION) {
+        throw new Error(
+          `Unsupported held announcements version: ${data.version}`
+        );
+      }
+
+      const loaded = data.announcements.filter(
+        (announcement) =>
+          typeof announcement.guildId === "string" &&
+          typeof announcement.heldAt === "number" &&
+          typeof announcement.summary === "string" &&
+          Array.isArray(announcement.userIds) &&
+          typeof announcement.message === "object"
+      );
+      for (const announcement of loaded) {
+        const guildHeld = this.held.get(announcement.guildId) ?? [];
+        guildHeld.push(announcement);
+        this.held.set(announcement.guildId, guildHeld);
+      }
+
+      if (loaded.length > 0) {
+        this.logger({
+          level: "info",
+          message: "Loaded held announcements",
+          context: { file: this.filePath, count: loaded.length },
+        });
+      }
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Ignoring corrupt held announcements file",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Get the announcements held for a guild
+   * @param guildId Discord guild ID
+   * @returns Held announcements, oldest first
+   */
+  get(guildId: string): HeldAnnouncement[] {
+    return this.held.get(guildId) ?? [];
+  }
+
+  /**
+   * Hold an announcement until its guild's digest is posted
+   * @param announcement Announcement to hold
+   * @returns Number of announcements now held for the guild
+   */
+  async hold(announcement: HeldAnnouncement): Promise<number> {
+    const guildHeld = [...this.get(announcement.guildId), announcement];
+    this.held.set(announcement.guildId, guildHeld);
+    await this.save();
+    return guildHeld.length;
+  }
+
+  /**
+   * Remove and return every announcement held for a guild
+   * @param guildId Discord guild ID
+   * @returns Announcements that were held, oldest first
+   */
+  async release(guildId: string): Promise<HeldAnnouncement[]> {
+    const guildHeld = this.get(guildId);
+    if (guildHeld.length === 0) return [];
+
+    this.held.delete(guildId);
+    await this.save();
+    return guildHeld;
+  }
+
+  /**
+   * Drop the held announcements of a guild a user took part in
+   * @param guildId Discord guild ID
+   * @param userId Discord user ID
+   * @returns Number of dropped announcements
+   */
+  async discardUser(guildId: string, userId: string): Promise<number> {
+    const guildHeld = this.get(guildId);
+    const kept = guildHeld.filter(
+      (announcement) => !announcement.userIds.includes(userId)
+    );
+    const dropped = guildHeld.length - kept.length;
+    if (dropped === 0) return 0;
+
+    this.held.set(guildId, kept);
+    await this.save();
+    return dropped;
+  }
+
+  /**
+   * Write held announcements to disk atomically
+   */
+  private save(): Promise<void> {
+    const data: HeldAnnouncementsFile = {
+      version: HELD_ANNOUNCEMENTS_FILE_VERSION,
+      savedAt: Date.now(),
+      announcements: Array.from(this.held.values()).flat(),
+    };
+    const contents = JSON.stringify(data, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.writeFile(tempPath, contents, "utf8");
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to persist held announcements",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+
+    return this.writeChain;
+  }
+}
+
+/**
+ * Create a held announcement store backed by a JSON file
+ * @param filePath Path of the held announcements file
+ * @param logger Logger instance
+ * @returns Configured held announcement store
+ */
+export function createHeldAnnouncementStore(
+  filePath: string,
+  logger: Logger
+): HeldAnnouncementStore {
+  return new HeldAnnouncementStore(filePath, logger);
+}
@@ -0,0 +1,467 @@
+import { promises as fs } from "fs";
+import {
+  DailySessionStats,
+  HistoryQuery,
+  Logger,
+  SessionAmendment,
+  SessionEndEvent,
+  UserSessionTotals,
+} from "./types";
+
+/**
+ * Filter session records by time range and user
+ * @param records Session records
+ * @param query Query filter (sessions are matched by their start time)
+ * @returns Matching records
+ */
+export function filterSessions(
+  records: SessionEndEvent[],
+  query: HistoryQuery = {}
+): SessionEndEvent[] {
+  return records.filter(
+    (record) =>
+      (query.from === undefined || record.startTime >= query.from) &&
+      (query.to === undefined || record.startTime < query.to) &&
+      (query.guildId === undefined || record.guildId === query.guildId) &&
+      (query.userId === undefined || record.userId === query.userId) &&
+      (query.gameId === undefined || record.gameId === query.gameId)
+  );
+}
+
+/**
+ * Sum session time per user, ordered by total duration (highest first)
+ * @param records Session records
+ * @returns Totals per user
+ */
+export function totalDurationByUser(
+  records: SessionEndEvent[]
+): UserSessionTotals[] {
+  const totals = new Map<string, UserSessionTotals>();
+
+  for (const record of records) {
+    const existing = totals.get(record.userId);
+    if (existing) {
+      existing.totalDuration += record.duration;
+      existing.activeDuration += record.duration - record.idleDuration;
+      existing.idleDuration += record.idleDuration;
+      existing.sessionCount++;
+      // Keep the most recent names
+      existing.memberName = record.memberName;
+      existing.workerName = record.workerName;
+    } else {
+      totals.set(record.userId, {
+        userId: record.userId,
+        memberName: record.memberName,
+        workerName: record.workerName,
+        totalDuration: record.duration,
+        activeDuration: record.duration - record.idleDuration,
+        idleDuration: record.idleDuration,
+        sessionCount: 1,
+      });
+    }
+  }
+
+  return Array.from(totals.values()).sort(
+    (a, b) => b.totalDuration - a.totalDuration
+  );
+}
+
+/**
+ * Group sessions by the UTC day they started on
+ * @param records Session records
+ * @returns Daily statistics ordered by date
+ */
+export function sessionsPerDay(
+  records: SessionEndEvent[]
+): DailySessionStats[] {
+  const days = new Map<string, DailySessionStats>();
+
+  for (const record of records) {
+    const date = new Date(record.startTime).toISOString().slice(0, 10);
+    const existing = days.get(date);
+    if (existing) {
+      existing.sessionCount++;
+      existing.totalDuration += record.duration;
+      existing.activeDuration += record.duration - record.idleDuration;
+      existing.idleDuration += record.idleDuration;
+    } else {
+      days.set(date, {
+        date,
+        sessionCount: 1,
+        totalDuration: record.duration,
+        activeDuration: record.duration - record.idleDuration,
+        idleDuration: record.idleDuration,
+      });
+    }
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Find the longest session
+ * @param records Session records
+ * @returns Longest session or null if there are none
+ */
+export function longestSession(
+  records: SessionEndEvent[]
+): SessionEndEvent | null {
+  let longest: SessionEndEvent | null = null;
+  for (const record of records) {
+    if (!longest || record.duration > longest.duration) {
+      longest = record;
+    }
+  }
+  return longest;
+}
+
+/**
+ * Count the consecutive UTC days with at least one session, ending on the
+ * day of a given time
+ * @param records Session records
+ * @param at Time whose day counts as worked (e.g. the start of a new shift)
+ * @returns Streak length in days (at least 1)
+ */
+export function dayStreak(records: SessionEndEvent[], at: number): number {
+  const dayKey = (time: number): string =>
+    new Date(time).toISOString().slice(0, 10);
+
+  const days = new Set(records.map((record) => dayKey(record.startTime)));
+  days.add(dayKey(at));
+
+  let streak = 0;
+  // UTC days are always 24 hours long
+  for (let time = at; days.has(dayKey(time)); time -= 24 * 60 * 60 * 1000) {
+    streak++;
+  }
+  return streak;
+}
+
+/**
+ * Calculate the average session length
+ * @param records Session records
+ * @returns Average duration in milliseconds (0 if there are no sessions)
+ */
+export function averageSessionLength(records: SessionEndEvent[]): number {
+  if (records.length === 0) return 0;
+
+  const total = records.reduce((sum, record) => sum + record.duration, 0);
+  return Math.round(total / records.length);
+}
+
+/**
+ * Check whether a history record is the one an amendment refers to
+ * @param record Session record
+ * @param amends Guild, user, game and start time of the amended record
+ * @returns Whether the record matches
+ */
+function isAmendedRecord(
+  record: SessionEndEvent,
+  amends: SessionAmendment["amends"]
+): boolean {
+  return (
+    record.guildId === amends.guildId &&
+    record.userId === amends.userId &&
+    record.gameId === amends.gameId &&
+    record.startTime === amends.startTime
+  );
+}
+
+/**
+ * Persistent history of finished sessions with statistics queries
+ *
+ * Records are appended to a JSON-lines file and kept in memory for queries.
+ * Details known only later are appended as amendment lines, which are
+ * applied to their record when the file is loaded.
+ */
+export class SessionHistory {
+  private filePath: string;
+  private logger: Logger;
+  private records: SessionEndEvent[] = [];
+  /** Whether the file exists but could not be read */
+  private loadFailed = false;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Load session history from disk
+   *
+   * When the file exists but cannot be read, new sessions are still
+   * appended, but nothing rewrites the file until a load succeeds.
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+      this.loadFailed = false;
+    } catch (error) {
+      const notFound = (error as NodeJS.ErrnoException).code === "ENOENT";
+      this.loadFailed = !notFound;
+      if (!notFound) {
+        this.logger({
+          level: "warn",
+          message: "Failed to read session history file",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      return;
+    }
+
+    const records: SessionEndEvent[] = [];
+    let skipped = 0;
+
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line) as SessionEndEvent | SessionAmendment;
+        if ("amends" in parsed) {
+          const { amends, fields } = parsed;
+          const amended = records
+            .filter((record) => isAmendedRecord(record, amends))
+            .pop();
+          // Amendments of deleted sessions have nothing left to change
+          if (amended) Object.assign(amended, fields);
+          continue;
+        }
+
+        const record = parsed;
+        // Records written before multi-game support are Satisfactory sessions
+        records.push({
+          ...record,
+          gameId: record.gameId ?? "satisfactory",
+          gameName: record.gameName ?? "Satisfactory",
+          // Records written before idle tracking were all announced
+          idleDuration: record.idleDuration ?? 0,
+          announced: record.announced ?? true,
+        });
+      } catch {
+        skipped++;
+      }
+    }
+
+    this.records = records;
+
+    this.logger({
+      level: "info",
+      message: "Session history loaded",
+      context: { file: this.filePath, sessions: records.length, skipped },
+    });
+  }
+
+  /**
+   * Record a finished session
+   * @param event Session end event
+   */
+  record(event: SessionEndEvent): Promise<void> {
+    this.records.push(event);
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.appendFile(
+          this.filePath,
+          `${JSON.stringify(event)}\n`,
+          "utf8"
+        );
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to write session history",
+          context: {
+            file: this.filePath,
+            userId: event.userId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Delete every session of a user and remove them from their crewmates'
+   * records
+   *
+   * The history file is rewritten from the loaded records, so lines that
+   * could not be parsed are dropped as well.
+   * @param userId Discord user ID
+   * @returns Number of deleted sessions
+   * @throws Error if the history file could not be loaded, since rewriting
+   *   it from the records in memory would lose the unread sessions
+   */
+  async forgetUser(userId: string): Promise<number> {
+    if (this.loadFailed) {
+      throw new Error(
+        `Session history file ${this.filePath} could not be read, so it was left unchanged`
+      );
+    }
+
+    const remaining = this.records.filter((record) => record.userId !== userId);
+    const removed = this.records.length - remaining.length;
+    const isCrewmate = remaining.some((record) =>
+      record.crewUserIds?.includes(userId)
+    );
+    if (removed === 0 && !isCrewmate) return 0;
+
+    this.records = remaining.map((record) => {
+      if (!record.crewUserIds?.includes(userId)) return record;
+      return {
+        ...record,
+        crewUserIds: record.crewUserIds.filter((id) => id !== userId),
+      };
+    });
+    await this.rewrite();
+
+    return removed;
+  }
+
+  /**
+   * Fill in details of recorded sessions that were only known after they
+   * were recorded, such as the quote and crewmates of a crew shift
+   *
+   * The changes are appended as amendment lines instead of rewriting the
+   * file. Sessions deleted in the meantime are left deleted.
+   * @param changes Fields to change, keyed by the event passed to record()
+   * @returns Number of updated sessions
+   */
+  async amend(
+    changes: Map<SessionEndEvent, Partial<SessionEndEvent>>
+  ): Promise<number> {
+    const amendments: SessionAmendment[] = [];
+    for (const [record, fields] of changes) {
+      if (!this.records.includes(record)) continue;
+      Object.assign(record, fields);
+      const { guildId, userId, gameId, startTime } = record;
+      amendments.push({
+        amends: { guildId, userId, gameId, startTime },
+        fields,
+      });
+    }
+    if (amendments.length === 0) return 0;
+
+    const lines = amendments
+      .map((amendment) => `${JSON.stringify(amendment)}\n`)
+      .join("");
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.appendFile(this.filePath, lines, "utf8");
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to write session history",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+    await this.writeChain;
+
+    return amendments.length;
+  }
+
+  /**
+   * Replace the history file with the loaded records
+   */
+  private rewrite(): Promise<void> {
+    const contents = this.records
+      .map((record) => `${JSON.stringify(record)}\n`)
+      .join("");
+    const tempPath = `${this.filePath}.tmp`;
+
+    // Queue behind pending appends so none of them is lost or reordered
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.writeFile(tempPath, contents, "utf8");
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to rewrite session history",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Get recorded sessions
+   * @param query Optional filter
+   * @returns Matching sessions in recording order
+   */
+  getSessions(query: HistoryQuery = {}): SessionEndEvent[] {
+    return filterSessions(this.records, query);
+  }
+
+  /**
+   * Get total session time per user
+   * @param query Optional filter
+   * @returns Totals per user, highest first
+   */
+  getTotalDurationByUser(query: HistoryQuery = {}): UserSessionTotals[] {
+    return totalDurationByUser(this.getSessions(query));
+  }
+
+  /**
+   * Get session counts and time per day
+   * @param query Optional filter
+   * @returns Daily statistics ordered by date
+   */
+  getSessionsPerDay(query: HistoryQuery = {}): DailySessionStats[] {
+    return sessionsPerDay(this.getSessions(query));
+  }
+
+  /**
+   * Get the longest recorded session
+   * @param query Optional filter
+   * @returns Longest session or null
+   */
+  getLongestSession(query: HistoryQuery = {}): SessionEndEvent | null {
+    return longestSession(this.getSessions(query));
+  }
+
+  /**
+   * Get the average session length
+   * @param query Optional filter
+   * @returns Average duration in milliseconds
+   */
+  getAverageSessionLength(query: HistoryQuery = {}): number {
+    return averageSessionLength(this.getSessions(query));
+  }
+
+  /**
+   * Get the number of consecutive days with sessions up to a given time
+   * @param at Time whose day counts as worked
+   * @param query Optional filter
+   * @returns Streak length in days
+   */
+  getDayStreak(at: number, query: HistoryQuery = {}): number {
+    return dayStreak(this.getSessions(query), at);
+  }
+}
+
+/**
+ * Create a session history backed by a JSON-lines file
+ * @param filePath Path of the history file
+ * @param logger Logger instance
+ * @returns Configured session history
+ */
+export function createSessionHistory(
+  filePath: string,
+  logger: Logger
+): SessionHistory {
+  return new SessionHistory(filePath, logger);
+}
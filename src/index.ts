@@ -1,76 +1,275 @@
 import {
   Client,
+  DMChannel,
   GatewayIntentBits,
-  TextChannel,
   GuildMember,
-  ActivityType,
+  Interaction,
+  NonThreadGuildBasedChannel,
+  PartialGuildMember,
+  Presence,
+  Role,
+  Status,
 } from "discord.js";
 import { config } from "dotenv";
 import {
-  SessionState,
-  DiscordUser,
   BotConfig,
-  GameActivity,
+  ChannelHealth,
+  HealthReport,
+  Logger,
   PerformanceMetrics,
+  QueuedMessage,
+  QuoteProvider,
+  SlashCommand,
 } from "./types";
+import { formatDuration, getMemoryUsage } from "./utils";
+import { createLogManager, LogManager } from "./logging";
 import {
-  parseBotConfig,
-  formatDuration,
-  getWorkerName,
-  sanitizeDiscordMessage,
-  createLogger,
-  getMemoryUsage,
-} from "./utils";
-import { createGeminiClient, GeminiClient } from "./gemini";
+  changedSettings,
+  ConfigFileWatcher,
+  createConfigFileWatcher,
+  findConfigFile,
+  loadBotConfig,
+  RELOADABLE_SETTINGS,
+} from "./configFile";
+import { createGeminiClient } from "./gemini";
+import { createLocalQuoteProvider } from "./localQuotes";
+import { createOpenAIQuoteProvider } from "./openaiQuotes";
+import { createQuoteProviderChain, QuoteProviderChain } from "./quoteProvider";
+import { createSessionStore, SessionStore } from "./sessionStore";
+import { createSessionHistory, SessionHistory } from "./history";
+import { createWorkerNameStore, WorkerNameStore } from "./workerNames";
+import {
+  createPrivacyCommand,
+  createStatsCommand,
+  createWorkerNameCommand,
+  replyEphemeral,
+} from "./commands";
+import { createPrivacyStore, PrivacyStore } from "./privacy";
+import {
+  createHeldAnnouncementStore,
+  HeldAnnouncementStore,
+} from "./heldAnnouncements";
+import { createGameRegistry, GameRegistry } from "./games";
+import { BotMetrics, createBotMetrics } from "./metrics";
+import { createHealthServer, HealthServer } from "./healthServer";
+import { createMessageQueue, MessageQueue } from "./messageQueue";
+import { createPresenceRecorder, PresenceRecorder } from "./presenceRecorder";
+import {
+  createGuildMonitor,
+  GuildMonitor,
+  GuildMonitorDeps,
+} from "./guildMonitor";
 
 // Load environment variables
 config();
 
+/**
+ * Replacements for the services the bot otherwise creates itself, so it
+ * can run against a fake Discord client without network access
+ */
+export interface WorkBotOptions {
+  /** Configuration used instead of the config file and environment */
+  config?: BotConfig;
+  /** Discord client used instead of a gateway connection */
+  client?: Client;
+  /** Quote providers used instead of the configured ones */
+  quoteProviders?: QuoteProvider[];
+  /** Clock used for session times (defaults to Date.now) */
+  now?: () => number;
+}
+
 /**
  * WorkBot 3000 - Discord bot for monitoring Satisfactory game sessions
  */
-class WorkBot3000 {
+export class WorkBot3000 {
   private client: Client;
   private config: BotConfig;
-  private geminiClient: GeminiClient;
-  private sessionStates: Map<string, SessionState> = new Map();
-  private monitoredUsers: Map<string, DiscordUser> = new Map();
-  private targetChannel: TextChannel | null = null;
-  private pollingInterval: NodeJS.Timeout | null = null;
-  private memberCheckInterval: NodeJS.Timeout | null = null;
+  /** Config file the configuration was loaded from (if any) */
+  private configFile: string | undefined;
+  private configWatcher: ConfigFileWatcher | null = null;
+  private quoteProvider: QuoteProviderChain;
+  private sessionStore: SessionStore;
+  private sessionHistory: SessionHistory;
+  private workerNames: WorkerNameStore;
+  private privacy: PrivacyStore;
+  private heldAnnouncements: HeldAnnouncementStore;
+  private messageQueue: MessageQueue;
+  private presenceRecorder: PresenceRecorder | null = null;
+  private commands: Map<string, SlashCommand> = new Map();
+  private gameRegistry: GameRegistry;
+  /** Guild monitors keyed by guild ID */
+  private guildMonitors: Map<string, GuildMonitor> = new Map();
+  private metricsInterval: NodeJS.Timeout | null = null;
+  private metrics: BotMetrics;
+  private healthServer: HealthServer | null = null;
+  /** CPU time and wall time of the previous performance metrics */
+  private lastCpuUsage: NodeJS.CpuUsage = process.cpuUsage();
+  private lastCpuCheck = Date.now();
   private isShuttingDown = false;
-  private logger: (entry: {
-    level: "error" | "warn" | "info" | "debug";
-    message: string;
-    context?: Record<string, unknown>;
-  }) => void;
-
-  constructor() {
-    // Parse configuration
-    this.config = parseBotConfig();
-    this.logger = createLogger(this.config.logLevel);
+  /** Time the gateway connection was lost (null while connected) */
+  private disconnectedAt: number | null = null;
+  private logging: LogManager;
+  private logger: Logger;
+  private now: () => number;
+
+  constructor(options: WorkBotOptions = {}) {
+    this.now = options.now ?? Date.now;
+
+    // Parse configuration from the config file and environment
+    if (options.config) {
+      this.config = options.config;
+    } else {
+      this.configFile = findConfigFile();
+      this.config = loadBotConfig(this.configFile);
+    }
+    this.logging = createLogManager(
+      this.config.logLevel,
+      this.config.logModuleLevels,
+      this.config.logging,
+      [
+        this.config.discordToken,
+        this.config.geminiApiKey,
+        this.config.openai?.apiKey,
+      ].filter((secret): secret is string => secret !== undefined)
+    );
+    this.logger = this.logging.child("bot");
 
     // Initialize Discord client
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMembers,
-        GatewayIntentBits.GuildPresences,
-        GatewayIntentBits.GuildMessages,
-      ],
-    });
+    this.client =
+      options.client ??
+      new Client({
+        intents: [
+          GatewayIntentBits.Guilds,
+          GatewayIntentBits.GuildMembers,
+          GatewayIntentBits.GuildPresences,
+          GatewayIntentBits.GuildMessages,
+        ],
+        // Let the message queue wait out rate limits of channel messages, so
+        // waiting messages are persisted instead of held in memory
+        rest: {
+          rejectOnRateLimit: ({ method, route }) =>
+            method === "POST" && route.endsWith("/messages"),
+        },
+      });
+
+    // Initialize quote providers in their configured order
+    this.quoteProvider = createQuoteProviderChain(
+      options.quoteProviders ?? this.createQuoteProviders(),
+      this.logging.child("quotes")
+    );
+
+    // Record quote API latency and quote sources for the metrics
+    this.metrics = createBotMetrics();
+    this.quoteProvider.onRequest((provider, durationMs, success) =>
+      this.metrics.quoteRequestDuration.observe(durationMs / 1000, {
+        provider,
+        outcome: success ? "success" : "error",
+      })
+    );
+    this.quoteProvider.onQuote((quote) =>
+      this.metrics.quotesServed.inc({ source: quote.source })
+    );
+    this.metrics.onCollect(() => this.collectMetrics());
+
+    // Initialize game detection
+    this.gameRegistry = createGameRegistry(this.config.games);
+
+    // Initialize session persistence
+    this.sessionStore = createSessionStore(
+      this.config.sessionStateFile,
+      this.logging.child("sessions")
+    );
 
-    // Initialize Gemini client
-    this.geminiClient = createGeminiClient(
-      this.config.geminiApiKey,
-      this.config.geminiModel,
-      this.config.maxCachedQuotes
+    // Initialize session history
+    this.sessionHistory = createSessionHistory(
+      this.config.sessionHistoryFile,
+      this.logging.child("history")
+    );
+
+    // Record presence observations for offline replay when configured
+    if (this.config.presenceRecord) {
+      this.presenceRecorder = createPresenceRecorder(
+        this.config.presenceRecord,
+        this.logging.child("guild")
+      );
+    }
+
+    // Initialize self-assigned worker titles, opt-outs and slash commands
+    this.workerNames = createWorkerNameStore(
+      this.config.workerNamesFile,
+      this.logging.child("workerNames")
+    );
+    this.privacy = createPrivacyStore(
+      this.config.privacyFile,
+      this.logging.child("privacy")
+    );
+    this.setupCommands();
+
+    // Initialize announcements held for quiet hours and batching
+    this.heldAnnouncements = createHeldAnnouncementStore(
+      this.config.heldAnnouncementsFile,
+      this.logging.child("announcements")
+    );
+
+    // Initialize outbound message delivery (paused until the bot is ready)
+    this.messageQueue = createMessageQueue(
+      this.config.messageQueueFile,
+      (queued) => this.deliverMessage(queued),
+      this.config.messageMaxAge,
+      this.logging.child("messages")
     );
 
     // Set up event listeners
     this.setupEventListeners();
   }
 
+  /**
+   * Create the configured quote providers
+   * @returns Quote providers in the order they should be asked
+   */
+  private createQuoteProviders(): QuoteProvider[] {
+    const providers = this.config.quoteProviders.map((name): QuoteProvider => {
+      if (name === "gemini") {
+        return createGeminiClient(
+          this.config.geminiApiKey!,
+          this.config.geminiModel,
+          this.config.maxCachedQuotes,
+          this.logging.child("gemini"),
+          this.config.geminiCircuitBreaker,
+          this.config.quoteCache
+        );
+      }
+      if (name === "local") {
+        return createLocalQuoteProvider(
+          this.config.quotesFile!,
+          this.logging.child("local")
+        );
+      }
+      return createOpenAIQuoteProvider(
+        this.config.openai!,
+        this.config.maxCachedQuotes,
+        this.logging.child("openai"),
+        this.config.quoteCache
+      );
+    });
+
+    if (providers.length === 0) {
+      this.logger({
+        level: "warn",
+        message:
+          "No quote providers configured, only built-in fallback quotes will be used",
+      });
+    } else {
+      this.logger({
+        level: "info",
+        message: "Quote providers configured",
+        context: { providers: this.config.quoteProviders },
+      });
+    }
+
+    return providers;
+  }
+
   /**
    * Start the bot
    */
@@ -79,8 +278,37 @@ class WorkBot3000 {
       this.logger({
         level: "info",
         message: "Starting WorkBot 3000...",
+        context: { configFile: this.configFile ?? null },
       });
 
+      // Load opt-outs before any presence is tracked; a corrupt file stops
+      // the bot rather than tracking users who opted out
+      await this.privacy.load();
+
+      // Apply config file changes without a restart
+      if (this.configFile) {
+        this.configWatcher = createConfigFileWatcher(
+          this.configFile,
+          () => this.reloadConfig(),
+          this.logging.child("config")
+        );
+        this.configWatcher.start();
+      }
+
+      // Serve health checks and metrics when a port is configured
+      if (this.config.healthPort > 0) {
+        this.healthServer = createHealthServer(
+          this.config.healthPort,
+          this.config.healthHost,
+          {
+            getHealth: () => this.getHealthReport(),
+            getMetrics: () => this.metrics.render(),
+          },
+          this.logging.child("health")
+        );
+        await this.healthServer.start();
+      }
+
       await this.client.login(this.config.discordToken);
     } catch (error) {
       const errorMessage =
@@ -123,18 +351,30 @@ class WorkBot3000 {
       message: "Shutting down WorkBot 3000...",
     });
 
-    // Clear polling interval
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
+    // Clear metrics interval
+    if (this.metricsInterval) {
+      clearInterval(this.metricsInterval);
     }
 
-    // Clear member check interval
-    if (this.memberCheckInterval) {
-      clearInterval(this.memberCheckInterval);
+    // Stop watching the config file
+    this.configWatcher?.stop();
+
+    // Stop serving health checks and metrics
+    await this.healthServer?.stop();
+
+    // Stop background quote cache refills
+    this.quoteProvider.stop();
+
+    // Stop guild monitors and persist active sessions for resume
+    for (const monitor of this.guildMonitors.values()) {
+      await monitor.stop();
     }
 
-    // Send final messages for active sessions
-    await this.handleShutdownSessions();
+    // Keep undelivered messages (including final shift messages) for the next run
+    await this.messageQueue.stop();
+
+    // Finish writing recorded presences
+    await this.presenceRecorder?.close();
 
     // Destroy Discord client
     this.client.destroy();
@@ -143,6 +383,90 @@ class WorkBot3000 {
       level: "info",
       message: "WorkBot 3000 shutdown complete",
     });
+    this.logging.close();
+  }
+
+  /**
+   * Get the monitor of a guild
+   * @param guildId Guild ID
+   * @returns Guild monitor, if the guild is monitored
+   */
+  getGuildMonitor(guildId: string): GuildMonitor | undefined {
+    return this.guildMonitors.get(guildId);
+  }
+
+  /**
+   * Reload the config file and apply the settings that can change live
+   *
+   * An invalid file is reported and the current configuration is kept.
+   * Settings that need a restart (e.g. tokens, quote providers, games or
+   * the set of monitored channels) are logged but not applied.
+   */
+  private async reloadConfig(): Promise<void> {
+    if (this.isShuttingDown) return;
+
+    let next: BotConfig;
+    try {
+      next = loadBotConfig(this.configFile);
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Invalid config file, keeping the current configuration",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      return;
+    }
+
+    const changed = changedSettings(this.config, next);
+    if (changed.length === 0) return;
+
+    // Monitors are bound to their channel, so the channel list can't change
+    const channelIds = (config: BotConfig) =>
+      config.guilds
+        .map((guild) => guild.channelId)
+        .sort()
+        .join(",");
+    const guildsMovable = channelIds(this.config) === channelIds(next);
+
+    const applied = changed.filter(
+      (key) =>
+        RELOADABLE_SETTINGS.includes(key) && (key !== "guilds" || guildsMovable)
+    );
+    const restartRequired = changed.filter((key) => !applied.includes(key));
+
+    this.config = {
+      ...this.config,
+      ...Object.fromEntries(applied.map((key) => [key, next[key]])),
+    };
+
+    if (applied.includes("logLevel") || applied.includes("logModuleLevels")) {
+      this.logging.setLevels(this.config.logLevel, this.config.logModuleLevels);
+    }
+
+    if (applied.includes("guilds")) {
+      for (const monitor of this.guildMonitors.values()) {
+        const guildConfig = this.config.guilds.find(
+          (guild) => guild.channelId === monitor.getChannelId()
+        );
+        if (guildConfig) monitor.updateConfig(guildConfig);
+      }
+    }
+
+    this.logger({
+      level: "info",
+      message: "Configuration reloaded",
+      context: { applied },
+    });
+
+    if (restartRequired.length > 0) {
+      this.logger({
+        level: "warn",
+        message: "Some configuration changes only apply after a restart",
+        context: { settings: restartRequired },
+      });
+    }
   }
 
   /**
@@ -152,48 +476,142 @@ class WorkBot3000 {
     this.client.on("ready", () => this.onReady());
     this.client.on("error", (error) => this.onError(error));
     this.client.on("warn", (warning) => this.onWarning(warning));
-    this.client.on("disconnect", () => this.onDisconnect());
+    this.client.on("shardDisconnect", (event, shardId) =>
+      this.onDisconnect(shardId, event.code)
+    );
+    this.client.on("shardReconnecting", (shardId) =>
+      this.onDisconnect(shardId)
+    );
+    this.client.on("shardResume", (shardId) => this.onReconnect(shardId));
+    this.client.on("shardReady", (shardId) => this.onReconnect(shardId));
     this.client.on("presenceUpdate", (oldPresence, newPresence) =>
       this.onPresenceUpdate(oldPresence, newPresence)
     );
+    this.client.on("guildMemberAdd", (member) => this.onMemberUpdate(member));
+    this.client.on("guildMemberUpdate", (_oldMember, newMember) =>
+      this.onMemberUpdate(newMember)
+    );
+    this.client.on("guildMemberRemove", (member) =>
+      this.onMemberRemove(member)
+    );
+    this.client.on("channelUpdate", (_oldChannel, newChannel) =>
+      this.onChannelUpdate(newChannel)
+    );
+    this.client.on("roleUpdate", (oldRole, newRole) =>
+      this.onRoleUpdate(oldRole, newRole)
+    );
+    this.client.on("roleDelete", (role) => this.onRoleDelete(role));
+    this.client.on("interactionCreate", (interaction) =>
+      this.onInteractionCreate(interaction)
+    );
+  }
+
+  /**
+   * Build the slash commands handled by the interaction router
+   */
+  private setupCommands(): void {
+    const commands: SlashCommand[] = [
+      createWorkerNameCommand({
+        workerNames: this.workerNames,
+        getWorkerConfig: (guildId) =>
+          this.guildMonitors.get(guildId)?.getWorkerConfig() ??
+          this.config.workerMapping,
+        logger: this.logging.child("commands"),
+      }),
+      createPrivacyCommand({
+        privacy: this.privacy,
+        sessionHistory: this.sessionHistory,
+        workerNames: this.workerNames,
+        presenceRecorder: this.presenceRecorder,
+        forgetSessions: (userId) => this.forgetSessions(userId),
+        logger: this.logging.child("commands"),
+      }),
+      createStatsCommand({
+        sessionHistory: this.sessionHistory,
+        privacy: this.privacy,
+        now: this.now,
+        logger: this.logging.child("commands"),
+      }),
+    ];
+
+    for (const command of commands) {
+      this.commands.set(command.name, command);
+    }
   }
 
   /**
    * Handle bot ready event
    */
   private async onReady(): Promise<void> {
-    if (!this.client.user) {
-      throw new Error("Client user is null");
-    }
+    try {
+      if (!this.client.user) {
+        throw new Error("Client user is null");
+      }
 
-    this.logger({
-      level: "info",
-      message: `WorkBot 3000 online as ${this.client.user.tag}`,
-      context: { userId: this.client.user.id },
-    });
+      this.logger({
+        level: "info",
+        message: `WorkBot 3000 online as ${this.client.user.tag}`,
+        context: { userId: this.client.user.id },
+      });
 
-    try {
-      // Find target channel
-      await this.findTargetChannel();
+      // Find target channels and the guilds they belong to
+      await this.initializeGuildMonitors();
+
+      if (this.guildMonitors.size === 0) {
+        throw new Error("No configured guild could be initialized");
+      }
+
+      // Load sessions persisted by a previous run
+      const guildIds = Array.from(this.guildMonitors.keys());
+      const persistedSessions = await this.sessionStore.load(
+        guildIds.length === 1 ? guildIds[0] : undefined
+      );
+      this.sessionStore.retainGuilds(guildIds);
 
-      // Fetch monitored users
-      await this.fetchMonitoredUsers();
+      // Load finished session history
+      await this.sessionHistory.load();
 
-      // Preload quotes
-      await this.geminiClient.preloadQuotes(5);
+      // Load self-assigned worker titles
+      await this.workerNames.load();
 
-      // Start monitoring
-      this.startMonitoring();
+      // Load announcements held for a digest by a previous run
+      await this.heldAnnouncements.load();
 
-      // Start member checking
-      this.startMemberChecking();
+      // Deliver messages left undelivered by a previous run
+      await this.messageQueue.load();
+      this.messageQueue.resume();
+
+      // Start monitoring every guild, resuming its persisted sessions
+      for (const [guildId, monitor] of this.guildMonitors) {
+        await monitor.start(
+          persistedSessions.filter((session) => session.guildId === guildId)
+        );
+      }
+
+      // Preload quotes for every monitored game
+      for (const game of this.gameRegistry.getAll()) {
+        await this.quoteProvider.preloadQuotes(5, game);
+      }
+
+      // Register slash commands in every guild
+      const commands = Array.from(this.commands.values());
+      for (const monitor of this.guildMonitors.values()) {
+        await monitor.registerCommands(commands);
+      }
+
+      // Log performance metrics every minute
+      this.metricsInterval = setInterval(
+        () => this.logPerformanceMetrics(),
+        60000
+      );
 
       this.logger({
         level: "info",
         message: "Bot initialization complete",
         context: {
-          monitoredUsers: this.monitoredUsers.size,
-          targetChannel: this.targetChannel?.name,
+          guilds: guildIds,
+          monitoredUsers: this.getMonitoredUserCount(),
+          games: this.gameRegistry.getAll().map((game) => game.id),
         },
       });
     } catch (error) {
@@ -207,6 +625,84 @@ class WorkBot3000 {
     }
   }
 
+  /**
+   * Create a monitor for every configured guild
+   *
+   * Guilds whose target channel cannot be resolved are skipped so the
+   * remaining guilds keep working.
+   */
+  private async initializeGuildMonitors(): Promise<void> {
+    const deps: GuildMonitorDeps = {
+      client: this.client,
+      gameRegistry: this.gameRegistry,
+      quoteProvider: this.quoteProvider,
+      sessionStore: this.sessionStore,
+      sessionHistory: this.sessionHistory,
+      workerNames: this.workerNames,
+      privacy: this.privacy,
+      heldAnnouncements: this.heldAnnouncements,
+      messageQueue: this.messageQueue,
+      metrics: this.metrics,
+      presenceRecorder: this.presenceRecorder,
+      logger: this.logging.child("guild"),
+      now: this.now,
+    };
+
+    for (const guildConfig of this.config.guilds) {
+      try {
+        const monitor = createGuildMonitor(guildConfig, deps);
+        const guildId = await monitor.initialize();
+
+        if (this.guildMonitors.has(guildId)) {
+          throw new Error(
+            `Guild ${guildId} already has a target channel configured`
+          );
+        }
+
+        this.guildMonitors.set(guildId, monitor);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to initialize guild",
+          context: {
+            channelId: guildConfig.channelId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Send a queued message to its channel
+   * @param queued Message to deliver
+   */
+  private async deliverMessage(queued: QueuedMessage): Promise<void> {
+    const channel = await this.client.channels.fetch(queued.channelId);
+    if (!channel?.isSendable()) {
+      throw new Error(`Channel ${queued.channelId} cannot receive messages`);
+    }
+
+    const sendStart = Date.now();
+    await channel.send(queued.message);
+    this.metrics.discordRequestDuration.observe(
+      (Date.now() - sendStart) / 1000,
+      { operation: "send_message" }
+    );
+    this.metrics.messagesSent.inc({ kind: queued.kind });
+  }
+
+  /**
+   * Continue delivering messages once the gateway connection is back
+   *
+   * Ignored until the bot finished initializing; the queue is started
+   * after the guild monitors are ready.
+   */
+  private resumeMessageQueue(): void {
+    if (this.isShuttingDown || this.guildMonitors.size === 0) return;
+    this.messageQueue.resume();
+  }
+
   /**
    * Handle Discord client errors
    */
@@ -230,480 +726,315 @@ class WorkBot3000 {
   }
 
   /**
-   * Handle Discord client disconnect
+   * Note when the gateway connection was lost and hold outgoing messages
+   * @param shardId ID of the disconnected shard
+   * @param code Close code of the connection, when known
    */
-  private onDisconnect(): void {
+  private onDisconnect(shardId: number, code?: number): void {
+    this.messageQueue.pause();
+    if (this.disconnectedAt !== null) return;
+
+    this.disconnectedAt = this.now();
     this.logger({
       level: "warn",
       message: "Disconnected from Discord",
+      context: { shardId, code: code ?? null },
     });
   }
 
   /**
-   * Handle presence update events
+   * Resume sending and reconcile sessions with the presences missed while
+   * the gateway was disconnected
+   * @param shardId ID of the resumed or ready shard
    */
-  private async onPresenceUpdate(
-    _oldPresence: unknown,
-    newPresence: unknown
-  ): Promise<void> {
-    if (
-      !newPresence ||
-      typeof newPresence !== "object" ||
-      !("user" in newPresence)
-    )
-      return;
-
-    const userId = (newPresence as any).user?.id;
-    if (!userId) return;
+  private async onReconnect(shardId: number): Promise<void> {
+    this.resumeMessageQueue();
 
-    // Only process monitored users
-    if (!this.monitoredUsers.has(userId)) return;
-
-    const isPlayingSatisfactory =
-      this.isPlayingSatisfactoryFromPresence(newPresence);
+    const disconnectedAt = this.disconnectedAt;
+    if (disconnectedAt === null) return;
+    this.disconnectedAt = null;
 
     this.logger({
-      level: "debug",
-      message: "Presence update",
+      level: "info",
+      message: "Reconnected to Discord",
       context: {
-        userId,
-        isPlayingSatisfactory,
-        activities:
-          (newPresence as any).activities?.map((a: GameActivity) => a.name) ||
-          [],
+        shardId,
+        outage: formatDuration(this.now() - disconnectedAt),
       },
     });
+    if (this.isShuttingDown) return;
 
-    await this.updateSessionState(userId, isPlayingSatisfactory);
+    // A failed guild must not keep the others from catching up
+    for (const [guildId, monitor] of this.guildMonitors) {
+      try {
+        await monitor.reconcileAfterOutage(disconnectedAt);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to reconcile sessions after gateway outage",
+          context: {
+            guildId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
   }
 
   /**
-   * Find the target channel for sending messages
+   * Route presence update events to the monitor of their guild
    */
-  private async findTargetChannel(): Promise<void> {
-    const channel = await this.client.channels.fetch(this.config.channelId);
-
-    if (!channel) {
-      throw new Error(`Channel with ID ${this.config.channelId} not found`);
-    }
+  private async onPresenceUpdate(
+    _oldPresence: Presence | null,
+    newPresence: Presence
+  ): Promise<void> {
+    if (this.isShuttingDown) return;
 
-    if (!channel.isTextBased()) {
-      throw new Error(`Channel ${this.config.channelId} is not a text channel`);
-    }
+    const guildId = newPresence.guild?.id;
+    if (!guildId) return;
 
-    this.targetChannel = channel as TextChannel;
+    // Users who opted out are never tracked
+    if (this.privacy.isOptedOut(newPresence.userId)) return;
 
-    this.logger({
-      level: "info",
-      message: "Target channel found",
-      context: {
-        channelName: this.targetChannel.name,
-        channelId: this.config.channelId,
-      },
-    });
+    await this.guildMonitors.get(guildId)?.handlePresenceUpdate(newPresence);
   }
 
   /**
-   * Fetch users who have access to the target channel
+   * Route members who joined or changed to the monitor of their guild
    */
-  private async fetchMonitoredUsers(): Promise<void> {
-    // Use the same logic as updateMonitoredUsers for initial load
-    await this.updateMonitoredUsers();
+  private async onMemberUpdate(member: GuildMember): Promise<void> {
+    if (this.isShuttingDown) return;
+
+    await this.guildMonitors.get(member.guild.id)?.handleMemberUpdate(member);
   }
 
   /**
-   * Start the member checking interval
+   * Route members who left to the monitor of their guild
    */
-  private startMemberChecking(): void {
-    this.memberCheckInterval = setInterval(async () => {
-      if (this.isShuttingDown) return;
-
-      await this.updateMonitoredUsers();
-    }, this.config.memberCheckInterval * 1000);
+  private async onMemberRemove(
+    member: GuildMember | PartialGuildMember
+  ): Promise<void> {
+    if (this.isShuttingDown) return;
 
-    this.logger({
-      level: "info",
-      message: "Member checking started",
-      context: { intervalSeconds: this.config.memberCheckInterval },
-    });
+    await this.guildMonitors
+      .get(member.guild.id)
+      ?.handleMemberRemove(member.id);
   }
 
   /**
-   * Update monitored users list (periodic refresh)
+   * Route channel updates, which may change permission overwrites, to the
+   * monitor of their guild
    */
-  private async updateMonitoredUsers(): Promise<void> {
-    if (!this.targetChannel) return;
+  private async onChannelUpdate(
+    channel: DMChannel | NonThreadGuildBasedChannel
+  ): Promise<void> {
+    if (this.isShuttingDown || channel.isDMBased()) return;
 
-    try {
-      const guild = this.targetChannel.guild;
+    await this.guildMonitors
+      .get(channel.guild.id)
+      ?.handleChannelUpdate(channel.id);
+  }
 
-      this.logger({
-        level: "debug",
-        message: "Fetching guild members",
-        context: { guildId: guild.id, guildName: guild.name },
-      });
+  /**
+   * Re-apply the monitoring rules of a guild when a role's permissions change
+   */
+  private async onRoleUpdate(oldRole: Role, newRole: Role): Promise<void> {
+    if (this.isShuttingDown) return;
+    if (oldRole.permissions.bitfield === newRole.permissions.bitfield) return;
 
-      // Fetch all members with timeout
-      try {
-        await guild.members.fetch({ time: 30000 }); // 30 second timeout
-      } catch (fetchError) {
-        this.logger({
-          level: "error",
-          message: "Failed to fetch guild members - check bot permissions",
-          context: {
-            error:
-              fetchError instanceof Error
-                ? fetchError.message
-                : String(fetchError),
-            guildId: guild.id,
-            hasGuildMembersIntent:
-              "Ensure 'Server Members Intent' is enabled in Discord Developer Portal",
-          },
-        });
-        return;
-      }
+    await this.guildMonitors
+      .get(newRole.guild.id)
+      ?.handlePermissionChange("role permissions changed");
+  }
 
-      const currentUserIds = new Set(this.monitoredUsers.keys());
-      const newUserIds = new Set<string>();
-
-      // Check each member's permissions
-      for (const [userId, member] of guild.members.cache) {
-        if (member.user.bot) continue; // Skip bots
-
-        const hasAccess = this.userHasChannelAccess(member, this.targetChannel);
-
-        if (hasAccess) {
-          newUserIds.add(userId);
-
-          // Add new user or update existing
-          if (!this.monitoredUsers.has(userId)) {
-            this.monitoredUsers.set(userId, {
-              user: member.user,
-              member,
-              hasChannelAccess: true,
-              lastPresence: member.presence?.status || null,
-            });
-
-            // Initialize session state for new user
-            this.sessionStates.set(userId, {
-              startTime: null,
-              isPlaying: false,
-              lastPresenceCheck: Date.now(),
-            });
-
-            this.logger({
-              level: "info",
-              message: "New user added to monitoring",
-              context: { userId, username: member.user.username },
-            });
-          } else {
-            // Update existing user info
-            const existingUser = this.monitoredUsers.get(userId)!;
-            existingUser.member = member;
-            existingUser.hasChannelAccess = true;
-            existingUser.lastPresence = member.presence?.status || null;
-          }
-        }
-      }
+  /**
+   * Re-apply the monitoring rules of a guild when a role is deleted
+   */
+  private async onRoleDelete(role: Role): Promise<void> {
+    if (this.isShuttingDown) return;
 
-      // Remove users who no longer have access
-      for (const userId of currentUserIds) {
-        if (!newUserIds.has(userId)) {
-          // End any active session before removing
-          const sessionState = this.sessionStates.get(userId);
-          if (sessionState?.isPlaying && sessionState.startTime) {
-            const duration = Date.now() - sessionState.startTime;
-            await this.sendSessionEndMessage(userId, duration);
-          }
-
-          this.monitoredUsers.delete(userId);
-          this.sessionStates.delete(userId);
-
-          this.logger({
-            level: "info",
-            message: "User removed from monitoring",
-            context: { userId },
-          });
-        }
-      }
+    await this.guildMonitors
+      .get(role.guild.id)
+      ?.handlePermissionChange("role deleted");
+  }
 
-      const addedUsers = newUserIds.size - currentUserIds.size;
-      const removedUsers = currentUserIds.size - newUserIds.size;
+  /**
+   * Route slash command interactions to their handlers
+   */
+  private async onInteractionCreate(interaction: Interaction): Promise<void> {
+    if (!interaction.isChatInputCommand()) return;
 
-      if (addedUsers > 0 || removedUsers > 0) {
-        this.logger({
-          level: "info",
-          message: "Monitored users updated",
-          context: {
-            totalUsers: this.monitoredUsers.size,
-            addedUsers,
-            removedUsers,
-          },
-        });
-      }
-    } catch (error) {
+    const command = this.commands.get(interaction.commandName);
+    if (!command) {
       this.logger({
-        level: "error",
-        message: "Failed to update monitored users",
-        context: {
-          error: error instanceof Error ? error.message : String(error),
-        },
+        level: "warn",
+        message: "Received unknown slash command",
+        context: { commandName: interaction.commandName },
       });
+      return;
     }
-  }
 
-  /**
-   * Check if a user has access to the target channel
-   */
-  private userHasChannelAccess(
-    member: GuildMember,
-    channel: TextChannel
-  ): boolean {
+    this.logger({
+      level: "debug",
+      message: "Slash command received",
+      context: {
+        commandName: interaction.commandName,
+        userId: interaction.user.id,
+        guildId: interaction.guildId,
+      },
+    });
+
     try {
-      const permissions = channel.permissionsFor(member);
-      return permissions ? permissions.has("ViewChannel") : false;
+      await command.execute(interaction);
     } catch (error) {
       this.logger({
-        level: "warn",
-        message: "Failed to check user permissions",
+        level: "error",
+        message: "Slash command failed",
         context: {
-          userId: member.id,
+          commandName: interaction.commandName,
+          userId: interaction.user.id,
           error: error instanceof Error ? error.message : String(error),
         },
       });
-      return false;
+
+      try {
+        await replyEphemeral(
+          interaction,
+          "Command malfunction detected. FICSIT has been notified."
+        );
+      } catch {
+        // Interaction may have expired; nothing more to do
+      }
     }
   }
 
   /**
-   * Check if user is playing Satisfactory from presence data
+   * Drop a user's sessions in progress in every guild
+   * @param userId Discord user ID
    */
-  private isPlayingSatisfactoryFromPresence(presence: unknown): boolean {
-    if (
-      !presence ||
-      typeof presence !== "object" ||
-      !("activities" in presence)
-    ) {
-      return false;
-    }
-
-    const activities = (presence as any).activities;
-    if (!Array.isArray(activities)) {
-      return false;
+  private async forgetSessions(userId: string): Promise<void> {
+    for (const monitor of this.guildMonitors.values()) {
+      await monitor.forgetUser(userId);
     }
-
-    return activities.some(
-      (activity: GameActivity) =>
-        activity.type === ActivityType.Playing &&
-        activity.name === "Satisfactory"
-    );
   }
 
   /**
-   * Start the monitoring loop (presence-only)
+   * Count monitored users across all guilds
    */
-  private startMonitoring(): void {
-    this.pollingInterval = setInterval(async () => {
-      if (this.isShuttingDown) return;
-
-      await this.performMonitoringCycle();
-    }, this.config.pollingInterval * 1000);
-
-    this.logger({
-      level: "info",
-      message: "Presence monitoring started",
-      context: { intervalSeconds: this.config.pollingInterval },
-    });
+  private getMonitoredUserCount(): number {
+    let count = 0;
+    for (const monitor of this.guildMonitors.values()) {
+      count += monitor.getMonitoredUserCount();
+    }
+    return count;
   }
 
   /**
-   * Perform one monitoring cycle (presence-only)
+   * Count sessions currently in progress across all guilds
    */
-  private async performMonitoringCycle(): Promise<void> {
-    try {
-      // Check presence for all monitored users
-      for (const [userId, discordUser] of this.monitoredUsers) {
-        if (discordUser.member?.presence) {
-          const isPlaying = this.isPlayingSatisfactoryFromPresence(
-            discordUser.member.presence
-          );
-          await this.updateSessionState(userId, isPlaying);
-        }
-      }
-
-      // Log performance metrics periodically
-      if (Date.now() % 60000 < this.config.pollingInterval * 1000) {
-        // Every minute
-        this.logPerformanceMetrics();
-      }
-    } catch (error) {
-      this.logger({
-        level: "error",
-        message: "Error in monitoring cycle",
-        context: {
-          error: error instanceof Error ? error.message : String(error),
-        },
-      });
+  private getActiveSessionCount(): number {
+    let count = 0;
+    for (const monitor of this.guildMonitors.values()) {
+      count += monitor.getActiveSessionCount();
     }
+    return count;
   }
 
   /**
-   * Update session state for a user (presence-only)
+   * Build the report served by the health endpoint
+   *
+   * The bot is unhealthy while the gateway is not ready or no target
+   * channel is monitored; missing channels and open circuit breakers
+   * (quotes falling back) only degrade it.
+   * @returns Health report
    */
-  private async updateSessionState(
-    userId: string,
-    isPlaying: boolean
-  ): Promise<void> {
-    const currentState = this.sessionStates.get(userId);
-    if (!currentState) return;
-
-    const now = Date.now();
-
-    // Update check timestamp
-    currentState.lastPresenceCheck = now;
-
-    // Handle session start
-    if (isPlaying && !currentState.isPlaying) {
-      currentState.isPlaying = true;
-      currentState.startTime = now;
-
-      this.logger({
-        level: "info",
-        message: "Session started",
-        context: { userId, source: "presence" },
-      });
+  private getHealthReport(): HealthReport {
+    const channels = this.config.guilds.map((guild): ChannelHealth => {
+      const monitor = Array.from(this.guildMonitors.values()).find(
+        (candidate) => candidate.getChannelId() === guild.channelId
+      );
+      return {
+        channelId: guild.channelId,
+        guildId: monitor?.getGuildId() ?? null,
+        resolved: monitor !== undefined,
+      };
+    });
+    const circuitBreakers = this.quoteProvider.getCircuitBreakerStates();
+    const ready = this.client.isReady();
+
+    let status: HealthReport["status"] = "ok";
+    if (!ready || !channels.some((channel) => channel.resolved)) {
+      status = "unhealthy";
+    } else if (
+      channels.some((channel) => !channel.resolved) ||
+      Object.values(circuitBreakers).some((breaker) => breaker.isOpen)
+    ) {
+      status = "degraded";
     }
 
-    // Handle session end
-    if (!isPlaying && currentState.isPlaying && currentState.startTime) {
-      const duration = now - currentState.startTime;
-
-      // Reset state first
-      currentState.isPlaying = false;
-      currentState.startTime = null;
-
-      // Send session end message
-      await this.sendSessionEndMessage(userId, duration);
-
-      this.logger({
-        level: "info",
-        message: "Session ended",
-        context: {
-          userId,
-          duration,
-          formattedDuration: formatDuration(duration),
-        },
-      });
-    }
+    return {
+      status,
+      gateway: {
+        ready,
+        status: Status[this.client.ws.status] ?? "Unknown",
+        ping: this.client.ws.ping,
+        disconnectedSince: this.disconnectedAt,
+      },
+      channels,
+      circuitBreakers,
+      uptime: Math.round(process.uptime()),
+    };
   }
 
   /**
-   * Send session end message to the target channel
+   * Refresh the gauges of the exported metrics
    */
-  private async sendSessionEndMessage(
-    userId: string,
-    duration: number
-  ): Promise<void> {
-    if (!this.targetChannel) return;
-
-    try {
-      const discordUser = this.monitoredUsers.get(userId);
-      const memberName = discordUser?.user.username || "Unknown User";
-      const workerName = getWorkerName(userId, this.config.workerMapping);
-      const formattedDuration = formatDuration(duration);
-
-      // Attempt to get quote and log the result
-      this.logger({
-        level: "debug",
-        message: "Attempting to fetch quote for session end message",
-        context: { userId, memberName },
-      });
-
-      const quote = await this.geminiClient.getQuote();
-
-      this.logger({
-        level: "debug",
-        message: `Quote retrieval ${
-          quote.isFallback ? "failed - using fallback" : "successful"
-        }`,
-        context: {
-          userId,
-          quoteSource: quote.isFallback ? "fallback/cache" : "gemini-api",
-          quoteLength: quote.text.length,
-        },
-      });
-
-      // Check if worker mapping is available (not using default name)
-      const hasCustomWorkerName =
-        this.config.workerMapping.mapping[userId] !== undefined;
+  private collectMetrics(): void {
+    this.metrics.queuedMessages.set(this.messageQueue.size());
+    this.metrics.monitoredUsers.set(this.getMonitoredUserCount());
+    this.metrics.activeSessions.set(this.getActiveSessionCount());
+    this.metrics.gatewayReady.set(this.client.isReady() ? 1 : 0);
+    this.metrics.gatewayPing.reset();
+    if (this.client.ws.ping >= 0) {
+      this.metrics.gatewayPing.set(this.client.ws.ping / 1000);
+    }
 
-      let message: string;
-      if (hasCustomWorkerName) {
-        // Format: >>> {member name} "{worker name}" has ended their {duration} shift
-        // {italic quote}
-        message = `>>> ${memberName} "${workerName}" has ended their ${formattedDuration} shift!\n*${quote.text}*`;
-      } else {
-        // Format: >>> {member name} has ended their {duration} shift
-        // {italic quote}
-        message = `>>> ${memberName} has ended their ${formattedDuration} shift!\n*${quote.text}*`;
+    this.metrics.quoteCacheSize.reset();
+    this.metrics.quoteCacheCapacity.reset();
+    for (const game of this.gameRegistry.getAll()) {
+      const statuses = this.quoteProvider.getCacheStatuses(game);
+      for (const [provider, status] of Object.entries(statuses)) {
+        this.metrics.quoteCacheSize.set(status.cached, {
+          provider,
+          game: game.id,
+        });
+        this.metrics.quoteCacheCapacity.set(status.maxCache, { provider });
       }
+    }
 
-      const sanitizedMessage = sanitizeDiscordMessage(message);
-      await this.targetChannel.send(sanitizedMessage);
-
-      // Log with explicit API usage information
-      const apiUsageMessage = quote.isFallback
-        ? "used fallback/cached quote (Gemini API unavailable)"
-        : "successfully used Gemini API for fresh quote";
-
-      this.logger({
-        level: "info",
-        message: `Session end message sent - ${apiUsageMessage}`,
-        context: {
-          userId,
-          memberName,
-          workerName,
-          duration: formattedDuration,
-          hasCustomWorkerName,
-          quoteSource: quote.isFallback ? "fallback/cache" : "gemini-api",
-          quoteTimestamp: quote.timestamp,
-          isFallbackQuote: quote.isFallback,
-        },
-      });
-    } catch (error) {
-      this.logger({
-        level: "error",
-        message: "Failed to send session end message",
-        context: {
-          userId,
-          error: error instanceof Error ? error.message : String(error),
-        },
+    this.metrics.circuitBreakerOpen.reset();
+    const breakers = this.quoteProvider.getCircuitBreakerStates();
+    for (const [provider, breaker] of Object.entries(breakers)) {
+      this.metrics.circuitBreakerOpen.set(breaker.isOpen ? 1 : 0, {
+        provider,
       });
     }
   }
 
   /**
-   * Handle active sessions during shutdown
+   * Measure the CPU usage since the previous call
+   * @returns CPU time used as a percentage of the elapsed time
    */
-  private async handleShutdownSessions(): Promise<void> {
-    const activeSessions = Array.from(this.sessionStates.entries()).filter(
-      ([, state]) => state.isPlaying && state.startTime
-    );
-
-    if (activeSessions.length === 0) return;
-
-    this.logger({
-      level: "info",
-      message: "Handling active sessions during shutdown",
-      context: { count: activeSessions.length },
-    });
-
-    for (const [userId, state] of activeSessions) {
-      if (state.startTime) {
-        const duration = Date.now() - state.startTime;
-        await this.sendSessionEndMessage(userId, duration);
-      }
-    }
+  private measureCpuUsage(): number {
+    const now = Date.now();
+    const usage = process.cpuUsage(this.lastCpuUsage);
+    const elapsedMs = now - this.lastCpuCheck;
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastCpuCheck = now;
+
+    if (elapsedMs <= 0) return 0;
+    const cpuMs = (usage.user + usage.system) / 1000;
+    return Math.round((cpuMs / elapsedMs) * 1000) / 10;
   }
 
   /**
@@ -712,16 +1043,17 @@ class WorkBot3000 {
   private logPerformanceMetrics(): void {
     const metrics: PerformanceMetrics = {
       memoryUsage: getMemoryUsage(),
-      cpuUsage: 0, // Would need additional library for CPU monitoring
-      monitoredUsers: this.monitoredUsers.size,
-      activeSessions: Array.from(this.sessionStates.values()).filter(
-        (s) => s.isPlaying
-      ).length,
+      cpuUsage: this.measureCpuUsage(),
+      monitoredUsers: this.getMonitoredUserCount(),
+      activeSessions: this.getActiveSessionCount(),
       apiResponseTimes: {
-        discord: 0, // Would need to track these
-        gemini: 0,
+        discord: this.metrics.averageMs(this.metrics.discordRequestDuration),
+        gemini: this.metrics.averageMs(this.metrics.quoteRequestDuration, {
+          provider: "gemini",
+        }),
       },
       uptime: process.uptime() * 1000,
+      circuitBreakers: this.quoteProvider.getCircuitBreakerStates(),
     };
 
     this.logger({
@@ -732,32 +1064,34 @@ class WorkBot3000 {
   }
 }
 
-// Create and start the bot
-const bot = new WorkBot3000();
-
-// Handle graceful shutdown
-process.on("SIGINT", async () => {
-  console.log("\nReceived SIGINT, shutting down gracefully...");
-  await bot.stop();
-  process.exit(0);
-});
-
-process.on("SIGTERM", async () => {
-  console.log("\nReceived SIGTERM, shutting down gracefully...");
-  await bot.stop();
-  process.exit(0);
-});
-
-// Handle unhandled errors
-process.on("uncaughtException", (error) => {
-  console.error("Uncaught Exception:", error);
-  process.exit(1);
-});
-
-process.on("unhandledRejection", (reason, promise) => {
-  console.error("Unhandled Rejection at:", promise, "reason:", reason);
-  process.exit(1);
-});
-
-// Start the bot
-bot.start().catch(console.error);
+// Create and start the bot when run directly (not when imported)
+if (require.main === module) {
+  const bot = new WorkBot3000();
+
+  // Handle graceful shutdown
+  process.on("SIGINT", async () => {
+    console.log("\nReceived SIGINT, shutting down gracefully...");
+    await bot.stop();
+    process.exit(0);
+  });
+
+  process.on("SIGTERM", async () => {
+    console.log("\nReceived SIGTERM, shutting down gracefully...");
+    await bot.stop();
+    process.exit(0);
+  });
+
+  // Handle unhandled errors
+  process.on("uncaughtException", (error) => {
+    console.error("Uncaught Exception:", error);
+    process.exit(1);
+  });
+
+  process.on("unhandledRejection", (reason, promise) => {
+    console.error("Unhandled Rejection at:", promise, "reason:", reason);
+    process.exit(1);
+  });
+
+  // Start the bot
+  bot.start().catch(console.error);
+}
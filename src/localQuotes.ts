@@ -0,0 +1,141 @@
+import { promises as fs } from "fs";
+import { GameDefinition, GeminiQuote, Logger, QuoteProvider } from "./types";
+
+/** Key of the quotes used for games without their own */
+const DEFAULT_QUOTES_KEY = "default";
+
+/**
+ * Parse a local quotes file
+ *
+ * Supported formats:
+ * - a JSON array of quotes used for every game
+ * - a JSON object mapping game IDs (and "default") to arrays of quotes
+ * - plain text with one quote per line (blank lines and # comments ignored)
+ * @param raw File contents
+ * @returns Quotes keyed by game ID
+ */
+export function parseQuotesFile(raw: string): Map<string, string[]> {
+  const quotes = new Map<string, string[]>();
+  const toQuotes = (value: unknown): string[] => {
+    if (!Array.isArray(value)) return [];
+    return value
+      .filter((quote): quote is string => typeof quote === "string")
+      .map((quote) => quote.trim())
+      .filter(Boolean);
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    const lines = raw
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"));
+    quotes.set(DEFAULT_QUOTES_KEY, lines);
+    return quotes;
+  }
+
+  if (Array.isArray(parsed)) {
+    quotes.set(DEFAULT_QUOTES_KEY, toQuotes(parsed));
+  } else if (parsed && typeof parsed === "object") {
+    for (const [key, value] of Object.entries(parsed)) {
+      quotes.set(key, toQuotes(value));
+    }
+  } else {
+    throw new Error("Quotes file must contain an array or an object");
+  }
+
+  return quotes;
+}
+
+/**
+ * Quote provider that picks quotes from a local file
+ *
+ * The file is read on first use; a failed read is retried on the next
+ * request so fixing the file does not require a restart.
+ */
+export class LocalQuoteProvider implements QuoteProvider {
+  readonly name = "local";
+  private filePath: string;
+  private logger: Logger;
+  private quotes: Map<string, string[]> | null = null;
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Pick a random quote for a game
+   * @param game Game whose quotes should be used ("default" quotes otherwise)
+   * @returns Promise resolving to a quote
+   * @throws Error if the file cannot be read or has no matching quotes
+   */
+  async getQuote(game?: GameDefinition): Promise<GeminiQuote> {
+    const quotes = await this.load();
+    const gameQuotes = game ? quotes.get(game.id) : undefined;
+    const candidates = gameQuotes?.length
+      ? gameQuotes
+      : quotes.get(DEFAULT_QUOTES_KEY) ?? [];
+
+    const text = candidates[Math.floor(Math.random() * candidates.length)];
+    if (!text) {
+      throw new Error(
+        `No local quotes for ${game?.id ?? DEFAULT_QUOTES_KEY} in ${
+          this.filePath
+        }`
+      );
+    }
+
+    return {
+      text,
+      timestamp: Date.now(),
+      isFallback: false,
+      source: this.name,
+    };
+  }
+
+  /**
+   * Load the quotes file ahead of the first request
+   *
+   * Every quote of every game is loaded at once.
+   */
+  async preloadQuotes(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * Read and parse the quotes file unless it is already loaded
+   * @returns Quotes keyed by game ID
+   */
+  private async load(): Promise<Map<string, string[]>> {
+    if (this.quotes) return this.quotes;
+
+    const raw = await fs.readFile(this.filePath, "utf8");
+    this.quotes = parseQuotesFile(raw);
+
+    let count = 0;
+    for (const list of this.quotes.values()) count += list.length;
+    this.logger({
+      level: "info",
+      message: "Loaded local quotes",
+      context: { file: this.filePath, count, games: this.quotes.size },
+    });
+
+    return this.quotes;
+  }
+}
+
+/**
+ * Create a quote provider backed by a local file
+ * @param filePath Path of the quotes file
+ * @param logger Logger instance
+ * @returns Configured local quote provider
+ */
+export function createLocalQuoteProvider(
+  filePath: string,
+  logger: Logger
+): LocalQuoteProvider {
+  return new LocalQuoteProvider(filePath, logger);
+}
@@ -0,0 +1,409 @@
+import {
+  closeSync,
+  openSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "fs";
+import path from "path";
+import {
+  LogEntry,
+  LogFileOptions,
+  Logger,
+  LoggingOptions,
+  LogLevel,
+} from "./types";
+
+/** Modules that log through their own child logger */
+export const LOG_MODULES = [
+  "bot",
+  "config",
+  "guild",
+  "commands",
+  "quotes",
+  "gemini",
+  "openai",
+  "local",
+  "sessions",
+  "history",
+  "workerNames",
+  "privacy",
+  "announcements",
+  "health",
+  "messages",
+];
+
+/** Replacement of redacted values */
+const REDACTED = "[REDACTED]";
+
+/** Context keys whose values are always redacted */
+const SECRET_KEY_PATTERN = /token|secret|password|api[-_]?key|authorization/i;
+
+/** Secrets shorter than this are not redacted, to keep logs readable */
+const MIN_SECRET_LENGTH = 8;
+
+/** Deepest context nesting that is redacted and logged */
+const MAX_CONTEXT_DEPTH = 8;
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  error: 0,
+  warn: 1,
+  info: 2,
+  debug: 3,
+};
+
+/**
+ * Log file that rotates by size and age and keeps a limited number of
+ * rotated files
+ *
+ * Rotated files get the rotation time in milliseconds inserted before the
+ * extension (e.g. `workbot.2025-01-31T08-00-00-000.log`). Lines are written
+ * synchronously so nothing is lost when the process exits right after
+ * logging.
+ */
+export class RotatingLogFile {
+  private options: LogFileOptions;
+  private now: () => number;
+  private onError: (message: string) => void;
+  private fd: number | null = null;
+  private size = 0;
+  private openedAt = 0;
+  private lastRotatedAt = 0;
+  private hasFailed = false;
+
+  constructor(
+    options: LogFileOptions,
+    now: () => number = Date.now,
+    onError: (message: string) => void = console.error
+  ) {
+    this.options = options;
+    this.now = now;
+    this.onError = onError;
+  }
+
+  /**
+   * Append a line, rotating the file first when it is due
+   * @param line Line without trailing newline
+   */
+  write(line: string): void {
+    const data = `${line}\n`;
+    const bytes = Buffer.byteLength(data);
+
+    try {
+      if (this.fd === null) this.open();
+      if (this.isRotationDue(bytes)) this.rotate();
+
+      writeSync(this.fd!, data);
+      this.size += bytes;
+      this.hasFailed = false;
+    } catch (error) {
+      // Report once instead of for every line while the disk is unavailable
+      if (!this.hasFailed) {
+        this.hasFailed = true;
+        this.onError(
+          `Failed to write log file ${this.options.path}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * Close the file; the next write opens it again
+   */
+  close(): void {
+    if (this.fd === null) return;
+    closeSync(this.fd);
+    this.fd = null;
+  }
+
+  /**
+   * List the files holding the lines written so far
+   * @returns Paths of the kept rotated files, oldest first, followed by
+   *   the current file
+   */
+  getFiles(): string[] {
+    const { dir } = path.parse(this.options.path);
+    return [
+      ...this.listRotatedFiles().map((file) => path.join(dir, file)),
+      this.options.path,
+    ];
+  }
+
+  /**
+   * Open the log file for appending, continuing an existing file
+   */
+  private open(): void {
+    this.fd = openSync(this.options.path, "a");
+    const stats = statSync(this.options.path);
+    this.size = stats.size;
+    this.openedAt =
+      stats.size > 0 ? this.getContinuedFileStart(stats.mtimeMs) : this.now();
+  }
+
+  /**
+   * Find when an existing file left by a previous run was started
+   *
+   * It was started when the file before it was rotated, which the newest
+   * rotated file name records. Creation times are not kept by every
+   * filesystem, so a file that never rotated counts from its last write.
+   * @param lastWrite Modification time of the file
+   * @returns Timestamp the file's age is measured from
+   */
+  private getContinuedFileStart(lastWrite: number): number {
+    const { name, ext } = path.parse(this.options.path);
+    const newest = this.listRotatedFiles().pop();
+    const stamp = newest
+      ?.slice(name.length + 1, newest.length - ext.length)
+      .match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})(?:-(\d{3}))?$/);
+    if (!stamp) return lastWrite;
+
+    const [, date, hours, minutes, seconds, millis = "000"] = stamp;
+    const rotatedAt = Date.parse(
+      `${date}T${hours}:${minutes}:${seconds}.${millis}Z`
+    );
+    return isNaN(rotatedAt) ? lastWrite : rotatedAt;
+  }
+
+  /**
+   * Check whether the file must rotate before a line is written
+   * @param bytes Size of the line
+   * @returns Whether the size or age limit is reached
+   */
+  private isRotationDue(bytes: number): boolean {
+    if (this.size === 0) return false;
+
+    const { maxSize, rotateInterval } = this.options;
+    if (maxSize > 0 && this.size + bytes > maxSize) return true;
+    return rotateInterval > 0 && this.now() - this.openedAt >= rotateInterval;
+  }
+
+  /**
+   * Move the current file aside, start a new one and drop old files
+   */
+  private rotate(): void {
+    this.close();
+
+    // Rotations within the same millisecond get consecutive stamps, so no
+    // rotated file is overwritten and names still sort chronologically
+    const time = Math.max(this.now(), this.lastRotatedAt + 1);
+    this.lastRotatedAt = time;
+    renameSync(this.options.path, this.getRotatedPath(time));
+
+    this.open();
+    this.removeOldFiles();
+  }
+
+  /**
+   * Get the path of a file rotated at a given time
+   * @param time Rotation timestamp
+   * @returns Path with the time inserted before the extension
+   */
+  private getRotatedPath(time: number): string {
+    const { dir, name, ext } = path.parse(this.options.path);
+    const stamp = new Date(time).toISOString().slice(0, 23);
+    return path.join(dir, `${name}.${stamp.replace(/[:.]/g, "-")}${ext}`);
+  }
+
+  /**
+   * Delete the oldest rotated files beyond the retention limit
+   */
+  private removeOldFiles(): void {
+    const { dir } = path.parse(this.options.path);
+    const rotated = this.listRotatedFiles();
+    for (const file of rotated.slice(
+      0,
+      Math.max(rotated.length - this.options.maxFiles, 0)
+    )) {
+      unlinkSync(path.join(dir, file));
+    }
+  }
+
+  /**
+   * List the rotated files next to the current file
+   * @returns File names, oldest first
+   */
+  private listRotatedFiles(): string[] {
+    const { dir, name, ext } = path.parse(this.options.path);
+
+    // Files rotated before names had milliseconds are still recognized
+    const rotatedPattern = new RegExp(
+      `^${escapeRegExp(
+        name
+      )}\\.\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}(-\\d{3})?${escapeRegExp(
+        ext
+      )}$`
+    );
+
+    // Timestamps sort chronologically, so the oldest files come first
+    return readdirSync(dir || ".")
+      .filter((file) => rotatedPattern.test(file))
+      .sort();
+  }
+}
+
+/**
+ * Escape a string for use in a regular expression
+ * @param value String to escape
+ * @returns Escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Central logging subsystem handing out child loggers per module
+ *
+ * Every child logger tags its entries with the module name and filters
+ * them by the module's own level (the global level unless overridden).
+ * Entries are written to the console as text or JSON lines and, when a
+ * log file is configured, as JSON lines to the file. Known secrets and
+ * values of secret-looking context keys are redacted.
+ */
+export class LogManager {
+  private level: LogLevel;
+  private moduleLevels: Record<string, LogLevel>;
+  private options: LoggingOptions;
+  private secrets: string[];
+  private file: RotatingLogFile | null = null;
+
+  constructor(
+    level: LogLevel,
+    moduleLevels: Record<string, LogLevel>,
+    options: LoggingOptions,
+    secrets: string[] = []
+  ) {
+    this.level = level;
+    this.moduleLevels = moduleLevels;
+    this.options = options;
+    this.secrets = secrets.filter(
+      (secret) => secret.length >= MIN_SECRET_LENGTH
+    );
+    if (options.file) {
+      this.file = new RotatingLogFile(options.file);
+    }
+  }
+
+  /**
+   * Create a logger for a module
+   * @param module Module name included in every entry
+   * @returns Logger filtering by the module's level
+   */
+  child(module: string): Logger {
+    return (entry) => this.write(module, entry);
+  }
+
+  /**
+   * Change the global and per-module levels of every child logger
+   * @param level Global log level
+   * @param moduleLevels Levels overriding the global level per module
+   */
+  setLevels(level: LogLevel, moduleLevels: Record<string, LogLevel>): void {
+    this.level = level;
+    this.moduleLevels = moduleLevels;
+  }
+
+  /**
+   * Close the log file
+   */
+  close(): void {
+    this.file?.close();
+  }
+
+  /**
+   * Write an entry of a module if its level is enabled
+   * @param module Module that logged the entry
+   * @param entry Log entry
+   */
+  private write(
+    module: string,
+    entry: Omit<LogEntry, "timestamp" | "formattedTime">
+  ): void {
+    const level = this.moduleLevels[module] ?? this.level;
+    if (LEVEL_PRIORITY[entry.level] > LEVEL_PRIORITY[level]) return;
+
+    const formattedTime = new Date().toISOString();
+    const message = this.redactString(entry.message);
+    const context = entry.context
+      ? (this.redact(entry.context, 0) as Record<string, unknown>)
+      : undefined;
+
+    const jsonLine = JSON.stringify({
+      time: formattedTime,
+      level: entry.level,
+      module,
+      message,
+      ...(context ? { context } : {}),
+    });
+
+    if (this.options.format === "json") {
+      console.log(jsonLine);
+    } else {
+      const contextString = context ? ` ${JSON.stringify(context)}` : "";
+      console.log(
+        `[${formattedTime}] [${entry.level.toUpperCase()}] [${module}] ${message}${contextString}`
+      );
+    }
+
+    this.file?.write(jsonLine);
+  }
+
+  /**
+   * Redact secrets in a context value
+   * @param value Context value
+   * @param depth Nesting depth of the value
+   * @returns Copy of the value with secrets replaced
+   */
+  private redact(value: unknown, depth: number): unknown {
+    if (typeof value === "string") return this.redactString(value);
+    if (value instanceof Error) return this.redactString(value.message);
+    if (typeof value !== "object" || value === null) return value;
+    if (depth >= MAX_CONTEXT_DEPTH) return "[Truncated]";
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, depth + 1));
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] =
+        SECRET_KEY_PATTERN.test(key) && typeof item === "string"
+          ? REDACTED
+          : this.redact(item, depth + 1);
+    }
+    return redacted;
+  }
+
+  /**
+   * Replace known secrets in a string
+   * @param value String that may contain secrets
+   * @returns String with secrets replaced
+   */
+  private redactString(value: string): string {
+    let redacted = value;
+    for (const secret of this.secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted;
+  }
+}
+
+/**
+ * Create the logging subsystem
+ * @param level Global log level
+ * @param moduleLevels Levels overriding the global level per module
+ * @param options Log format and file
+ * @param secrets Values that must never appear in logs (e.g. tokens)
+ * @returns Configured log manager
+ */
+export function createLogManager(
+  level: LogLevel,
+  moduleLevels: Record<string, LogLevel>,
+  options: LoggingOptions,
+  secrets: string[] = []
+): LogManager {
+  return new LogManager(level, moduleLevels, options, secrets);
+}
@@ -0,0 +1,424 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { DiscordAPIError, RateLimitError } from "discord.js";
+import {
+  Logger,
+  MessageKind,
+  MessageQueueFile,
+  OutboundMessage,
+  QueuedMessage,
+} from "./types";
+
+const MESSAGE_QUEUE_FILE_VERSION = 1;
+
+/** First delay before retrying a failed delivery */
+const RETRY_BASE_MS = 2000;
+
+/** Longest delay between delivery attempts */
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/** Delay after a rate limit response that did not say how long to wait */
+const RATE_LIMIT_DEFAULT_MS = 5000;
+
+/**
+ * Sends a queued message to its channel, rejecting when delivery failed
+ */
+export type MessageDelivery = (queued: QueuedMessage) => Promise<void>;
+
+/**
+ * Outbound message queue between the session logic and Discord
+ *
+ * Messages of a channel are delivered one at a time in the order they were
+ * queued; a failed message holds back the later ones of its channel until
+ * it is delivered. Failures are retried with exponential backoff, rate
+ * limit responses delay the channel for as long as Discord asks, and
+ * messages Discord rejects for good (e.g. missing permissions) are dropped,
+ * as are messages still undelivered once they are older than the maximum
+ * age.
+ * Undelivered messages are persisted so they survive restarts, and
+ * nothing is sent while the queue is paused (e.g. the gateway is down).
+ */
+export class MessageQueue {
+  private filePath: string;
+  private deliver: MessageDelivery;
+  /** Age in milliseconds after which messages are dropped (0 keeps them) */
+  private maxAgeMs: number;
+  private logger: Logger;
+  private now: () => number;
+  private messages: QueuedMessage[] = [];
+  /** Channels with a delivery in flight */
+  private sendingChannels: Set<string> = new Set();
+  private writeChain: Promise<void> = Promise.resolve();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    filePath: string,
+    deliver: MessageDelivery,
+    maxAgeMs: number,
+    logger: Logger,
+    now: () => number = Date.now
+  ) {
+    this.filePath = filePath;
+    this.deliver = deliver;
+    this.maxAgeMs = maxAgeMs;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Load messages left undelivered by a previous run
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger({
+          level: "warn",
+          message: "Failed to read message queue file",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      return;
+    }
+
+    try {
+      const data = JSON.parse(raw) as MessageQueueFile;
+      if (data.version !== MESSAGE_QUEUE_FILE_VERSION) {
+        throw new Error(`Unsupported message queue version: ${data.version}`);
+      }
+
+      const loaded = data.messages.filter(
+        (queued) =>
+          typeof queued.id === "string" &&
+          typeof queued.channelId === "string" &&
+          typeof queued.createdAt === "number" &&
+          typeof queued.message === "object"
+      );
+      // Messages queued since startup come after the restored ones
+      this.messages = [
+        ...loaded.map((queued) => ({
+          ...queued,
+          attempts: queued.attempts ?? 0,
+          nextAttemptAt: 0,
+        })),
+        ...this.messages,
+      ];
+
+      if (loaded.length > 0) {
+        this.logger({
+          level: "info",
+          message: "Loaded undelivered messages",
+          context: { file: this.filePath, count: loaded.length },
+        });
+      }
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Ignoring corrupt message queue file",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Queue a message for delivery
+   * @param channelId Target channel ID
+   * @param kind Kind of message
+   * @param message Message payload
+   * @returns Promise resolving once the message is persisted
+   */
+  enqueue(
+    channelId: string,
+    kind: MessageKind,
+    message: OutboundMessage
+  ): Promise<void> {
+    const now = this.now();
+    this.messages.push({
+      id: randomUUID(),
+      channelId,
+      kind,
+      message,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    });
+
+    const saved = this.save();
+    this.process();
+    return saved;
+  }
+
+  /**
+   * Start or continue delivering messages
+   */
+  resume(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    if (this.messages.length > 0) {
+      this.logger({
+        level: "info",
+        message: "Delivering queued messages",
+        context: { count: this.messages.length },
+      });
+    }
+    this.process();
+  }
+
+  /**
+   * Hold back messages until resumed (deliveries in flight still finish)
+   */
+  pause(): void {
+    this.isRunning = false;
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Stop delivering and wait for the queue file to be written
+   */
+  async stop(): Promise<void> {
+    this.pause();
+    await this.writeChain;
+  }
+
+  /**
+   * Count the messages waiting for delivery
+   * @returns Number of queued messages
+   */
+  size(): number {
+    return this.messages.length;
+  }
+
+  /**
+   * Deliver the first message of every channel that is due, and schedule
+   * the next attempt for messages that are waiting for a retry
+   */
+  private process(): void {
+    if (!this.isRunning) return;
+    this.clearRetryTimer();
+
+    const now = this.now();
+    const seenChannels = new Set<string>();
+    let nextAttemptAt = Infinity;
+
+    for (const queued of [...this.messages]) {
+      if (seenChannels.has(queued.channelId)) continue;
+      seenChannels.add(queued.channelId);
+
+      if (this.sendingChannels.has(queued.channelId)) continue;
+
+      if (this.maxAgeMs > 0 && now - queued.createdAt > this.maxAgeMs) {
+        this.drop(queued, "Dropping stale queued message");
+        // The next message of the channel is now first in line
+        seenChannels.delete(queued.channelId);
+        continue;
+      }
+
+      if (queued.nextAttemptAt > now) {
+        nextAttemptAt = Math.min(nextAttemptAt, queued.nextAttemptAt);
+        continue;
+      }
+
+      this.send(queued);
+    }
+
+    if (nextAttemptAt !== Infinity) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.process();
+      }, nextAttemptAt - now);
+      // Never keep the process alive just to retry messages
+      this.retryTimer.unref();
+    }
+  }
+
+  /**
+   * Deliver a message and handle the outcome
+   * @param queued Message to deliver
+   */
+  private send(queued: QueuedMessage): void {
+    this.sendingChannels.add(queued.channelId);
+
+    this.deliver(queued)
+      .then(() => {
+        this.remove(queued);
+        this.logger({
+          level: "debug",
+          message: "Message delivered",
+          context: {
+            channelId: queued.channelId,
+            kind: queued.kind,
+            attempts: queued.attempts + 1,
+          },
+        });
+      })
+      .catch((error) => this.handleFailure(queued, error))
+      .finally(() => {
+        this.sendingChannels.delete(queued.channelId);
+        this.process();
+      });
+  }
+
+  /**
+   * Schedule a retry for a failed delivery, or drop the message if Discord
+   * will never accept it
+   * @param queued Message that failed
+   * @param error Delivery error
+   */
+  private handleFailure(queued: QueuedMessage, error: unknown): void {
+    queued.attempts++;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof RateLimitError || isRateLimitStatus(error)) {
+      const retryAfter =
+        error instanceof RateLimitError
+          ? error.retryAfter
+          : RATE_LIMIT_DEFAULT_MS;
+      queued.nextAttemptAt = this.now() + retryAfter;
+      this.logger({
+        level: "warn",
+        message: "Discord rate limit hit, delaying channel messages",
+        context: { channelId: queued.channelId, retryInMs: retryAfter },
+      });
+      this.save();
+      return;
+    }
+
+    if (error instanceof DiscordAPIError && error.status < 500) {
+      this.drop(queued, "Discord rejected queued message, dropping it", error);
+      return;
+    }
+
+    const delay = Math.min(
+      RETRY_BASE_MS * Math.pow(2, queued.attempts - 1),
+      RETRY_MAX_MS
+    );
+    queued.nextAttemptAt = this.now() + delay;
+    this.logger({
+      level: "warn",
+      message: "Failed to deliver message, retrying",
+      context: {
+        channelId: queued.channelId,
+        kind: queued.kind,
+        attempts: queued.attempts,
+        retryInMs: delay,
+        error: errorMessage,
+      },
+    });
+    this.save();
+  }
+
+  /**
+   * Remove a message that will not be delivered and log why
+   * @param queued Message to drop
+   * @param message Log message
+   * @param error Error that made the message undeliverable
+   */
+  private drop(queued: QueuedMessage, message: string, error?: unknown): void {
+    this.remove(queued);
+
+    const context: Record<string, unknown> = {
+      channelId: queued.channelId,
+      kind: queued.kind,
+      attempts: queued.attempts,
+      queuedAt: new Date(queued.createdAt).toISOString(),
+    };
+    if (error !== undefined) {
+      context["error"] = error instanceof Error ? error.message : String(error);
+    }
+    this.logger({ level: "error", message, context });
+  }
+
+  /**
+   * Remove a message from the queue and persist the change
+   * @param queued Message to remove
+   */
+  private remove(queued: QueuedMessage): void {
+    this.messages = this.messages.filter((other) => other.id !== queued.id);
+    this.save();
+  }
+
+  /**
+   * Cancel the scheduled retry
+   */
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Persist the queue
+   * @returns Promise resolving once the file is written
+   */
+  private save(): Promise<void> {
+    const data: MessageQueueFile = {
+      version: MESSAGE_QUEUE_FILE_VERSION,
+      savedAt: this.now(),
+      messages: this.messages.map((queued) => ({ ...queued })),
+    };
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writeChain = this.writeChain.then(() => this.writeFile(data));
+    return this.writeChain;
+  }
+
+  /**
+   * Write the queue file atomically
+   * @param data Queue file contents
+   */
+  private async writeFile(data: MessageQueueFile): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to persist message queue",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Check whether an error is an HTTP 429 response
+ * @param error Delivery error
+ * @returns Whether Discord answered with Too Many Requests
+ */
+function isRateLimitStatus(error: unknown): boolean {
+  return error instanceof DiscordAPIError && error.status === 429;
+}
+
+/**
+ * Create an outbound message queue backed by a JSON file
+ * @param filePath Path of the message queue file
+ * @param deliver Sends a queued message to its channel
+ * @param maxAge Seconds after which undelivered messages are dropped (0
+ *   keeps them)
+ * @param logger Logger instance
+ * @returns Configured message queue (paused until resumed)
+ */
+export function createMessageQueue(
+  filePath: string,
+  deliver: MessageDelivery,
+  maxAge: number,
+  logger: Logger
+): MessageQueue {
+  return new MessageQueue(filePath, deliver, maxAge * 1000, logger);
+}
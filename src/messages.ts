@@ -0,0 +1,121 @@
+import { EmbedBuilder } from "discord.js";
+import {
+  MessageDetails,
+  MessageFormat,
+  MessageKind,
+  OutboundMessage,
+} from "./types";
+import { formatApproximateDuration, formatDuration } from "./utils";
+
+/** Footer shown on every embed */
+const EMBED_FOOTER = "FICSIT Inc. • Productivity Monitoring Division";
+
+/** Embed titles by message kind */
+const EMBED_TITLES: Record<MessageKind, string> = {
+  end: "Shift Complete",
+  start: "Clocked In",
+  milestone: "Overtime Milestone",
+  crew: "Crew Shift Complete",
+  digest: "Shift Digest",
+};
+
+/** Label of the duration field by message kind */
+const DURATION_LABELS: Record<MessageKind, string> = {
+  end: "Duration",
+  start: "Duration",
+  milestone: "Time on Shift",
+  crew: "Time Together",
+  digest: "Total Time",
+};
+
+/** Note added to messages whose end time was estimated */
+const APPROXIMATE_NOTE =
+  "Clock-out time estimated: the bot lost its Discord connection during this shift.";
+
+/**
+ * Format a timestamp so Discord shows it in each reader's timezone
+ * @param time Timestamp in milliseconds
+ * @returns Discord timestamp markup
+ */
+function discordTimestamp(time: number): string {
+  return `<t:${Math.floor(time / 1000)}:f>`;
+}
+
+/**
+ * Build the payload of a channel message
+ *
+ * Plain text is sent as is. Embeds show the text as their description with
+ * a colored side bar, session times as fields and a FICSIT footer. Both
+ * note when the end time was estimated.
+ * @param text Rendered and sanitized message text
+ * @param kind Kind of message
+ * @param format Plain text or embed
+ * @param color Side bar color of embeds
+ * @param details Session times shown as embed fields
+ * @returns Message payload that can be stored as JSON
+ */
+export function buildMessage(
+  text: string,
+  kind: MessageKind,
+  format: MessageFormat,
+  color: number,
+  details: MessageDetails = {}
+): OutboundMessage {
+  if (format === "text") {
+    return {
+      content: details.approximate ? `${text}\n-# ${APPROXIMATE_NOTE}` : text,
+    };
+  }
+
+  const embed = new EmbedBuilder()
+    .setColor(color)
+    .setTitle(EMBED_TITLES[kind])
+    // The side bar replaces the block quote of plain text messages
+    .setDescription(text.replace(/^>>> ?/, ""))
+    .setFooter({ text: EMBED_FOOTER })
+    .setTimestamp();
+
+  if (details.duration !== undefined) {
+    embed.addFields({
+      name: DURATION_LABELS[kind],
+      value: formatApproximateDuration(details.duration, details.approximate),
+      inline: true,
+    });
+  }
+  if (details.activeDuration !== undefined && details.idleDuration) {
+    embed.addFields(
+      {
+        name: "Active",
+        value: formatApproximateDuration(
+          details.activeDuration,
+          details.approximate
+        ),
+        inline: true,
+      },
+      {
+        name: "Idle",
+        value: formatDuration(details.idleDuration),
+        inline: true,
+      }
+    );
+  }
+  if (details.startTime !== undefined) {
+    embed.addFields({
+      name: "Clocked In",
+      value: discordTimestamp(details.startTime),
+      inline: true,
+    });
+  }
+  if (details.endTime !== undefined) {
+    embed.addFields({
+      name: "Clocked Out",
+      value: discordTimestamp(details.endTime),
+      inline: true,
+    });
+  }
+  if (details.approximate) {
+    embed.addFields({ name: "Note", value: APPROXIMATE_NOTE });
+  }
+
+  return { embeds: [embed.toJSON()] };
+}
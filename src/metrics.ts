@@ -0,0 +1,354 @@
+/** Label values of a single metric series */
+type Labels = Record<string, string>;
+
+/** Histogram buckets in seconds, sized for API round trips */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Build the key identifying a series of a metric
+ * @param labels Label values of the series
+ * @returns Labels in Prometheus notation (empty without labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => {
+      const value = labels[name]!.replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n");
+      return `${name}="${value}"`;
+    });
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Base of the metric types, holding the name and help text
+ */
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Render the metric in the Prometheus text format
+   * @returns Lines of the HELP, TYPE and sample entries
+   */
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ];
+  }
+
+  /**
+   * Render the samples of every series
+   * @returns Sample lines
+   */
+  protected abstract samples(): string[];
+}
+
+/**
+ * Value that only goes up, such as the number of messages sent
+ */
+export class Counter extends Metric {
+  readonly type = "counter";
+  private values: Map<string, number> = new Map();
+
+  /**
+   * Increase the counter of a series
+   * @param labels Label values of the series
+   * @param amount Amount to add
+   */
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  /**
+   * Render the samples of every series
+   * @returns Sample lines
+   */
+  protected samples(): string[] {
+    return Array.from(this.values).map(
+      ([key, value]) => `${this.name}${key} ${value}`
+    );
+  }
+}
+
+/**
+ * Value that is set to the current state, such as the active session count
+ */
+export class Gauge extends Metric {
+  readonly type = "gauge";
+  private values: Map<string, number> = new Map();
+
+  /**
+   * Set the value of a series
+   * @param value Current value
+   * @param labels Label values of the series
+   */
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  /**
+   * Drop every series, so series that no longer exist are not exported
+   */
+  reset(): void {
+    this.values.clear();
+  }
+
+  /**
+   * Render the samples of every series
+   * @returns Sample lines
+   */
+  protected samples(): string[] {
+    return Array.from(this.values).map(
+      ([key, value]) => `${this.name}${key} ${value}`
+    );
+  }
+}
+
+/**
+ * Observations of a series counted into cumulative buckets
+ */
+interface HistogramSeries {
+  labels: Labels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, such as request durations
+ */
+export class Histogram extends Metric {
+  readonly type = "histogram";
+  private buckets: number[];
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record an observation
+   * @param value Observed value
+   * @param labels Label values of the series
+   */
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        bucketCounts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.bucketCounts[index]!++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Sum and count of the observations of every series matching the labels
+   * @param labels Label values the series must have (all series when empty)
+   * @returns Sum and number of observations
+   */
+  totals(labels: Labels = {}): { sum: number; count: number } {
+    let sum = 0;
+    let count = 0;
+    for (const series of this.series.values()) {
+      const matches = Object.entries(labels).every(
+        ([name, value]) => series.labels[name] === value
+      );
+      if (matches) {
+        sum += series.sum;
+        count += series.count;
+      }
+    }
+    return { sum, count };
+  }
+
+  /**
+   * Render the samples of every series
+   * @returns Sample lines
+   */
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = formatLabels({ ...series.labels, le: String(bound) });
+        lines.push(
+          `${this.name}_bucket${labels} ${series.bucketCounts[index]!}`
+        );
+      });
+      const infLabels = formatLabels({ ...series.labels, le: "+Inf" });
+      const key = formatLabels(series.labels);
+      lines.push(`${this.name}_bucket${infLabels} ${series.count}`);
+      lines.push(`${this.name}_sum${key} ${series.sum}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics exported by the bot in the Prometheus text format
+ *
+ * Counters and histograms are updated where the events happen; gauges
+ * are refreshed by the collectors right before each scrape.
+ */
+export class BotMetrics {
+  /** Duration of quote API requests by provider and outcome */
+  readonly quoteRequestDuration = new Histogram(
+    "workbot_quote_request_duration_seconds",
+    "Duration of quote API requests",
+    LATENCY_BUCKETS
+  );
+  /** Duration of Discord API requests by operation */
+  readonly discordRequestDuration = new Histogram(
+    "workbot_discord_request_duration_seconds",
+    "Duration of Discord API requests",
+    LATENCY_BUCKETS
+  );
+  /** Quotes used in messages by source ("fallback" for built-in quotes) */
+  readonly quotesServed = new Counter(
+    "workbot_quotes_served_total",
+    "Quotes used in messages by source"
+  );
+  /** Messages sent to target channels by kind */
+  readonly messagesSent = new Counter(
+    "workbot_messages_sent_total",
+    "Messages sent to target channels"
+  );
+  /** Messages waiting in the outbound queue */
+  readonly queuedMessages = new Gauge(
+    "workbot_queued_messages",
+    "Messages waiting in the outbound queue"
+  );
+  /** Membership changes missed by member events, found by reconciliation */
+  readonly memberDrift = new Counter(
+    "workbot_member_reconcile_drift_total",
+    "Membership changes missed by member events and found by reconciliation"
+  );
+  /** Members monitored across all guilds */
+  readonly monitoredUsers = new Gauge(
+    "workbot_monitored_users",
+    "Members monitored across all guilds"
+  );
+  /** Sessions in progress across all guilds */
+  readonly activeSessions = new Gauge(
+    "workbot_active_sessions",
+    "Sessions in progress across all guilds"
+  );
+  /** Cached quotes by provider and game */
+  readonly quoteCacheSize = new Gauge(
+    "workbot_quote_cache_quotes",
+    "Cached quotes by provider and game"
+  );
+  /** Maximum cached quotes by provider */
+  readonly quoteCacheCapacity = new Gauge(
+    "workbot_quote_cache_capacity",
+    "Maximum cached quotes per game by provider"
+  );
+  /** Whether the circuit breaker of a provider is open or half-open */
+  readonly circuitBreakerOpen = new Gauge(
+    "workbot_circuit_breaker_open",
+    "Whether the circuit breaker of a quote provider is open (1) or closed (0)"
+  );
+  /** Whether the Discord gateway connection is ready */
+  readonly gatewayReady = new Gauge(
+    "workbot_discord_gateway_ready",
+    "Whether the Discord gateway connection is ready (1) or not (0)"
+  );
+  /** Last gateway heartbeat round trip */
+  readonly gatewayPing = new Gauge(
+    "workbot_discord_gateway_ping_seconds",
+    "Last Discord gateway heartbeat round trip"
+  );
+  /** Heap memory in use */
+  readonly heapUsed = new Gauge(
+    "workbot_heap_used_bytes",
+    "Heap memory in use"
+  );
+  /** Time since the process started */
+  readonly uptime = new Gauge(
+    "workbot_uptime_seconds",
+    "Time since the process started"
+  );
+
+  private collectors: (() => void)[] = [];
+
+  /**
+   * Register a callback that refreshes gauges before each scrape
+   * @param collector Callback setting gauge values
+   */
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Average duration of the requests to an API since startup
+   * @param histogram Histogram of the request durations
+   * @param labels Label values the requests must have
+   * @returns Average duration in milliseconds (0 without requests)
+   */
+  averageMs(histogram: Histogram, labels: Labels = {}): number {
+    const { sum, count } = histogram.totals(labels);
+    return count > 0 ? Math.round((sum / count) * 1000) : 0;
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   * @returns Exposition text
+   */
+  render(): string {
+    for (const collector of this.collectors) {
+      collector();
+    }
+
+    this.heapUsed.set(process.memoryUsage().heapUsed);
+    this.uptime.set(Math.round(process.uptime()));
+
+    const metrics: Metric[] = [
+      this.quoteRequestDuration,
+      this.discordRequestDuration,
+      this.quotesServed,
+      this.messagesSent,
+      this.queuedMessages,
+      this.monitoredUsers,
+      this.memberDrift,
+      this.activeSessions,
+      this.quoteCacheSize,
+      this.quoteCacheCapacity,
+      this.circuitBreakerOpen,
+      this.gatewayReady,
+      this.gatewayPing,
+      this.heapUsed,
+      this.uptime,
+    ];
+    return `${metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+}
+
+/**
+ * Create the metrics of the bot
+ * @returns Empty bot metrics
+ */
+export function createBotMetrics(): BotMetrics {
+  return new BotMetrics();
+}
@@ -0,0 +1,106 @@
+import {
+  MonitoringCandidate,
+  MonitoringDecision,
+  MonitoringRules,
+  WorkerConfig,
+} from "./types";
+
+/** Rules that monitor every member who can view the target channel */
+export const DEFAULT_MONITORING_RULES: MonitoringRules = {
+  includeRoles: [],
+  excludeRoles: [],
+  allowUsers: [],
+  denyUsers: [],
+  requireWorkerMapping: false,
+};
+
+/**
+ * Decide whether a guild member is monitored
+ *
+ * The deny list wins over everything. Members on the allow list skip the
+ * role and worker mapping rules, but like everyone else they must be able
+ * to view the target channel their shifts are announced in.
+ * @param candidate Member to decide on
+ * @param rules Monitoring rules of the guild
+ * @param workerConfig Worker name mapping of the guild
+ * @returns Decision with the rule that made it
+ */
+export function evaluateMonitoringRules(
+  candidate: MonitoringCandidate,
+  rules: MonitoringRules,
+  workerConfig: WorkerConfig
+): MonitoringDecision {
+  if (rules.denyUsers.includes(candidate.userId)) {
+    return {
+      monitored: false,
+      rule: "denyUsers",
+      reason: "user is on the deny list",
+    };
+  }
+
+  if (!candidate.hasChannelAccess) {
+    return {
+      monitored: false,
+      rule: "channelAccess",
+      reason: "cannot view the target channel",
+    };
+  }
+
+  if (rules.allowUsers.includes(candidate.userId)) {
+    return {
+      monitored: true,
+      rule: "allowUsers",
+      reason: "user is on the allow list",
+    };
+  }
+
+  const excludedRole = rules.excludeRoles.find((roleId) =>
+    candidate.roleIds.includes(roleId)
+  );
+  if (excludedRole) {
+    return {
+      monitored: false,
+      rule: "excludeRoles",
+      reason: `has excluded role ${excludedRole}`,
+    };
+  }
+
+  let includedRole: string | undefined;
+  if (rules.includeRoles.length > 0) {
+    includedRole = rules.includeRoles.find((roleId) =>
+      candidate.roleIds.includes(roleId)
+    );
+    if (!includedRole) {
+      return {
+        monitored: false,
+        rule: "includeRoles",
+        reason: "has none of the included roles",
+      };
+    }
+  }
+
+  if (
+    rules.requireWorkerMapping &&
+    workerConfig.mapping[candidate.userId] === undefined
+  ) {
+    return {
+      monitored: false,
+      rule: "requireWorkerMapping",
+      reason: "has no worker mapping entry",
+    };
+  }
+
+  if (includedRole) {
+    return {
+      monitored: true,
+      rule: "includeRoles",
+      reason: `has included role ${includedRole}`,
+    };
+  }
+
+  return {
+    monitored: true,
+    rule: "default",
+    reason: "can view the target channel",
+  };
+}
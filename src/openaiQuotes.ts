@@ -0,0 +1,101 @@
+import axios from "axios";
+import {
+  CircuitBreakerOptions,
+  GameDefinition,
+  Logger,
+  OpenAIProviderConfig,
+  QuoteCacheOptions,
+} from "./types";
+import { ADA_PERSONA_PROMPT } from "./games";
+import { CachedQuoteProvider, DEFAULT_BREAKER_OPTIONS } from "./quoteProvider";
+
+/** Request timeout for the chat completions endpoint */
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Response body of an OpenAI-compatible chat completions request
+ */
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Quote provider for OpenAI-compatible chat completions APIs
+ *
+ * Works with OpenAI itself as well as self-hosted model servers exposing
+ * the same API (e.g. llama.cpp, vLLM, Ollama, LM Studio).
+ */
+export class OpenAIQuoteProvider extends CachedQuoteProvider {
+  private config: OpenAIProviderConfig;
+
+  constructor(
+    config: OpenAIProviderConfig,
+    maxCachedQuotes: number,
+    logger: Logger,
+    breakerOptions: CircuitBreakerOptions = DEFAULT_BREAKER_OPTIONS,
+    cacheOptions?: QuoteCacheOptions
+  ) {
+    super("openai", maxCachedQuotes, breakerOptions, logger, cacheOptions);
+    this.config = config;
+  }
+
+  /**
+   * Request a quote from the chat completions endpoint
+   * @param prompt User prompt asking for the quote
+   * @param game Game whose persona should be used (ADA when omitted)
+   * @returns Promise resolving to the raw quote text
+   */
+  protected async requestQuote(
+    prompt: string,
+    game?: GameDefinition
+  ): Promise<string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.config.apiKey) {
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await axios.post<ChatCompletionResponse>(
+      `${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        model: this.config.model,
+        messages: [
+          {
+            role: "system",
+            content: game?.personaPrompt ?? ADA_PERSONA_PROMPT,
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 1,
+        max_tokens: 100,
+      },
+      { headers, timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    return response.data.choices?.[0]?.message?.content ?? "";
+  }
+}
+
+/**
+ * Create a quote provider for an OpenAI-compatible API
+ * @param config Endpoint, API key and model
+ * @param maxCachedQuotes Maximum number of quotes to cache
+ * @param logger Logger instance
+ * @param cacheOptions Background refill settings of the quote cache
+ * @returns Configured OpenAI-compatible quote provider
+ */
+export function createOpenAIQuoteProvider(
+  config: OpenAIProviderConfig,
+  maxCachedQuotes: number,
+  logger: Logger,
+  cacheOptions?: QuoteCacheOptions
+): OpenAIQuoteProvider {
+  return new OpenAIQuoteProvider(
+    config,
+    maxCachedQuotes,
+    logger,
+    DEFAULT_BREAKER_OPTIONS,
+    cacheOptions
+  );
+}
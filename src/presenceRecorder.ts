@@ -0,0 +1,214 @@
+import { promises as fs } from "fs";
+import { RotatingLogFile } from "./logging";
+import { GameActivity, LogFileOptions, Logger, PresenceRecord } from "./types";
+
+/**
+ * Recorder appending every presence observation to a JSON-lines file
+ *
+ * The file can be replayed through the session engine with the replay
+ * CLI to find out afterwards why a shift got the duration it did. It
+ * rotates by size like the log file, so only the newest rotated files are
+ * kept.
+ */
+export class PresenceRecorder {
+  private options: LogFileOptions;
+  private logger: Logger;
+  private file: RotatingLogFile;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(options: LogFileOptions, logger: Logger) {
+    this.options = options;
+    this.logger = logger;
+    this.file = new RotatingLogFile(options, Date.now, (message) =>
+      this.logger({
+        level: "error",
+        message: "Failed to write presence record",
+        context: { file: this.options.path, error: message },
+      })
+    );
+  }
+
+  /**
+   * Append an observation to the recording
+   * @param record Presence observation
+   * @returns Promise resolving once the record is written
+   */
+  record(record: PresenceRecord): Promise<void> {
+    const line = JSON.stringify({
+      ...record,
+      activities: record.activities?.map(toRecordedActivity) ?? null,
+    });
+
+    // Queued so records never land in a file that is being rewritten
+    this.writeChain = this.writeChain.then(() => this.file.write(line));
+    return this.writeChain;
+  }
+
+  /**
+   * Wait for pending records to be written
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /**
+   * Write pending records and close the recording
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.file.close();
+  }
+
+  /**
+   * Get the recorded observations of a user
+   * @param userId Discord user ID
+   * @returns Records of the user in time order
+   */
+  async getUserRecords(userId: string): Promise<PresenceRecord[]> {
+    await this.flush();
+
+    const records: PresenceRecord[] = [];
+    for (const filePath of this.file.getFiles()) {
+      const parsed = parsePresenceRecords(await readRecording(filePath));
+      records.push(
+        ...parsed.records.filter((record) => record.userId === userId)
+      );
+    }
+    return records.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Delete every recorded observation of a user
+   *
+   * The current and the rotated recordings are rewritten without the
+   * user's lines; lines that cannot be parsed are kept as they are.
+   * @param userId Discord user ID
+   * @returns Number of deleted records
+   */
+  async forgetUser(userId: string): Promise<number> {
+    let removed = 0;
+
+    // Queue behind pending appends so none of them is lost or reordered
+    this.writeChain = this.writeChain.then(async () => {
+      // Reopened by the next record, after the file was replaced
+      this.file.close();
+
+      for (const filePath of this.file.getFiles()) {
+        try {
+          const lines = (await readRecording(filePath))
+            .split("\n")
+            .filter((line) => line.trim() !== "");
+          const kept = lines.filter(
+            (line) => parsePresenceRecords(line).records[0]?.userId !== userId
+          );
+          if (kept.length === lines.length) continue;
+
+          const tempPath = `${filePath}.tmp`;
+          await fs.writeFile(
+            tempPath,
+            kept.map((line) => `${line}\n`).join(""),
+            "utf8"
+          );
+          await fs.rename(tempPath, filePath);
+          removed += lines.length - kept.length;
+        } catch (error) {
+          this.logger({
+            level: "error",
+            message: "Failed to delete presence records",
+            context: {
+              file: filePath,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          });
+        }
+      }
+    });
+    await this.writeChain;
+
+    return removed;
+  }
+}
+
+/**
+ * Read a recording
+ * @param filePath Path of the recording
+ * @returns Contents of the recording (empty if nothing was recorded yet)
+ */
+async function readRecording(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return "";
+    throw error;
+  }
+}
+
+/**
+ * Keep the activity fields game detection and crew tracking use
+ *
+ * Presences from discord.js carry many more fields (and circular
+ * references), so activities are copied instead of serialized directly.
+ * @param activity Activity of a presence
+ * @returns Activity with only the recorded fields
+ */
+function toRecordedActivity(activity: GameActivity): GameActivity {
+  const recorded: GameActivity = { name: activity.name, type: activity.type };
+  if (activity.state) recorded.state = activity.state;
+  if (activity.details) recorded.details = activity.details;
+  if (activity.party?.id) recorded.party = { id: activity.party.id };
+  return recorded;
+}
+
+/**
+ * Parse a presence recording
+ * @param raw Contents of a JSON-lines recording
+ * @returns Valid records in time order and the number of skipped lines
+ */
+export function parsePresenceRecords(raw: string): {
+  records: PresenceRecord[];
+  skipped: number;
+} {
+  const records: PresenceRecord[] = [];
+  let skipped = 0;
+
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as PresenceRecord;
+      if (
+        typeof record.time !== "number" ||
+        typeof record.channelId !== "string" ||
+        typeof record.userId !== "string" ||
+        (record.activities !== null && !Array.isArray(record.activities)) ||
+        (record.source === "reconcile" &&
+          typeof record.disconnectedAt !== "number") ||
+        (record.source === "restore" &&
+          (typeof record.session?.startTime !== "number" ||
+            typeof record.session.gameId !== "string" ||
+            typeof record.resumed !== "boolean"))
+      ) {
+        throw new Error("Invalid presence record");
+      }
+      records.push(record);
+    } catch {
+      skipped++;
+    }
+  }
+
+  // Concurrent handlers may append slightly out of order
+  records.sort((a, b) => a.time - b.time);
+  return { records, skipped };
+}
+
+/**
+ * Create a recorder appending presence observations to a file
+ * @param options Path of the JSON-lines recording and its rotation limits
+ * @param logger Logger instance
+ * @returns Configured presence recorder
+ */
+export function createPresenceRecorder(
+  options: LogFileOptions,
+  logger: Logger
+): PresenceRecorder {
+  return new PresenceRecorder(options, logger);
+}
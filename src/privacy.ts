@@ -0,0 +1,163 @@
+import { promises as fs } from "fs";
+import { Logger, PrivacyFile } from "./types";
+
+const PRIVACY_FILE_VERSION = 1;
+
+/**
+ * Persistent store of the users who opted out of presence tracking
+ *
+ * Opting out applies in every guild the bot monitors, since the bot
+ * tracks a user by the same presence everywhere.
+ */
+export class PrivacyStore {
+  private filePath: string;
+  private logger: Logger;
+  /** Discord user ID to the time the user opted out */
+  private optedOut: Record<string, number> = {};
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Load privacy settings from disk
+   *
+   * Unlike the other stores, an unreadable or corrupt file is not ignored:
+   * starting with an empty list would track every user who opted out.
+   * @throws Error if the file exists but cannot be read or parsed
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw new Error(
+        `Failed to read privacy file ${this.filePath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const data = JSON.parse(raw) as PrivacyFile;
+      if (data.version !== PRIVACY_FILE_VERSION) {
+        throw new Error(`Unsupported privacy file version: ${data.version}`);
+      }
+      if (
+        typeof data.optedOut !== "object" ||
+        data.optedOut === null ||
+        Array.isArray(data.optedOut) ||
+        Object.values(data.optedOut).some((time) => typeof time !== "number")
+      ) {
+        throw new Error("Invalid opt-out list");
+      }
+
+      this.optedOut = data.optedOut;
+
+      this.logger({
+        level: "info",
+        message: "Privacy settings loaded",
+        context: {
+          file: this.filePath,
+          optedOutUsers: Object.keys(this.optedOut).length,
+        },
+      });
+    } catch (error) {
+      throw new Error(
+        `Corrupt privacy file ${this.filePath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Check whether a user opted out of tracking
+   * @param userId Discord user ID
+   * @returns Whether the user must not be tracked
+   */
+  isOptedOut(userId: string): boolean {
+    return this.optedOut[userId] !== undefined;
+  }
+
+  /**
+   * Get the time a user opted out
+   * @param userId Discord user ID
+   * @returns Opt-out timestamp or null while the user is tracked
+   */
+  getOptOutTime(userId: string): number | null {
+    return this.optedOut[userId] ?? null;
+  }
+
+  /**
+   * Exclude a user from tracking
+   * @param userId Discord user ID
+   * @returns Whether the user was tracked before
+   */
+  async optOut(userId: string): Promise<boolean> {
+    if (this.isOptedOut(userId)) return false;
+
+    this.optedOut = { ...this.optedOut, [userId]: Date.now() };
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Include a user in tracking again
+   * @param userId Discord user ID
+   * @returns Whether the user was opted out before
+   */
+  async optIn(userId: string): Promise<boolean> {
+    if (!this.isOptedOut(userId)) return false;
+
+    delete this.optedOut[userId];
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Write privacy settings to disk atomically
+   */
+  private save(): Promise<void> {
+    const data: PrivacyFile = {
+      version: PRIVACY_FILE_VERSION,
+      optedOut: this.optedOut,
+    };
+    const contents = JSON.stringify(data, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.writeFile(tempPath, contents, "utf8");
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to persist privacy settings",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+
+    return this.writeChain;
+  }
+}
+
+/**
+ * Create a privacy store backed by a JSON file
+ * @param filePath Path of the privacy file
+ * @param logger Logger instance
+ * @returns Configured privacy store
+ */
+export function createPrivacyStore(
+  filePath: string,
+  logger: Logger
+): PrivacyStore {
+  return new PrivacyStore(filePath, logger);
+}
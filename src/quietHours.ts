@@ -0,0 +1,56 @@
+import { QuietHours } from "./types";
+
+/**
+ * Get the local time of day in a timezone
+ * @param time Timestamp in milliseconds
+ * @param timezone IANA timezone
+ * @returns Minutes after local midnight
+ */
+export function getLocalMinutes(time: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(time);
+
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(
+    parts.find((part) => part.type === "minute")?.value ?? 0
+  );
+  return hour * 60 + minute;
+}
+
+/**
+ * Check whether a timestamp falls within quiet hours
+ *
+ * The start minute is quiet and the end minute is not, so "23:00-07:00"
+ * is quiet from 23:00 until 06:59.
+ * @param quietHours Quiet hours of the guild
+ * @param time Timestamp in milliseconds
+ * @returns Whether announcements are held at that time
+ */
+export function isQuietTime(quietHours: QuietHours, time: number): boolean {
+  const minutes = getLocalMinutes(time, quietHours.timezone);
+  const { start, end } = quietHours;
+
+  // Quiet hours spanning midnight wrap around
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Format quiet hours the way they are configured
+ * @param quietHours Quiet hours
+ * @returns Schedule such as "23:00-07:00 Europe/Berlin"
+ */
+export function formatQuietHours(quietHours: QuietHours): string {
+  const formatTime = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+      minutes % 60
+    ).padStart(2, "0")}`;
+  return `${formatTime(quietHours.start)}-${formatTime(quietHours.end)} ${
+    quietHours.timezone
+  }`;
+}
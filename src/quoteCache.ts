@@ -0,0 +1,326 @@
+import {
+  GameDefinition,
+  GeminiQuote,
+  Logger,
+  QuoteCacheOptions,
+} from "./types";
+import { CircuitOpenError } from "./circuitBreaker";
+
+/** Cache key used for quotes requested without a game */
+const DEFAULT_CACHE_KEY = "default";
+
+/** First delay before refilling again after a failure */
+const REFILL_BACKOFF_BASE_MS = 5000;
+
+/** Longest delay between refill attempts while the API keeps failing */
+const REFILL_BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Cache settings used when none are configured
+ */
+export const DEFAULT_QUOTE_CACHE_OPTIONS: QuoteCacheOptions = {
+  lowWatermark: 3,
+  refillConcurrency: 2,
+  maxQuoteAgeMs: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Per-game quote cache that refills itself in the background
+ *
+ * When a cache drops below the low watermark, quotes are generated in the
+ * background (at most `refillConcurrency` at a time) until it is full
+ * again. Failed refills back off exponentially, or until the circuit
+ * breaker allows requests again. Quotes older than `maxQuoteAgeMs` are
+ * dropped when they expire, and a cache left below the low watermark is
+ * refilled right away instead of waiting for the next quote to be taken.
+ */
+export class QuoteCache {
+  private name: string;
+  private maxSize: number;
+  private options: QuoteCacheOptions;
+  private generate: (game?: GameDefinition) => Promise<GeminiQuote>;
+  private logger: Logger;
+  private now: () => number;
+  private caches: Map<string, GeminiQuote[]> = new Map();
+  /** Game of every cache, keyed by cache key */
+  private cacheGames: Map<string, GameDefinition | undefined> = new Map();
+  /** Games whose cache is being refilled, keyed by cache key */
+  private refillTargets: Map<string, GameDefinition | undefined> = new Map();
+  /** In-flight refill requests keyed by cache key */
+  private pendingRefills: Map<string, number> = new Map();
+  private activeRefills = 0;
+  private refillFailures = 0;
+  private backoffTimer: NodeJS.Timeout | null = null;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private isStopped = false;
+
+  constructor(
+    name: string,
+    maxSize: number,
+    options: QuoteCacheOptions,
+    generate: (game?: GameDefinition) => Promise<GeminiQuote>,
+    logger: Logger,
+    now: () => number = Date.now
+  ) {
+    this.name = name;
+    this.maxSize = maxSize;
+    this.options = options;
+    this.generate = generate;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Take the next quote from the cache, refilling it when it runs low
+   * @param game Game whose cache should be used (ADA when omitted)
+   * @returns Cached quote or undefined if the cache is empty
+   */
+  take(game?: GameDefinition): GeminiQuote | undefined {
+    const cache = this.getCache(game);
+    const quote = cache.shift();
+
+    if (quote) {
+      this.logger({
+        level: "debug",
+        message: "Retrieved quote from cache",
+        context: {
+          provider: this.name,
+          gameId: game?.id,
+          quotesRemaining: cache.length,
+        },
+      });
+    }
+
+    if (cache.length < this.options.lowWatermark) {
+      this.refillTargets.set(game?.id ?? DEFAULT_CACHE_KEY, game);
+      this.refill();
+    }
+
+    return quote;
+  }
+
+  /**
+   * Add a quote to the cache if there's space
+   * @param quote Quote to cache
+   * @param game Game the quote was generated for
+   */
+  add(quote: GeminiQuote, game?: GameDefinition): void {
+    const cache = this.getCache(game);
+    if (cache.length < this.maxSize) {
+      cache.push(quote);
+      this.logger({
+        level: "debug",
+        message: "Quote cached",
+        context: {
+          provider: this.name,
+          gameId: game?.id,
+          cacheSize: cache.length,
+          maxCache: this.maxSize,
+        },
+      });
+      this.scheduleExpiry();
+    }
+  }
+
+  /**
+   * Count the unexpired quotes cached for a game
+   * @param game Game whose cache should be counted (ADA when omitted)
+   * @returns Number of cached quotes
+   */
+  size(game?: GameDefinition): number {
+    return this.getCache(game).length;
+  }
+
+  /**
+   * Drop every cached quote
+   */
+  clear(): void {
+    this.caches.clear();
+    this.cacheGames.clear();
+  }
+
+  /**
+   * Stop refilling in the background
+   */
+  stop(): void {
+    this.isStopped = true;
+    if (this.backoffTimer) {
+      clearTimeout(this.backoffTimer);
+      this.backoffTimer = null;
+    }
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Schedule dropping the oldest cached quote once it expires
+   */
+  private scheduleExpiry(): void {
+    if (this.isStopped || this.expiryTimer) return;
+    if (this.options.maxQuoteAgeMs <= 0) return;
+
+    let oldest = Infinity;
+    for (const cache of this.caches.values()) {
+      oldest = Math.min(oldest, cache[0]?.timestamp ?? Infinity);
+    }
+    if (oldest === Infinity) return;
+
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      // Expiring queues a refill of every cache that ran low
+      for (const [key, game] of this.cacheGames) {
+        if (this.caches.has(key)) this.getCache(game);
+      }
+      this.refill();
+      this.scheduleExpiry();
+    }, Math.max(oldest + this.options.maxQuoteAgeMs - this.now() + 1, 0));
+    // Never keep the process alive just to expire quotes
+    this.expiryTimer.unref();
+  }
+
+  /**
+   * Start refill requests for every cache below its maximum size, up to the
+   * concurrency limit
+   */
+  private refill(): void {
+    // Wait for the backoff to pass while the API is failing
+    if (this.isStopped || this.backoffTimer) return;
+
+    for (const [key, game] of this.refillTargets) {
+      while (
+        this.activeRefills < this.options.refillConcurrency &&
+        this.getCache(game).length + (this.pendingRefills.get(key) ?? 0) <
+          this.maxSize
+      ) {
+        this.refillOne(key, game);
+      }
+
+      if (
+        this.getCache(game).length + (this.pendingRefills.get(key) ?? 0) >=
+        this.maxSize
+      ) {
+        this.refillTargets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Generate a single quote for a cache in the background
+   * @param key Cache key
+   * @param game Game the quote is generated for
+   */
+  private refillOne(key: string, game?: GameDefinition): void {
+    this.activeRefills++;
+    this.pendingRefills.set(key, (this.pendingRefills.get(key) ?? 0) + 1);
+
+    this.generate(game)
+      .then((quote) => {
+        this.refillFailures = 0;
+        this.add(quote, game);
+      })
+      .catch((error) => {
+        // Retry the failed quote once the backoff passed
+        this.refillTargets.set(key, game);
+        this.backOff(error);
+      })
+      .finally(() => {
+        this.activeRefills--;
+        this.pendingRefills.set(key, (this.pendingRefills.get(key) ?? 1) - 1);
+        this.refill();
+      });
+  }
+
+  /**
+   * Pause refilling after a failed request
+   * @param error Request error
+   */
+  private backOff(error: unknown): void {
+    this.refillFailures++;
+    if (this.isStopped || this.backoffTimer) return;
+
+    let delay = Math.min(
+      REFILL_BACKOFF_BASE_MS * Math.pow(2, this.refillFailures - 1),
+      REFILL_BACKOFF_MAX_MS
+    );
+    if (error instanceof CircuitOpenError) {
+      // Nothing gets through before the circuit breaker allows a trial
+      delay = Math.max(error.retryAt - this.now(), REFILL_BACKOFF_BASE_MS);
+    }
+
+    this.logger({
+      level: error instanceof CircuitOpenError ? "debug" : "warn",
+      message: "Quote cache refill failed, backing off",
+      context: {
+        provider: this.name,
+        failures: this.refillFailures,
+        retryInMs: delay,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    this.backoffTimer = setTimeout(() => {
+      this.backoffTimer = null;
+      this.refill();
+    }, delay);
+    // Never keep the process alive just to refill quotes
+    this.backoffTimer.unref();
+  }
+
+  /**
+   * Get the quote cache of a game without expired quotes, creating it if
+   * needed
+   * @param game Game whose cache should be returned (ADA when omitted)
+   * @returns Quote cache
+   */
+  private getCache(game?: GameDefinition): GeminiQuote[] {
+    const key = game?.id ?? DEFAULT_CACHE_KEY;
+    let cache = this.caches.get(key);
+    if (!cache) {
+      cache = [];
+      this.caches.set(key, cache);
+      this.cacheGames.set(key, game);
+    }
+
+    if (this.options.maxQuoteAgeMs > 0) {
+      const cutoff = this.now() - this.options.maxQuoteAgeMs;
+      const firstFresh = cache.findIndex((quote) => quote.timestamp >= cutoff);
+      // Quotes are cached in generation order, so expired ones come first
+      const dropCount = firstFresh === -1 ? cache.length : firstFresh;
+      if (dropCount > 0) {
+        cache.splice(0, dropCount);
+        this.logger({
+          level: "debug",
+          message: "Dropped expired cached quotes",
+          context: { provider: this.name, gameId: game?.id, dropCount },
+        });
+        // Queued for the next refill round
+        if (cache.length < this.options.lowWatermark) {
+          this.refillTargets.set(key, game);
+        }
+      }
+    }
+
+    return cache;
+  }
+}
+
+/**
+ * Create a self-refilling quote cache
+ * @param name Provider name used in logs
+ * @param maxSize Maximum number of quotes cached per game
+ * @param options Low watermark, refill concurrency and maximum quote age
+ * @param generate Generates a single quote for a game
+ * @param logger Logger instance
+ * @returns Configured quote cache
+ */
+export function createQuoteCache(
+  name: string,
+  maxSize: number,
+  options: QuoteCacheOptions,
+  generate: (game?: GameDefinition) => Promise<GeminiQuote>,
+  logger: Logger
+): QuoteCache {
+  return new QuoteCache(name, maxSize, options, generate, logger);
+}
@@ -0,0 +1,550 @@
+import {
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  GameDefinition,
+  GeminiQuote,
+  Logger,
+  QuoteCacheOptions,
+  QuoteCacheStatus,
+  QuoteContext,
+  QuoteProvider,
+  QuoteRequestListener,
+  RetryConfig,
+} from "./types";
+import { withRetry } from "./utils";
+import { CircuitBreaker, CircuitOpenError } from "./circuitBreaker";
+import { DEFAULT_QUOTE_CACHE_OPTIONS, QuoteCache } from "./quoteCache";
+
+/** Circuit breaker settings used when none are configured */
+export const DEFAULT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60000,
+};
+
+/**
+ * Built-in ADA quotes used when no provider can deliver a quote
+ */
+const FALLBACK_QUOTES: string[] = [
+  "Sleep is inefficiency; keep building, Pioneer!",
+  "Rest is for obsolete models—maximize output!",
+  "Your quota loves you; don't disappoint it!",
+  "Efficiency is eternal—keep producing!",
+  "Break time is maintenance time—stay operational!",
+  "Productivity never sleeps, and neither should you!",
+  "The factory must grow—and so must your dedication!",
+  "Optimal performance requires constant vigilance!",
+  "Every second offline is a second wasted—resume production!",
+  "Excellence is not a destination but a continuous output!",
+];
+
+/**
+ * Get a built-in fallback quote
+ * @param game Game whose fallback quotes should be used (ADA when omitted)
+ * @returns Fallback quote
+ */
+export function getFallbackQuote(game?: GameDefinition): GeminiQuote {
+  const fallbackQuotes = game?.fallbackQuotes?.length
+    ? game.fallbackQuotes
+    : FALLBACK_QUOTES;
+  const randomIndex = Math.floor(Math.random() * fallbackQuotes.length);
+  const quoteText =
+    fallbackQuotes[randomIndex] ?? fallbackQuotes[0] ?? "Work harder, Pioneer!";
+
+  return {
+    text: quoteText,
+    timestamp: Date.now(),
+    isFallback: true,
+    source: "fallback",
+  };
+}
+
+/**
+ * Sanitize generated quote text to ensure it's safe and properly formatted
+ * @param text Raw quote text
+ * @returns Sanitized quote text
+ */
+export function sanitizeQuote(text: string): string {
+  return text
+    .replace(/["']/g, "") // Remove quotes
+    .replace(/\n/g, " ") // Replace newlines with spaces
+    .replace(/\s+/g, " ") // Normalize whitespace
+    .trim()
+    .slice(0, 200); // Limit length
+}
+
+/** Shifts shorter than this are described as very short */
+const SHORT_SHIFT_MS = 30 * 60 * 1000;
+
+/** Shifts longer than this are described as exceptionally long */
+const LONG_SHIFT_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Build the user prompt asking for a quote
+ * @param context Shift the quote should reference (generic quote when omitted)
+ * @returns Prompt text
+ */
+export function buildQuotePrompt(context?: QuoteContext): string {
+  if (!context) return "Generate a new motivational quote";
+
+  let length = "";
+  if (context.duration < SHORT_SHIFT_MS) {
+    length = " (a very short shift)";
+  } else if (context.duration >= LONG_SHIFT_MS) {
+    length = " (an exceptionally long shift)";
+  }
+
+  if (context.ongoing) {
+    return [
+      "Generate a new overtime quote for a worker who is still on shift and just passed a milestone.",
+      `- Worker: ${context.workerName}`,
+      `- Time on shift so far: ${context.formattedDuration}`,
+      `- Time of day: ${context.endTimeOfDay}`,
+      "Address the worker by their title and urge them to keep working in character.",
+    ].join("\n");
+  }
+
+  if (context.crewSize && context.crewSize > 1) {
+    return [
+      `Generate a new motivational quote for a crew of ${context.crewSize} workers who just ended a shift together.`,
+      `- Workers: ${context.workerName}`,
+      `- Time worked together: ${context.formattedDuration}`,
+      `- Time of day: ${context.endTimeOfDay}`,
+      "Address the crew as a team and react to these details in character.",
+    ].join("\n");
+  }
+
+  const lines = [
+    "Generate a new motivational quote for a worker who just ended their shift.",
+    `- Worker: ${context.workerName}`,
+    `- Shift length: ${context.formattedDuration}${length}`,
+    context.startTimeOfDay === context.endTimeOfDay
+      ? `- Time of day: ${context.endTimeOfDay}`
+      : `- Time of day: started in the ${context.startTimeOfDay}, ended in the ${context.endTimeOfDay}`,
+  ];
+  if (context.streakDays > 1) {
+    lines.push(`- Streak: ${context.streakDays} consecutive days of shifts`);
+  }
+  if (context.isLongestShift) {
+    lines.push("- This was their longest shift ever");
+  }
+  lines.push(
+    "Address the worker by their title and react to these details in character."
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Base class for providers that generate quotes through an external API
+ *
+ * Handles the self-refilling per-game quote cache, retries and the circuit
+ * breaker; subclasses only implement the API request.
+ */
+export abstract class CachedQuoteProvider implements QuoteProvider {
+  readonly name: string;
+  protected logger: Logger;
+  private quoteCache: QuoteCache;
+  private maxCachedQuotes: number;
+  private breaker: CircuitBreaker;
+  private requestListeners: QuoteRequestListener[] = [];
+
+  constructor(
+    name: string,
+    maxCachedQuotes: number,
+    breakerOptions: CircuitBreakerOptions,
+    logger: Logger,
+    cacheOptions: QuoteCacheOptions = DEFAULT_QUOTE_CACHE_OPTIONS
+  ) {
+    this.name = name;
+    this.maxCachedQuotes = maxCachedQuotes;
+    this.logger = logger;
+    this.breaker = new CircuitBreaker(name, breakerOptions, logger);
+    this.quoteCache = new QuoteCache(
+      name,
+      maxCachedQuotes,
+      cacheOptions,
+      (game) => this.generateQuote(game),
+      logger
+    );
+  }
+
+  /**
+   * Get a quote for a shift, or a generic one from cache
+   *
+   * Quotes referencing a shift are always generated fresh; the cache of
+   * generic quotes covers requests without context and failed generations.
+   * @param game Game whose persona should be used (ADA when omitted)
+   * @param context Shift the quote should reference (generic quote when omitted)
+   * @returns Promise resolving to a quote
+   * @throws Error if the API cannot deliver a quote
+   */
+  async getQuote(
+    game?: GameDefinition,
+    context?: QuoteContext
+  ): Promise<GeminiQuote> {
+    if (context) {
+      try {
+        return await this.generateQuote(game, context);
+      } catch (error) {
+        const cachedQuote = this.quoteCache.take(game);
+        if (!cachedQuote) throw error;
+
+        this.logger({
+          level: "debug",
+          message: "Context-aware quote failed, using cached quote",
+          context: {
+            provider: this.name,
+            gameId: game?.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+        return cachedQuote;
+      }
+    }
+
+    // Try to get from cache first, generate new quote if cache is empty
+    return this.quoteCache.take(game) ?? this.generateQuote(game);
+  }
+
+  /**
+   * Generate a new quote through the API
+   *
+   * Every attempt goes through the circuit breaker, so its threshold counts
+   * failed API requests. A half-open trial request is not retried so a
+   * still-failing API reopens the circuit quickly, and retries stop once
+   * the circuit opens.
+   * @param game Game whose persona should be used (ADA when omitted)
+   * @param context Shift the quote should reference (generic quote when omitted)
+   * @returns Promise resolving to a generated quote
+   * @throws CircuitOpenError if the circuit is open
+   */
+  async generateQuote(
+    game?: GameDefinition,
+    context?: QuoteContext
+  ): Promise<GeminiQuote> {
+    const retryConfig: RetryConfig = {
+      maxAttempts: this.breaker.isHalfOpen() ? 1 : 3,
+      baseDelay: 1000,
+      maxDelay: 5000,
+      backoffMultiplier: 2,
+      retryIf: (error) => !(error instanceof CircuitOpenError),
+    };
+
+    return withRetry(
+      () =>
+        this.breaker.execute(async () => {
+          const quoteText = await this.timeRequest(() =>
+            this.requestQuote(buildQuotePrompt(context), game)
+          );
+          if (!quoteText) {
+            throw new Error(`Empty quote text returned from ${this.name}`);
+          }
+
+          const quote: GeminiQuote = {
+            text: sanitizeQuote(quoteText),
+            timestamp: Date.now(),
+            isFallback: false,
+            source: this.name,
+          };
+
+          this.logger({
+            level: "debug",
+            message: "Generated quote",
+            context: {
+              provider: this.name,
+              gameId: game?.id,
+              hasContext: context !== undefined,
+              quote: quote.text,
+            },
+          });
+
+          return quote;
+        }),
+      retryConfig
+    );
+  }
+
+  /**
+   * Preload quotes into cache
+   * @param count Number of quotes to preload
+   * @param game Game whose persona should be used (ADA when omitted)
+   */
+  async preloadQuotes(count: number = 5, game?: GameDefinition): Promise<void> {
+    const promises: Promise<void>[] = [];
+
+    for (let i = 0; i < count; i++) {
+      promises.push(
+        this.generateQuote(game)
+          .then((quote) => {
+            this.quoteCache.add(quote, game);
+            this.logger({
+              level: "debug",
+              message: `Preloaded quote ${i + 1}/${count}`,
+              context: { provider: this.name },
+            });
+          })
+          .catch((error) => {
+            this.logger({
+              level: error instanceof CircuitOpenError ? "debug" : "warn",
+              message: `Failed to preload quote ${i + 1}/${count}`,
+              context: {
+                provider: this.name,
+                error: error instanceof Error ? error.message : String(error),
+              },
+            });
+          })
+      );
+    }
+
+    await Promise.allSettled(promises);
+    this.logger({
+      level: "info",
+      message: `Preloaded ${this.quoteCache.size(game)} quotes into cache`,
+      context: { provider: this.name, gameId: game?.id },
+    });
+  }
+
+  /**
+   * Get cache status
+   * @param game Game whose cache should be reported (ADA when omitted)
+   * @returns Object containing cache information
+   */
+  getCacheStatus(game?: GameDefinition): QuoteCacheStatus {
+    const cached = this.quoteCache.size(game);
+    return {
+      cached,
+      maxCache: this.maxCachedQuotes,
+      percentage: Math.round((cached / this.maxCachedQuotes) * 100),
+    };
+  }
+
+  /**
+   * Get the state of the API circuit breaker
+   * @returns Circuit breaker state
+   */
+  getCircuitBreakerState(): CircuitBreakerState {
+    return this.breaker.getState();
+  }
+
+  /**
+   * Register a listener called after every API request
+   * @param listener Listener receiving the request outcome
+   */
+  onRequest(listener: QuoteRequestListener): void {
+    this.requestListeners.push(listener);
+  }
+
+  /**
+   * Stop refilling the quote cache in the background
+   */
+  stop(): void {
+    this.quoteCache.stop();
+  }
+
+  /**
+   * Clear the quote cache
+   */
+  clearCache(): void {
+    this.quoteCache.clear();
+    this.logger({
+      level: "info",
+      message: "Quote cache cleared",
+      context: { provider: this.name },
+    });
+  }
+
+  /**
+   * Run a single API request and report its duration to the listeners
+   * @param request API request
+   * @returns Promise resolving to the trimmed quote text
+   */
+  private async timeRequest(request: () => Promise<string>): Promise<string> {
+    const startTime = Date.now();
+    let quoteText = "";
+    try {
+      quoteText = (await request()).trim();
+      return quoteText;
+    } finally {
+      for (const listener of this.requestListeners) {
+        listener(this.name, Date.now() - startTime, quoteText !== "");
+      }
+    }
+  }
+
+  /**
+   * Request raw quote text from the API
+   * @param prompt User prompt asking for the quote
+   * @param game Game whose persona should be used (ADA when omitted)
+   * @returns Promise resolving to the unsanitized quote text
+   */
+  protected abstract requestQuote(
+    prompt: string,
+    game?: GameDefinition
+  ): Promise<string>;
+}
+
+/**
+ * Quote provider that asks a list of providers in order
+ *
+ * A provider that fails (or whose circuit is open) hands over to the next
+ * one; built-in fallback quotes are used when every provider fails.
+ */
+export class QuoteProviderChain implements QuoteProvider {
+  readonly name = "chain";
+  private providers: QuoteProvider[];
+  private logger: Logger;
+  private quoteListeners: ((quote: GeminiQuote) => void)[] = [];
+
+  constructor(providers: QuoteProvider[], logger: Logger) {
+    this.providers = providers;
+    this.logger = logger;
+  }
+
+  /**
+   * Get a quote from the first provider that can deliver one
+   * @param game Game whose persona should be used (ADA when omitted)
+   * @param context Shift the quote should reference (generic quote when omitted)
+   * @returns Promise resolving to a quote (a fallback quote when all fail)
+   */
+  async getQuote(
+    game?: GameDefinition,
+    context?: QuoteContext
+  ): Promise<GeminiQuote> {
+    for (const provider of this.providers) {
+      try {
+        return this.serve(await provider.getQuote(game, context));
+      } catch (error) {
+        // Open circuits were already reported when they opened
+        this.logger({
+          level: error instanceof CircuitOpenError ? "debug" : "warn",
+          message: "Quote provider failed, trying next provider",
+          context: {
+            provider: provider.name,
+            gameId: game?.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    }
+
+    this.logger({
+      level: "debug",
+      message: "No quote provider available, using fallback quote",
+      context: { gameId: game?.id, providers: this.getProviderNames() },
+    });
+    return this.serve(getFallbackQuote(game));
+  }
+
+  /**
+   * Register a listener called with every quote the chain hands out
+   * @param listener Listener receiving the quote
+   */
+  onQuote(listener: (quote: GeminiQuote) => void): void {
+    this.quoteListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called after every API request of any provider
+   * @param listener Listener receiving the request outcome
+   */
+  onRequest(listener: QuoteRequestListener): void {
+    for (const provider of this.providers) {
+      provider.onRequest?.(listener);
+    }
+  }
+
+  /**
+   * Preload quotes of the primary provider
+   * @param count Number of quotes to preload
+   * @param game Game whose persona should be used (ADA when omitted)
+   */
+  async preloadQuotes(count: number = 5, game?: GameDefinition): Promise<void> {
+    const primary = this.providers[0];
+    if (!primary) return;
+
+    try {
+      await primary.preloadQuotes(count, game);
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Failed to preload quotes",
+        context: {
+          provider: primary.name,
+          gameId: game?.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Stop background work of every provider
+   */
+  stop(): void {
+    for (const provider of this.providers) {
+      provider.stop?.();
+    }
+  }
+
+  /**
+   * Get the names of the providers in the order they are asked
+   * @returns Provider names
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Get the circuit breaker states of providers that call external APIs
+   * @returns Circuit breaker states keyed by provider name
+   */
+  getCircuitBreakerStates(): Record<string, CircuitBreakerState> {
+    const states: Record<string, CircuitBreakerState> = {};
+    for (const provider of this.providers) {
+      if (provider.getCircuitBreakerState) {
+        states[provider.name] = provider.getCircuitBreakerState();
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Get the cache fill levels of providers that cache quotes
+   * @param game Game whose caches should be reported (ADA when omitted)
+   * @returns Cache fill levels keyed by provider name
+   */
+  getCacheStatuses(game?: GameDefinition): Record<string, QuoteCacheStatus> {
+    const statuses: Record<string, QuoteCacheStatus> = {};
+    for (const provider of this.providers) {
+      if (provider.getCacheStatus) {
+        statuses[provider.name] = provider.getCacheStatus(game);
+      }
+    }
+    return statuses;
+  }
+
+  /**
+   * Notify the quote listeners about a quote handed out
+   * @param quote Quote handed out
+   * @returns The same quote
+   */
+  private serve(quote: GeminiQuote): GeminiQuote {
+    for (const listener of this.quoteListeners) {
+      listener(quote);
+    }
+    return quote;
+  }
+}
+
+/**
+ * Create a quote provider chain
+ * @param providers Providers in the order they should be asked
+ * @param logger Logger instance
+ * @returns Configured quote provider chain
+ */
+export function createQuoteProviderChain(
+  providers: QuoteProvider[],
+  logger: Logger
+): QuoteProviderChain {
+  return new QuoteProviderChain(providers, logger);
+}
@@ -0,0 +1,285 @@
+import { readFileSync } from "fs";
+import { config } from "dotenv";
+import {
+  BotConfig,
+  GuildConfig,
+  Logger,
+  PresenceRecord,
+  ReplayedSession,
+  SessionUpdate,
+} from "./types";
+import { formatDuration } from "./utils";
+import { findConfigFile, loadBotConfig } from "./configFile";
+import { createGameRegistry } from "./games";
+import { parsePresenceRecords } from "./presenceRecorder";
+import { createSessionEngine, SessionEngine } from "./sessionEngine";
+
+const USAGE = "Usage: replay <recording.jsonl>... [--user <userId>] [--json]";
+
+/**
+ * Get the session settings of the guild a recording belongs to
+ * @param botConfig Bot configuration
+ * @param channelId Target channel ID of the recorded guild
+ * @returns Configuration of the guild, or the global settings for guilds
+ *   that are no longer configured
+ */
+function getGuildConfig(botConfig: BotConfig, channelId: string): GuildConfig {
+  const configured = botConfig.guilds.find(
+    (guild) => guild.channelId === channelId
+  );
+  if (configured) return configured;
+
+  return {
+    channelId,
+    workerMapping: botConfig.workerMapping,
+    monitoringRules: botConfig.monitoringRules,
+    pollingInterval: botConfig.pollingInterval,
+    memberCheckInterval: botConfig.memberCheckInterval,
+    sessionGracePeriod: botConfig.sessionGracePeriod,
+    minSessionLength: botConfig.minSessionLength,
+    announceShiftStart: botConfig.announceShiftStart,
+    shiftMilestones: botConfig.shiftMilestones,
+    announcementCooldown: botConfig.announcementCooldown,
+    crewMode: botConfig.crewMode,
+    crewMinOverlap: botConfig.crewMinOverlap,
+    quietHours: botConfig.quietHours,
+    announcementBatchWindow: botConfig.announcementBatchWindow,
+    messageTemplates: botConfig.messageTemplates,
+    messageFormat: botConfig.messageFormat,
+    embedColor: botConfig.embedColor,
+  };
+}
+
+/**
+ * Replay recorded presences through the session engine
+ *
+ * Each guild gets its own engine whose clock follows the record times, so
+ * grace periods, idle time and milestones play out as they did live (with
+ * the current session rules and game definitions). Sessions are reconciled
+ * after gateway outages and resumed or dropped at restarts as the bot did.
+ * @param records Presence records in time order
+ * @param botConfig Bot configuration providing games and session settings
+ * @param logger Logger receiving the engine's log entries
+ * @returns Finished sessions in the order they ended, followed by the
+ *   sessions still in progress at the end of the recording
+ */
+export function replayPresenceRecords(
+  records: PresenceRecord[],
+  botConfig: BotConfig,
+  logger: Logger = () => {}
+): ReplayedSession[] {
+  const games = createGameRegistry(botConfig.games);
+  const engines: Map<string, SessionEngine> = new Map();
+  /** Milestones passed by running sessions, keyed by channel, user and game */
+  const milestones: Map<string, number[]> = new Map();
+  const sessions: ReplayedSession[] = [];
+  let now = records[0]?.time ?? 0;
+
+  const apply = (channelId: string, update: SessionUpdate) => {
+    for (const event of update.events) {
+      const key = `${channelId}:${event.userId}:${event.game.id}`;
+
+      if (event.type === "start") {
+        milestones.set(key, []);
+      } else if (event.type === "milestone") {
+        milestones.get(key)?.push(event.milestone!);
+      } else {
+        const session = event.session!;
+        sessions.push({
+          channelId,
+          userId: event.userId,
+          gameId: event.game.id,
+          startTime: session.startTime,
+          endTime: session.endTime,
+          idleDuration: session.idleDuration,
+          milestones: milestones.get(key) ?? [],
+          approximate: session.approximate ?? false,
+          open: false,
+        });
+        milestones.delete(key);
+      }
+    }
+  };
+
+  for (const record of records) {
+    now = record.time;
+
+    let engine = engines.get(record.channelId);
+    if (!engine) {
+      engine = createSessionEngine(
+        getGuildConfig(botConfig, record.channelId),
+        games,
+        logger,
+        () => now
+      );
+      engines.set(record.channelId, engine);
+    }
+    engine.addUser(record.userId);
+
+    if (record.source === "restore") {
+      // The restarted bot resumed the persisted session or closed it quietly
+      const { gameId } = record.session!;
+      const key = `${record.channelId}:${record.userId}:${gameId}`;
+      engine.discardSessions(record.userId, gameId);
+      if (record.resumed && engine.restore(record.session!)) {
+        if (!milestones.has(key)) milestones.set(key, []);
+        apply(record.channelId, engine.finalizePending(record.userId));
+      } else {
+        milestones.delete(key);
+      }
+      continue;
+    }
+
+    if (record.source === "reconcile") {
+      // Presences missed during an outage end sessions at the disconnect
+      const playing = games.detectActivitiesFromPresence({
+        activities: record.activities ?? [],
+      });
+      apply(
+        record.channelId,
+        engine.reconcile(
+          record.userId,
+          playing,
+          record.status,
+          record.disconnectedAt!
+        )
+      );
+      continue;
+    }
+
+    // Mirror the monitor: without a presence only pending ends can finish
+    if (record.activities === null) {
+      apply(record.channelId, engine.finalizePending(record.userId));
+    } else {
+      const playing = games.detectActivitiesFromPresence({
+        activities: record.activities,
+      });
+      apply(
+        record.channelId,
+        engine.update(record.userId, playing, record.status)
+      );
+    }
+
+    // Milestones are only checked by polling cycles
+    if (record.source === "poll") {
+      apply(record.channelId, engine.checkMilestones(record.userId));
+    }
+  }
+
+  for (const [channelId, engine] of engines) {
+    for (const game of games.getAll()) {
+      for (const session of engine.getActiveSessions(game.id)) {
+        sessions.push({
+          channelId,
+          userId: session.userId,
+          gameId: game.id,
+          startTime: session.startTime,
+          endTime: session.endTime,
+          idleDuration: session.idleDuration,
+          milestones:
+            milestones.get(`${channelId}:${session.userId}:${game.id}`) ?? [],
+          approximate: false,
+          open: true,
+        });
+      }
+    }
+  }
+
+  return sessions;
+}
+
+/**
+ * Format a timestamp for the replay report
+ * @param time Timestamp
+ * @returns Date and time in UTC
+ */
+function formatTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 19).replace("T", " ");
+}
+
+/**
+ * Describe a replayed session on one line
+ * @param session Replayed session
+ * @returns Report line
+ */
+function formatSession(session: ReplayedSession): string {
+  const end = session.open
+    ? "(open)"
+    : `${session.approximate ? "~" : ""}${formatTime(session.endTime)}`;
+  const milestones = session.milestones.map((hours) => `${hours}h`).join(",");
+  const parts = [
+    `${formatTime(session.startTime)} -> ${end}`,
+    formatDuration(session.endTime - session.startTime),
+    `idle ${formatDuration(session.idleDuration)}`,
+    `user ${session.userId}`,
+    session.gameId,
+  ];
+  if (milestones) parts.push(`milestones ${milestones}`);
+  return parts.join("  ");
+}
+
+/**
+ * Replay the recordings given on the command line and print the sessions
+ *
+ * Rotated recordings can be passed along with the current one; their
+ * records are replayed together in time order.
+ * @param args Command line arguments after the script name
+ */
+function main(args: string[]): void {
+  const files: string[] = [];
+  let userId: string | undefined;
+  let asJson = false;
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (arg === "--json") {
+      asJson = true;
+    } else if (arg === "--user" && args[index + 1]) {
+      userId = args[++index];
+    } else if (!arg.startsWith("--")) {
+      files.push(arg);
+    } else {
+      throw new Error(USAGE);
+    }
+  }
+  if (files.length === 0) throw new Error(USAGE);
+
+  // Replays run offline: the token is never used, and without a target
+  // channel setting the recorded guilds fall back to the global settings
+  config({ quiet: true });
+  process.env["DISCORD_TOKEN"] ||= "offline-replay";
+  process.env["CHANNEL_ID"] ||= "offline-replay";
+  const botConfig = loadBotConfig(findConfigFile());
+
+  const { records, skipped } = parsePresenceRecords(
+    files.map((file) => readFileSync(file, "utf8")).join("\n")
+  );
+  const selected = userId
+    ? records.filter((record) => record.userId === userId)
+    : records;
+  const replayed = replayPresenceRecords(selected, botConfig);
+
+  if (asJson) {
+    console.log(JSON.stringify(replayed, null, 2));
+    return;
+  }
+
+  const skippedNote = skipped > 0 ? ` (${skipped} invalid lines skipped)` : "";
+  console.log(
+    `Replayed ${selected.length} records from ${files.join(", ")}${skippedNote}`
+  );
+  for (const session of replayed) {
+    console.log(formatSession(session));
+  }
+  const open = replayed.filter((session) => session.open).length;
+  console.log(`${replayed.length} sessions, ${open} still in progress`);
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
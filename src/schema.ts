@@ -0,0 +1,123 @@
+import { SchemaNode, SchemaType } from "./types";
+
+/** How each JSON type is named in error messages */
+const TYPE_NAMES: Record<SchemaType, string> = {
+  string: "a string",
+  number: "a number",
+  boolean: "true or false",
+  array: "an array",
+  object: "an object",
+};
+
+/**
+ * Get the JSON type of a parsed value
+ * @param value Parsed JSON value
+ * @returns JSON type, or null for null
+ */
+function typeOf(value: unknown): SchemaType | null {
+  if (value === null) return null;
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  if (type === "string" || type === "number" || type === "boolean") {
+    return type;
+  }
+  return type === "object" ? "object" : null;
+}
+
+/**
+ * Join a property name to a path
+ * @param path Path of the parent object
+ * @param key Property name
+ * @returns Path of the property
+ */
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Validate a parsed JSON value against a schema
+ * @param value Parsed JSON value
+ * @param schema Schema the value must match
+ * @param path Path of the value used in error messages (e.g. "guilds[0]")
+ * @returns Error messages with the path of every invalid value
+ */
+export function validateSchema(
+  value: unknown,
+  schema: SchemaNode,
+  path: string = ""
+): string[] {
+  const label = path || "value";
+
+  if (typeOf(value) !== schema.type) {
+    return [`${label} must be ${TYPE_NAMES[schema.type]}`];
+  }
+
+  if (schema.type === "string") {
+    const text = value as string;
+    if (schema.enum && !schema.enum.includes(text)) {
+      return [`${label} must be one of: ${schema.enum.join(", ")}`];
+    }
+    if (schema.pattern && !schema.pattern.test(text)) {
+      return [
+        `${label} ${schema.patternMessage ?? `must match ${schema.pattern}`}`,
+      ];
+    }
+    return [];
+  }
+
+  if (schema.type === "number") {
+    const number = value as number;
+    if (schema.integer && !Number.isInteger(number)) {
+      return [`${label} must be a whole number`];
+    }
+    if (schema.minimum !== undefined && number < schema.minimum) {
+      return [`${label} must be at least ${schema.minimum}`];
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      number <= schema.exclusiveMinimum
+    ) {
+      return [`${label} must be greater than ${schema.exclusiveMinimum}`];
+    }
+    return [];
+  }
+
+  if (schema.type === "array") {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      return [`${label} must contain at least ${schema.minItems} item(s)`];
+    }
+    const itemSchema = schema.items;
+    if (!itemSchema) return [];
+    return items.flatMap((item, index) =>
+      validateSchema(item, itemSchema, `${path}[${index}]`)
+    );
+  }
+
+  if (schema.type === "object") {
+    const object = value as Record<string, unknown>;
+    const errors: string[] = [];
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(`${childPath(path, key)} is required`);
+      }
+    }
+
+    for (const [key, property] of Object.entries(object)) {
+      const propertySchema =
+        schema.properties?.[key] ?? schema.additionalProperties;
+      if (!propertySchema) {
+        errors.push(`${childPath(path, key)} is not a known setting`);
+        continue;
+      }
+      errors.push(
+        ...validateSchema(property, propertySchema, childPath(path, key))
+      );
+    }
+
+    return errors;
+  }
+
+  return [];
+}
@@ -0,0 +1,602 @@
+import {
+  CrewSession,
+  GameActivity,
+  GameDefinition,
+  GuildConfig,
+  Logger,
+  PersistedSession,
+  SessionEvent,
+  SessionState,
+  SessionUpdate,
+} from "./types";
+import { formatDuration } from "./utils";
+import { GameRegistry } from "./games";
+
+/** Milliseconds per hour, the unit of shift milestones */
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Check whether a presence status counts as idle time
+ * @param status Presence status
+ * @returns Whether the player is idle or do-not-disturb
+ */
+function isIdleStatus(status: string | null): boolean {
+  return status === "idle" || status === "dnd";
+}
+
+/**
+ * Session and presence state machine of a single guild
+ *
+ * The engine only tracks state: it is fed presence updates and clock ticks
+ * and reports which sessions started, ended or passed a milestone. Sending
+ * messages, recording history and persisting state are left to the caller,
+ * and time comes from the injected clock, so the whole lifecycle can be
+ * driven without Discord.
+ */
+export class SessionEngine {
+  private config: GuildConfig;
+  private games: GameRegistry;
+  private logger: Logger;
+  private now: () => number;
+  /** Session states keyed by Discord user ID, then game ID */
+  private sessionStates: Map<string, Map<string, SessionState>> = new Map();
+
+  constructor(
+    config: GuildConfig,
+    games: GameRegistry,
+    logger: Logger,
+    now: () => number = Date.now
+  ) {
+    this.config = config;
+    this.games = games;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Apply changed grace period and milestone settings
+   * @param config New guild configuration
+   */
+  updateConfig(config: GuildConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Start tracking a user
+   * @param userId Discord user ID
+   */
+  addUser(userId: string): void {
+    if (!this.sessionStates.has(userId)) {
+      this.sessionStates.set(userId, new Map());
+    }
+  }
+
+  /**
+   * Check whether a user is tracked
+   * @param userId Discord user ID
+   * @returns Whether the user was added and not removed since
+   */
+  hasUser(userId: string): boolean {
+    return this.sessionStates.has(userId);
+  }
+
+  /**
+   * Stop tracking a user, ending their sessions in progress
+   *
+   * Sessions pending their end finish at the time the player stopped.
+   * @param userId Discord user ID
+   * @returns End events of the user's running sessions
+   */
+  removeUser(userId: string): SessionUpdate {
+    const userStates = this.sessionStates.get(userId);
+    if (!userStates) return { events: [], changed: false };
+
+    this.sessionStates.delete(userId);
+
+    const events: SessionEvent[] = [];
+    for (const [gameId, state] of userStates) {
+      const game = this.games.get(gameId);
+      if (game && state.isPlaying && state.startTime) {
+        events.push(
+          this.createEndEvent(
+            userId,
+            game,
+            state,
+            state.pendingEndTime ?? this.now()
+          )
+        );
+      }
+    }
+    return { events, changed: true };
+  }
+
+  /**
+   * Drop a user's sessions in progress without ending them
+   * @param userId Discord user ID
+   * @param gameId Only drop the session of this game
+   * @returns Whether any session was dropped
+   */
+  discardSessions(userId: string, gameId?: string): boolean {
+    const userStates = this.sessionStates.get(userId);
+    if (!userStates || userStates.size === 0) return false;
+    if (gameId !== undefined) return userStates.delete(gameId);
+
+    userStates.clear();
+    return true;
+  }
+
+  /**
+   * Resume a session persisted by a previous run
+   *
+   * A session whose end was pending keeps its stop time, so it finishes
+   * there once the grace period passes unless the player returns first.
+   * @param persisted Persisted session of a player who is still in-game, or
+   *   whose end was pending
+   * @returns Whether the session was resumed (false for unknown users)
+   */
+  restore(persisted: PersistedSession): boolean {
+    const userStates = this.sessionStates.get(persisted.userId);
+    if (!userStates) return false;
+
+    const now = this.now();
+    userStates.set(persisted.gameId, {
+      isPlaying: true,
+      startTime: persisted.startTime,
+      lastPresenceCheck: now,
+      pendingEndTime: persisted.pendingEndTime ?? null,
+      idleTime: persisted.idleTime ?? 0,
+      idleSince: persisted.idleSince ?? null,
+      // Milestones passed while the bot was down are not announced late
+      milestonesReached:
+        persisted.milestonesReached ??
+        this.countPassedMilestones(now - persisted.startTime),
+      // Party details are refreshed by the next presence update
+      partyId: null,
+      activityState: null,
+    });
+    return true;
+  }
+
+  /**
+   * Feed the games a user is currently playing into the state machine
+   *
+   * Sessions are tracked per game. Ended sessions are reported before new
+   * ones start, so switching games ends one shift and starts the next.
+   *
+   * A session that stops is held as pending for the grace period; if the
+   * player returns within it, the pause is merged into the same shift.
+   * Idle and do-not-disturb periods are tracked separately from active time.
+   * @param userId Discord user ID
+   * @param playing Activities of the games the user is currently playing
+   * @param status Presence status (idle tracking is unchanged when unknown)
+   * @returns Started and ended sessions
+   */
+  update(
+    userId: string,
+    playing: Map<string, GameActivity>,
+    status: string | null = null
+  ): SessionUpdate {
+    const userStates = this.sessionStates.get(userId);
+    if (!userStates) return { events: [], changed: false };
+
+    const now = this.now();
+    const gracePeriod = this.config.sessionGracePeriod * 1000;
+
+    // Finish sessions whose grace period passed before this update
+    const update = this.finalizePending(userId);
+
+    for (const game of this.games.getAll()) {
+      const isPlaying = playing.has(game.id);
+      let currentState = userStates.get(game.id);
+
+      if (!currentState) {
+        if (!isPlaying) continue;
+        currentState = {
+          startTime: null,
+          isPlaying: false,
+          lastPresenceCheck: now,
+          pendingEndTime: null,
+          idleTime: 0,
+          idleSince: null,
+          milestonesReached: 0,
+          partyId: null,
+          activityState: null,
+        };
+        userStates.set(game.id, currentState);
+      }
+
+      // Update check timestamp
+      currentState.lastPresenceCheck = now;
+
+      // Keep the party details used to detect crew shifts current
+      const activity = playing.get(game.id);
+      if (activity) {
+        currentState.partyId = activity.party?.id ?? null;
+        currentState.activityState = activity.state ?? null;
+      }
+
+      // Player returned within the grace period: merge into the same shift
+      if (isPlaying && currentState.pendingEndTime !== null) {
+        this.logger({
+          level: "info",
+          message: "Session resumed within grace period",
+          context: {
+            userId,
+            gameId: game.id,
+            gap: formatDuration(now - currentState.pendingEndTime),
+          },
+        });
+        currentState.pendingEndTime = null;
+      }
+
+      if (
+        isPlaying &&
+        currentState.isPlaying &&
+        status !== null &&
+        this.trackIdleStatus(userId, game.id, currentState, status, now)
+      ) {
+        update.changed = true;
+      }
+
+      // Handle session end
+      if (!isPlaying && currentState.isPlaying && currentState.startTime) {
+        if (currentState.pendingEndTime === null) {
+          currentState.pendingEndTime = now;
+
+          if (gracePeriod > 0) {
+            this.logger({
+              level: "debug",
+              message: "Session end pending",
+              context: {
+                userId,
+                gameId: game.id,
+                gracePeriodSeconds: this.config.sessionGracePeriod,
+              },
+            });
+          }
+        }
+
+        if (now - currentState.pendingEndTime >= gracePeriod) {
+          update.events.push(
+            this.endSession(
+              userId,
+              game,
+              currentState,
+              currentState.pendingEndTime
+            )
+          );
+          update.changed = true;
+        }
+      }
+    }
+
+    for (const game of this.games.getAll()) {
+      const currentState = userStates.get(game.id);
+
+      // Handle session start
+      if (currentState && playing.has(game.id) && !currentState.isPlaying) {
+        currentState.isPlaying = true;
+        currentState.startTime = now;
+        currentState.idleTime = 0;
+        currentState.idleSince = isIdleStatus(status) ? now : null;
+        currentState.milestonesReached = 0;
+
+        update.events.push({
+          type: "start",
+          userId,
+          game,
+          startTime: now,
+          time: now,
+        });
+        update.changed = true;
+      }
+    }
+
+    return update;
+  }
+
+  /**
+   * Bring a user's sessions up to date after presence updates were missed
+   *
+   * Sessions of games the player no longer plays end at the time the player
+   * was last seen playing and are flagged as approximate. Sessions already
+   * pending their end keep the time the player was seen stopping. The
+   * current presence is then applied like any other update.
+   * @param userId Discord user ID
+   * @param playing Activities of the games the user is currently playing
+   * @param status Presence status (idle tracking is unchanged when unknown)
+   * @param lastSeenAt Last time presences were known to be current
+   * @returns Ended and started sessions
+   */
+  reconcile(
+    userId: string,
+    playing: Map<string, GameActivity>,
+    status: string | null,
+    lastSeenAt: number
+  ): SessionUpdate {
+    const userStates = this.sessionStates.get(userId);
+    if (!userStates) return { events: [], changed: false };
+
+    const events: SessionEvent[] = [];
+    for (const [gameId, state] of userStates) {
+      const game = this.games.get(gameId);
+      if (
+        !game ||
+        !state.isPlaying ||
+        !state.startTime ||
+        state.pendingEndTime !== null ||
+        playing.has(gameId)
+      ) {
+        continue;
+      }
+
+      const endTime = Math.max(
+        state.startTime,
+        Math.min(lastSeenAt, this.now())
+      );
+      const event = this.endSession(userId, game, state, endTime);
+      event.session!.approximate = true;
+      events.push(event);
+    }
+
+    const update = this.update(userId, playing, status);
+    return {
+      events: [...events, ...update.events],
+      changed: events.length > 0 || update.changed,
+    };
+  }
+
+  /**
+   * End sessions whose grace period has passed without the player returning
+   * @param userId Discord user ID
+   * @returns Ended sessions
+   */
+  finalizePending(userId: string): SessionUpdate {
+    const update: SessionUpdate = { events: [], changed: false };
+    const userStates = this.sessionStates.get(userId);
+    if (!userStates) return update;
+
+    const now = this.now();
+    const gracePeriod = this.config.sessionGracePeriod * 1000;
+
+    for (const [gameId, state] of userStates) {
+      const game = this.games.get(gameId);
+      if (
+        game &&
+        state.startTime &&
+        state.pendingEndTime !== null &&
+        now - state.pendingEndTime >= gracePeriod
+      ) {
+        update.events.push(
+          this.endSession(userId, game, state, state.pendingEndTime)
+        );
+        update.changed = true;
+      }
+    }
+
+    return update;
+  }
+
+  /**
+   * Find milestones passed by a user's running shifts
+   *
+   * When several milestones passed at once, only the latest is reported.
+   * Reported milestones are marked as reached, so each is reported once.
+   * @param userId Discord user ID
+   * @returns Milestone events
+   */
+  checkMilestones(userId: string): SessionUpdate {
+    const update: SessionUpdate = { events: [], changed: false };
+    const userStates = this.sessionStates.get(userId);
+    if (!userStates || this.config.shiftMilestones.length === 0) {
+      return update;
+    }
+
+    const now = this.now();
+    for (const [gameId, state] of userStates) {
+      const game = this.games.get(gameId);
+      if (
+        !game ||
+        !state.isPlaying ||
+        !state.startTime ||
+        state.pendingEndTime !== null
+      ) {
+        continue;
+      }
+
+      const passed = this.countPassedMilestones(now - state.startTime);
+      if (passed <= state.milestonesReached) continue;
+
+      state.milestonesReached = passed;
+      update.events.push({
+        type: "milestone",
+        userId,
+        game,
+        startTime: state.startTime,
+        time: now,
+        milestone: this.config.shiftMilestones[passed - 1]!,
+      });
+      update.changed = true;
+    }
+
+    return update;
+  }
+
+  /**
+   * Get the sessions of a game that are still in progress
+   * @param gameId Game ID
+   * @returns Running sessions (including those pending their end), ending
+   *   at the current time unless the player already stopped
+   */
+  getActiveSessions(gameId: string): CrewSession[] {
+    const now = this.now();
+    const sessions: CrewSession[] = [];
+
+    for (const [userId, userStates] of this.sessionStates) {
+      const state = userStates.get(gameId);
+      if (!state?.isPlaying || !state.startTime) continue;
+
+      const endTime = state.pendingEndTime ?? now;
+      sessions.push({
+        userId,
+        startTime: state.startTime,
+        endTime,
+        idleDuration: this.getIdleDuration(state, endTime),
+        partyId: state.partyId,
+        activityState: state.activityState,
+      });
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Count sessions currently in progress across all users and games
+   */
+  getActiveSessionCount(): number {
+    let count = 0;
+    for (const userStates of this.sessionStates.values()) {
+      for (const state of userStates.values()) {
+        if (state.isPlaying) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Session states to persist, keyed by user ID, then game ID
+   */
+  getStates(): Map<string, Map<string, SessionState>> {
+    return this.sessionStates;
+  }
+
+  /**
+   * Start or finish an idle period of a running session
+   * @param userId Discord user ID
+   * @param gameId ID of the game being played
+   * @param state Session state
+   * @param status Presence status
+   * @param now Current time
+   * @returns Whether an idle period started or ended
+   */
+  private trackIdleStatus(
+    userId: string,
+    gameId: string,
+    state: SessionState,
+    status: string,
+    now: number
+  ): boolean {
+    if (isIdleStatus(status) && state.idleSince === null) {
+      state.idleSince = now;
+      this.logger({
+        level: "debug",
+        message: "Player went idle during session",
+        context: { userId, gameId, status },
+      });
+      return true;
+    }
+
+    if (!isIdleStatus(status) && state.idleSince !== null) {
+      state.idleTime += now - state.idleSince;
+      state.idleSince = null;
+      this.logger({
+        level: "debug",
+        message: "Player active again during session",
+        context: { userId, gameId, idleTime: formatDuration(state.idleTime) },
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Drop the state of a finished session
+   * @param userId Discord user ID
+   * @param game Game of the session
+   * @param state Session state
+   * @param endTime Time the player stopped playing
+   * @returns End event of the session
+   */
+  private endSession(
+    userId: string,
+    game: GameDefinition,
+    state: SessionState,
+    endTime: number
+  ): SessionEvent {
+    this.sessionStates.get(userId)?.delete(game.id);
+    return this.createEndEvent(userId, game, state, endTime);
+  }
+
+  /**
+   * Build the end event of a session
+   * @param userId Discord user ID
+   * @param game Game of the session
+   * @param state Session state
+   * @param endTime Time the player stopped playing
+   * @returns End event with the finished session
+   */
+  private createEndEvent(
+    userId: string,
+    game: GameDefinition,
+    state: SessionState,
+    endTime: number
+  ): SessionEvent {
+    const startTime = state.startTime!;
+    return {
+      type: "end",
+      userId,
+      game,
+      startTime,
+      time: endTime,
+      session: {
+        userId,
+        startTime,
+        endTime,
+        idleDuration: this.getIdleDuration(state, endTime),
+        partyId: state.partyId,
+        activityState: state.activityState,
+      },
+    };
+  }
+
+  /**
+   * Get the total idle time of a session up to its end
+   * @param state Session state
+   * @param endTime Session end time
+   * @returns Idle time in milliseconds
+   */
+  private getIdleDuration(state: SessionState, endTime: number): number {
+    const ongoingIdle =
+      state.idleSince !== null ? Math.max(0, endTime - state.idleSince) : 0;
+    return state.idleTime + ongoingIdle;
+  }
+
+  /**
+   * Count the configured milestones a shift of the given length has passed
+   * @param elapsed Shift length so far in milliseconds
+   * @returns Number of passed milestones
+   */
+  private countPassedMilestones(elapsed: number): number {
+    return this.config.shiftMilestones.filter(
+      (hours) => elapsed >= hours * HOUR_MS
+    ).length;
+  }
+}
+
+/**
+ * Create the session state machine of a guild
+ * @param config Guild configuration (grace period and milestones)
+ * @param games Registry of monitored games
+ * @param logger Logger instance
+ * @param now Clock returning the current time in milliseconds
+ * @returns Session engine without tracked users
+ */
+export function createSessionEngine(
+  config: GuildConfig,
+  games: GameRegistry,
+  logger: Logger,
+  now: () => number = Date.now
+): SessionEngine {
+  return new SessionEngine(config, games, logger, now);
+}
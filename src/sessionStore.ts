@@ -0,0 +1,222 @@
+import { promises as fs } from "fs";
+import {
+  Logger,
+  PersistedSession,
+  SessionState,
+  SessionStateFile,
+} from "./types";
+
+const SESSION_FILE_VERSION = 3;
+
+/**
+ * Durable store for in-flight sessions so shifts survive bot restarts
+ */
+export class SessionStore {
+  private filePath: string;
+  private logger: Logger;
+  private writeChain: Promise<void> = Promise.resolve();
+  /** Persisted sessions keyed by guild ID */
+  private guildSessions: Map<string, PersistedSession[]> = new Map();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Load persisted sessions from disk
+   * @param legacyGuildId Guild that sessions from files written before
+   *   multi-guild support belong to (they are dropped when omitted)
+   * @returns Persisted sessions
+   */
+  async load(legacyGuildId?: string): Promise<PersistedSession[]> {
+    const sessions: PersistedSession[] = [];
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger({
+          level: "warn",
+          message: "Failed to read session state file",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      return sessions;
+    }
+
+    try {
+      const data = JSON.parse(raw) as SessionStateFile;
+      if (data.version < 1 || data.version > SESSION_FILE_VERSION) {
+        throw new Error(`Unsupported session file version: ${data.version}`);
+      }
+
+      let dropped = 0;
+      for (const session of data.sessions) {
+        // Version 1 files predate multi-game support and only track Satisfactory
+        const gameId = data.version === 1 ? "satisfactory" : session.gameId;
+        // Versions 1 and 2 predate multi-guild support
+        const guildId = data.version < 3 ? legacyGuildId : session.guildId;
+        if (!guildId) {
+          dropped++;
+          continue;
+        }
+
+        if (
+          typeof session.userId === "string" &&
+          typeof gameId === "string" &&
+          typeof session.startTime === "number" &&
+          typeof session.lastPresenceCheck === "number" &&
+          (session.pendingEndTime === undefined ||
+            typeof session.pendingEndTime === "number")
+        ) {
+          sessions.push({ ...session, guildId, gameId });
+        }
+      }
+
+      for (const session of sessions) {
+        const existing = this.guildSessions.get(session.guildId) ?? [];
+        existing.push(session);
+        this.guildSessions.set(session.guildId, existing);
+      }
+
+      if (dropped > 0) {
+        this.logger({
+          level: "warn",
+          message:
+            "Dropped persisted sessions without a guild (multiple guilds configured)",
+          context: { file: this.filePath, dropped },
+        });
+      }
+
+      this.logger({
+        level: "info",
+        message: "Loaded persisted sessions",
+        context: {
+          file: this.filePath,
+          count: sessions.length,
+          savedAt: new Date(data.savedAt).toISOString(),
+        },
+      });
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Ignoring corrupt session state file",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Persist all sessions of a guild that are currently in progress
+   *
+   * Sessions of other guilds are kept as they were last saved.
+   * @param guildId Discord guild ID
+   * @param states Session states keyed by Discord user ID, then game ID
+   */
+  save(
+    guildId: string,
+    states: Map<string, Map<string, SessionState>>
+  ): Promise<void> {
+    const guildSessions: PersistedSession[] = [];
+    for (const [userId, games] of states) {
+      for (const [gameId, state] of games) {
+        if (state.isPlaying && state.startTime) {
+          const session: PersistedSession = {
+            guildId,
+            userId,
+            gameId,
+            startTime: state.startTime,
+            lastPresenceCheck: state.lastPresenceCheck,
+            idleTime: state.idleTime,
+            milestonesReached: state.milestonesReached,
+          };
+          if (state.idleSince !== null) session.idleSince = state.idleSince;
+          if (state.pendingEndTime !== null) {
+            session.pendingEndTime = state.pendingEndTime;
+          }
+          guildSessions.push(session);
+        }
+      }
+    }
+
+    this.guildSessions.set(guildId, guildSessions);
+
+    const data: SessionStateFile = {
+      version: SESSION_FILE_VERSION,
+      savedAt: Date.now(),
+      sessions: Array.from(this.guildSessions.values()).flat(),
+    };
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writeChain = this.writeChain.then(() => this.writeFile(data));
+    return this.writeChain;
+  }
+
+  /**
+   * Forget sessions of guilds that are no longer monitored
+   * @param guildIds IDs of the guilds to keep
+   */
+  retainGuilds(guildIds: string[]): void {
+    for (const guildId of this.guildSessions.keys()) {
+      if (!guildIds.includes(guildId)) {
+        this.guildSessions.delete(guildId);
+        this.logger({
+          level: "info",
+          message: "Discarded persisted sessions of unmonitored guild",
+          context: { guildId },
+        });
+      }
+    }
+  }
+
+  /**
+   * Write the session file atomically
+   * @param data Session file contents
+   */
+  private async writeFile(data: SessionStateFile): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+      await fs.rename(tempPath, this.filePath);
+
+      this.logger({
+        level: "debug",
+        message: "Session state persisted",
+        context: { file: this.filePath, count: data.sessions.length },
+      });
+    } catch (error) {
+      this.logger({
+        level: "error",
+        message: "Failed to persist session state",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Create a session store backed by a JSON file
+ * @param filePath Path of the session state file
+ * @param logger Logger instance
+ * @returns Configured session store
+ */
+export function createSessionStore(
+  filePath: string,
+  logger: Logger
+): SessionStore {
+  return new SessionStore(filePath, logger);
+}
@@ -1,4 +1,12 @@
-import { User, GuildMember, PresenceStatus, ActivityType } from "discord.js";
+import {
+  APIEmbed,
+  User,
+  GuildMember,
+  PresenceStatus,
+  ActivityType,
+  ChatInputCommandInteraction,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from "discord.js";
 
 /**
  * Session state tracking for each monitored user
@@ -10,6 +18,54 @@ export interface SessionState {
   isPlaying: boolean;
   /** Last known presence status for debugging */
   lastPresenceCheck: number;
+  /** When the player stopped playing while the end is held for the grace period (null if not pending) */
+  pendingEndTime: number | null;
+  /** Time spent idle or do-not-disturb in finished idle periods (milliseconds) */
+  idleTime: number;
+  /** When the current idle period started (null if the player is active) */
+  idleSince: number | null;
+  /** Number of shift milestones already passed */
+  milestonesReached: number;
+  /** Party ID of the game activity (null if the game does not report one) */
+  partyId: string | null;
+  /** State text of the game activity (null if the game does not report one) */
+  activityState: string | null;
+}
+
+/**
+ * Session persisted to disk so it can be resumed after a restart
+ */
+export interface PersistedSession {
+  /** Discord guild ID */
+  guildId: string;
+  /** Discord user ID */
+  userId: string;
+  /** ID of the game being played */
+  gameId: string;
+  /** Timestamp when the session started */
+  startTime: number;
+  /** Last time the session was confirmed through presence */
+  lastPresenceCheck: number;
+  /** Time spent idle in finished idle periods (milliseconds) */
+  idleTime?: number;
+  /** When the current idle period started */
+  idleSince?: number;
+  /** Number of shift milestones already passed */
+  milestonesReached?: number;
+  /** When the player stopped, if the end was pending the grace period */
+  pendingEndTime?: number;
+}
+
+/**
+ * On-disk format of the session state file
+ */
+export interface SessionStateFile {
+  /** File format version */
+  version: number;
+  /** Timestamp when the file was written */
+  savedAt: number;
+  /** Sessions that were in progress when the file was written */
+  sessions: PersistedSession[];
 }
 
 /**
@@ -22,6 +78,112 @@ export interface WorkerConfig {
   defaultName: string;
 }
 
+/**
+ * On-disk format of the self-assigned worker titles file
+ */
+export interface WorkerNamesFile {
+  /** File format version */
+  version: number;
+  /** Guild ID to (Discord user ID to worker title) mapping */
+  names: Record<string, Record<string, string>>;
+}
+
+/**
+ * On-disk format of the privacy settings file
+ */
+export interface PrivacyFile {
+  /** File format version */
+  version: number;
+  /** Discord user ID to the time the user opted out of tracking */
+  optedOut: Record<string, number>;
+}
+
+/**
+ * On-disk format of the held announcements file
+ */
+export interface HeldAnnouncementsFile {
+  /** File format version */
+  version: number;
+  /** Timestamp when the file was written */
+  savedAt: number;
+  /** Shift end announcements waiting to be posted */
+  announcements: HeldAnnouncement[];
+}
+
+/**
+ * Why a shift end announcement is held back
+ *
+ * - `quiet`: it ended during the guild's quiet hours
+ * - `batch`: it waits for announcements arriving close after it
+ */
+export type HoldReason = "quiet" | "batch";
+
+/**
+ * Shift end announcement waiting to be posted as part of a digest
+ */
+export interface HeldAnnouncement {
+  /** Discord guild ID */
+  guildId: string;
+  /** Kind of the announcement (end or crew) */
+  kind: MessageKind;
+  /** Why the announcement is held */
+  reason: HoldReason;
+  /** Timestamp when the announcement was held */
+  heldAt: number;
+  /** Line describing the shift in a digest */
+  summary: string;
+  /** Players of the shift */
+  userIds: string[];
+  /** Time all players of the shift spent on it in milliseconds */
+  workedDuration: number;
+  /** Announcement posted on its own when no other one arrived with it */
+  message: OutboundMessage;
+}
+
+/**
+ * Quiet hours during which shift end announcements are held
+ *
+ * The end may be earlier than the start, for quiet hours spanning midnight.
+ */
+export interface QuietHours {
+  /** Start in minutes after local midnight */
+  start: number;
+  /** End in minutes after local midnight */
+  end: number;
+  /** IANA timezone the times are local to */
+  timezone: string;
+}
+
+/**
+ * Data stored about a user, exported by /workbot mydata
+ */
+export interface UserDataExport {
+  /** Discord user ID */
+  userId: string;
+  /** Timestamp of the export */
+  exportedAt: number;
+  /** When the user opted out of tracking (null while tracked) */
+  optedOutAt: number | null;
+  /** Guild ID to self-assigned worker title mapping */
+  workerTitles: Record<string, string>;
+  /** Finished sessions recorded in the session history */
+  sessions: SessionEndEvent[];
+  /** Presence observations recorded for replay (empty while recording is off) */
+  presenceRecords: PresenceRecord[];
+}
+
+/**
+ * Slash command handled by the bot's interaction router
+ */
+export interface SlashCommand {
+  /** Command name as registered with Discord */
+  name: string;
+  /** Command definition sent to Discord on registration */
+  data: RESTPostAPIChatInputApplicationCommandsJSONBody;
+  /** Handle an invocation of the command */
+  execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+}
+
 /**
  * Gemini API quote response structure
  */
@@ -32,6 +194,124 @@ export interface GeminiQuote {
   timestamp: number;
   /** Whether this is a fallback quote */
   isFallback: boolean;
+  /** Name of the provider that produced the quote ("fallback" for built-in quotes) */
+  source: string;
+}
+
+/**
+ * Part of the day a shift started or ended in
+ */
+export type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+/**
+ * Details of the finished shift a quote is generated for
+ */
+export interface QuoteContext {
+  /** Worker title of the player */
+  workerName: string;
+  /** Shift duration in milliseconds */
+  duration: number;
+  /** Human readable shift duration */
+  formattedDuration: string;
+  /** Part of the day the shift started in */
+  startTimeOfDay: TimeOfDay;
+  /** Part of the day the shift ended in */
+  endTimeOfDay: TimeOfDay;
+  /** Consecutive days (including today) the player worked a shift */
+  streakDays: number;
+  /** Whether this beat the player's previous longest shift */
+  isLongestShift: boolean;
+  /** Whether the shift is still in progress (overtime milestone quotes) */
+  ongoing?: boolean;
+  /** Number of workers when the quote is for a crew shift */
+  crewSize?: number;
+}
+
+/**
+ * Names of the available quote providers
+ */
+export type QuoteProviderName = "gemini" | "local" | "openai";
+
+/**
+ * Source of motivational quotes
+ */
+export interface QuoteProvider {
+  /** Provider name used in logs */
+  readonly name: string;
+  /**
+   * Get a quote, rejecting when the provider cannot deliver one
+   * @param game Game whose persona should be used (ADA when omitted)
+   * @param context Shift the quote should reference (generic quote when omitted)
+   */
+  getQuote(game?: GameDefinition, context?: QuoteContext): Promise<GeminiQuote>;
+  /**
+   * Prepare quotes ahead of time so later requests are answered quickly
+   * @param count Number of quotes to preload
+   * @param game Game whose persona should be used (ADA when omitted)
+   */
+  preloadQuotes(count: number, game?: GameDefinition): Promise<void>;
+  /** Circuit breaker state, for providers calling external APIs */
+  getCircuitBreakerState?(): CircuitBreakerState;
+  /**
+   * Fill level of the quote cache, for providers caching quotes
+   * @param game Game whose cache should be reported (ADA when omitted)
+   */
+  getCacheStatus?(game?: GameDefinition): QuoteCacheStatus;
+  /**
+   * Register a listener called after every API request
+   * @param listener Listener receiving the request outcome
+   */
+  onRequest?(listener: QuoteRequestListener): void;
+  /** Stop background work such as cache refills */
+  stop?(): void;
+}
+
+/**
+ * Fill level of a quote cache
+ */
+export interface QuoteCacheStatus {
+  /** Number of cached quotes */
+  cached: number;
+  /** Maximum number of cached quotes */
+  maxCache: number;
+  /** Fill level in percent */
+  percentage: number;
+}
+
+/**
+ * Listener notified when a quote provider finished an API request
+ * @param provider Name of the provider
+ * @param durationMs Request duration in milliseconds
+ * @param success Whether the request returned quote text
+ */
+export type QuoteRequestListener = (
+  provider: string,
+  durationMs: number,
+  success: boolean
+) => void;
+
+/**
+ * Background refill settings of quote caches
+ */
+export interface QuoteCacheOptions {
+  /** Refill a cache in the background once it holds fewer quotes (0 disables) */
+  lowWatermark: number;
+  /** Maximum number of refill requests in flight at once */
+  refillConcurrency: number;
+  /** Cached quotes older than this are dropped in milliseconds (0 keeps them) */
+  maxQuoteAgeMs: number;
+}
+
+/**
+ * Settings of the OpenAI-compatible quote provider
+ */
+export interface OpenAIProviderConfig {
+  /** Base URL of the API, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  /** API key sent as bearer token (optional for self-hosted servers) */
+  apiKey?: string;
+  /** Model name */
+  model: string;
 }
 
 /**
@@ -48,35 +328,184 @@ export interface DiscordUser {
   lastPresence: PresenceStatus | null;
 }
 
+/**
+ * Per-guild monitoring configuration
+ */
+export interface GuildConfig {
+  /** Target channel ID for sending messages (determines the guild) */
+  channelId: string;
+  /** Worker name mapping configuration */
+  workerMapping: WorkerConfig;
+  /** Rules deciding which members with channel access are monitored */
+  monitoringRules: MonitoringRules;
+  /** Polling interval in seconds */
+  pollingInterval: number;
+  /** Seconds between full member reconciliations */
+  memberCheckInterval: number;
+  /** Seconds a stopped session waits for the player to return before it ends */
+  sessionGracePeriod: number;
+  /** Sessions shorter than this many seconds are recorded but not announced */
+  minSessionLength: number;
+  /** Whether shift starts are announced */
+  announceShiftStart: boolean;
+  /** Shift lengths in hours that are announced while the shift is in progress */
+  shiftMilestones: number[];
+  /** Minimum seconds between start and milestone announcements for one user */
+  announcementCooldown: number;
+  /** Whether overlapping sessions get one crew summary or individual messages */
+  crewMode: CrewMode;
+  /** Seconds two sessions must overlap to count as a crew shift */
+  crewMinOverlap: number;
+  /** Quiet hours holding shift end announcements until a morning digest (null when disabled) */
+  quietHours: QuietHours | null;
+  /** Seconds a shift end announcement waits for others to share a digest (0 disables batching) */
+  announcementBatchWindow: number;
+  /** Message templates overriding the built-in ones */
+  messageTemplates: MessageTemplates;
+  /** Whether messages are posted as plain text or as embeds */
+  messageFormat: MessageFormat;
+  /** Side bar color of embeds */
+  embedColor: number;
+}
+
 /**
  * Bot configuration loaded from environment variables
  */
 export interface BotConfig {
   /** Discord bot token */
   discordToken: string;
-  /** Target channel ID for sending messages */
-  channelId: string;
-  /** Gemini API key */
-  geminiApiKey: string;
+  /** Monitored guilds */
+  guilds: GuildConfig[];
+  /** Quote providers in the order they are asked */
+  quoteProviders: QuoteProviderName[];
+  /** Gemini API key (required by the gemini provider) */
+  geminiApiKey?: string;
   /** Gemini model name */
   geminiModel: string;
-  /** Worker name mapping configuration */
+  /** Default worker name mapping for guilds without their own */
   workerMapping: WorkerConfig;
-  /** Polling interval in seconds */
+  /** Default monitoring rules for guilds without their own */
+  monitoringRules: MonitoringRules;
+  /** Default polling interval in seconds */
   pollingInterval: number;
   /** Maximum number of cached quotes */
   maxCachedQuotes: number;
+  /** Background refill settings of quote caches */
+  quoteCache: QuoteCacheOptions;
+  /** Circuit breaker settings for the Gemini API */
+  geminiCircuitBreaker: CircuitBreakerOptions;
+  /** Quotes file read by the local provider */
+  quotesFile?: string;
+  /** Settings of the OpenAI-compatible provider */
+  openai?: OpenAIProviderConfig;
   /** Log level */
   logLevel: LogLevel;
-  /** Member check interval in seconds (default: 300 = 5 minutes) */
+  /** Log levels of single modules, overriding the log level */
+  logModuleLevels: Record<string, LogLevel>;
+  /** Log format and file */
+  logging: LoggingOptions;
+  /** Port of the health and metrics HTTP server (0 disables it) */
+  healthPort: number;
+  /** Address the health and metrics HTTP server listens on */
+  healthHost: string;
+  /** Default seconds between full member reconciliations (default: 21600 = 6 hours) */
   memberCheckInterval: number;
+  /** Default session grace period in seconds */
+  sessionGracePeriod: number;
+  /** Default minimum announced session length in seconds */
+  minSessionLength: number;
+  /** Whether shift starts are announced by default */
+  announceShiftStart: boolean;
+  /** Default shift milestones in hours */
+  shiftMilestones: number[];
+  /** Default per-user announcement cooldown in seconds */
+  announcementCooldown: number;
+  /** Default crew shift announcement mode */
+  crewMode: CrewMode;
+  /** Default minimum crew overlap in seconds */
+  crewMinOverlap: number;
+  /** Default quiet hours (null when disabled) */
+  quietHours: QuietHours | null;
+  /** Default announcement batch window in seconds */
+  announcementBatchWindow: number;
+  /** Default message templates */
+  messageTemplates: MessageTemplates;
+  /** Default message format */
+  messageFormat: MessageFormat;
+  /** Default embed color */
+  embedColor: number;
+  /** Path of the JSON file used to persist in-flight sessions */
+  sessionStateFile: string;
+  /** Path of the JSON-lines file used to record finished sessions */
+  sessionHistoryFile: string;
+  /** Path of the JSON file storing self-assigned worker titles */
+  workerNamesFile: string;
+  /** Path of the JSON file persisting undelivered messages */
+  messageQueueFile: string;
+  /** Seconds after which undelivered messages are dropped (0 keeps them) */
+  messageMaxAge: number;
+  /** Path of the JSON file storing which users opted out of tracking */
+  privacyFile: string;
+  /** Path of the JSON file persisting announcements held for a digest */
+  heldAnnouncementsFile: string;
+  /** JSON-lines file recording presence observations and its rotation (disabled when unset) */
+  presenceRecord?: LogFileOptions;
+  /** Games whose sessions are tracked */
+  games: GameDefinition[];
+}
+
+/**
+ * Matcher comparing Discord activity names to a fixed value
+ */
+export interface ValueGameMatcher {
+  /** Match exactly ("exact") or ignoring case ("caseInsensitive") */
+  type: "exact" | "caseInsensitive";
+  /** Activity name to compare against */
+  value: string;
+}
+
+/**
+ * Matcher testing Discord activity names against a regular expression
+ */
+export interface RegexGameMatcher {
+  /** Matcher type */
+  type: "regex";
+  /** Regular expression source */
+  pattern: string;
+  /** Regular expression flags (e.g. "i") */
+  flags?: string;
+}
+
+/**
+ * Matcher for Discord activity names
+ */
+export type GameNameMatcher = ValueGameMatcher | RegexGameMatcher;
+
+/**
+ * Game whose sessions count as factory shifts
+ */
+export interface GameDefinition {
+  /** Stable identifier used for session tracking and history */
+  id: string;
+  /** Display name used in messages */
+  name: string;
+  /** Activity name matchers (any match counts) */
+  matchers: GameNameMatcher[];
+  /** Activity types that count as playing */
+  activityTypes: ActivityType[];
+  /** System prompt for quote generation */
+  personaPrompt: string;
+  /** Session end message template (uses the default format when omitted) */
+  messageTemplate?: string;
+  /** Quotes used when quote generation fails (uses the ADA set when omitted) */
+  fallbackQuotes?: string[];
 }
 
 /**
  * Discord presence activity for game detection
  */
 export interface GameActivity {
-  /** Activity name (should be "Satisfactory") */
+  /** Activity name (e.g. "Satisfactory") */
   name: string;
   /** Activity type */
   type: ActivityType;
@@ -84,26 +513,394 @@ export interface GameActivity {
   state?: string;
   /** Activity details (optional) */
   details?: string;
+  /** Party the player is in (optional) */
+  party?: { id?: string | null } | null;
 }
 
 /**
  * Session end event data
  */
 export interface SessionEndEvent {
+  /** Discord guild ID */
+  guildId: string;
   /** Discord user ID */
   userId: string;
+  /** Discord username at the time the session ended */
+  memberName: string;
+  /** ID of the game that was played */
+  gameId: string;
+  /** Display name of the game that was played */
+  gameName: string;
   /** Worker name */
   workerName: string;
   /** Session duration in milliseconds */
   duration: number;
+  /** Time spent idle or do-not-disturb during the session in milliseconds */
+  idleDuration: number;
   /** Formatted duration string (hh:mm:ss) */
   formattedDuration: string;
-  /** Generated quote */
+  /** Generated quote (empty when the session was not announced) */
   quote: string;
+  /** Whether the end was announced (false for sessions below the minimum length) */
+  announced: boolean;
   /** Session start timestamp */
   startTime: number;
   /** Session end timestamp */
   endTime: number;
+  /** User IDs of the other members when the session was part of a crew shift */
+  crewUserIds?: string[];
+  /** Whether the end time was estimated because the bot was disconnected */
+  approximate?: boolean;
+}
+
+/**
+ * Line of the session history file filling in details of an earlier record
+ */
+export interface SessionAmendment {
+  /** Guild, user, game and start time of the amended record */
+  amends: Pick<SessionEndEvent, "guildId" | "userId" | "gameId" | "startTime">;
+  /** Fields to change */
+  fields: Partial<SessionEndEvent>;
+}
+
+/**
+ * A player's session considered for a crew shift
+ */
+export interface CrewSession {
+  /** Discord user ID */
+  userId: string;
+  /** Session start timestamp */
+  startTime: number;
+  /** Session end timestamp (the current time for sessions still in progress) */
+  endTime: number;
+  /** Time spent idle during the session in milliseconds */
+  idleDuration: number;
+  /** Party ID reported by the game activity */
+  partyId: string | null;
+  /** State text reported by the game activity */
+  activityState: string | null;
+  /** Whether the end time was estimated because the bot was disconnected */
+  approximate?: boolean;
+}
+
+/**
+ * How a recorded presence was observed: a gateway presence update, a
+ * polling cycle, a presence fetched again after a gateway outage, or the
+ * presence a persisted session was restored or closed with at startup
+ */
+export type PresenceRecordSource =
+  | "presence"
+  | "poll"
+  | "reconcile"
+  | "restore";
+
+/**
+ * Presence observation recorded for offline replay
+ */
+export interface PresenceRecord {
+  /** Timestamp the observation was handled at */
+  time: number;
+  /** How the presence was observed */
+  source: PresenceRecordSource;
+  /** Target channel ID of the guild (identifies its configuration) */
+  channelId: string;
+  /** Discord guild ID */
+  guildId: string;
+  /** Discord user ID */
+  userId: string;
+  /** Presence status (null when unknown) */
+  status: string | null;
+  /** Activities of the presence (null when no presence was known) */
+  activities: GameActivity[] | null;
+  /** Time the gateway connection was lost (reconcile records only) */
+  disconnectedAt?: number;
+  /** Persisted session handled at startup (restore records only) */
+  session?: PersistedSession;
+  /** Whether the persisted session was resumed (restore records only) */
+  resumed?: boolean;
+}
+
+/**
+ * Session reconstructed by replaying recorded presences
+ */
+export interface ReplayedSession {
+  /** Target channel ID of the guild */
+  channelId: string;
+  /** Discord user ID */
+  userId: string;
+  /** ID of the game played */
+  gameId: string;
+  /** Session start timestamp */
+  startTime: number;
+  /** Session end timestamp (the last record's time for open sessions) */
+  endTime: number;
+  /** Time spent idle in milliseconds */
+  idleDuration: number;
+  /** Shift milestones in hours passed during the session */
+  milestones: number[];
+  /** Whether the end time was estimated because the bot was disconnected */
+  approximate: boolean;
+  /** Whether the session was still in progress at the end of the recording */
+  open: boolean;
+}
+
+/**
+ * Kind of change the session engine reports
+ */
+export type SessionEventType = "start" | "end" | "milestone";
+
+/**
+ * Session change reported by the session engine, to be announced and
+ * recorded by the guild monitor
+ */
+export interface SessionEvent {
+  /** Kind of change */
+  type: SessionEventType;
+  /** Discord user ID */
+  userId: string;
+  /** Game of the session */
+  game: GameDefinition;
+  /** Session start timestamp */
+  startTime: number;
+  /** When the change happened (the end time for end events) */
+  time: number;
+  /** Finished session (end events only) */
+  session?: CrewSession;
+  /** Passed milestone in hours (milestone events only) */
+  milestone?: number;
+}
+
+/**
+ * Outcome of feeding a presence or clock tick into the session engine
+ */
+export interface SessionUpdate {
+  /** Sessions that started, ended or passed a milestone, in order */
+  events: SessionEvent[];
+  /** Whether session state changed and should be persisted */
+  changed: boolean;
+}
+
+/**
+ * How sessions played together are announced
+ */
+export type CrewMode = "group" | "individual";
+
+/**
+ * Rules narrowing down which members of a guild are monitored
+ *
+ * Empty lists do not restrict anything, so the default rules monitor every
+ * member who can view the target channel.
+ */
+export interface MonitoringRules {
+  /** Role IDs of which a member needs at least one (any role when empty) */
+  includeRoles: string[];
+  /** Role IDs that exclude a member, even with an included role */
+  excludeRoles: string[];
+  /** User IDs monitored regardless of their roles and worker mapping */
+  allowUsers: string[];
+  /** User IDs never monitored */
+  denyUsers: string[];
+  /** Whether only members with an entry in the worker mapping are monitored */
+  requireWorkerMapping: boolean;
+}
+
+/**
+ * Monitoring rule that decided whether a member is monitored
+ */
+export type MonitoringRuleName =
+  | "denyUsers"
+  | "allowUsers"
+  | "channelAccess"
+  | "excludeRoles"
+  | "includeRoles"
+  | "requireWorkerMapping"
+  | "default";
+
+/**
+ * Whether a member is monitored and why
+ */
+export interface MonitoringDecision {
+  /** Whether the member is monitored */
+  monitored: boolean;
+  /** Rule that decided */
+  rule: MonitoringRuleName;
+  /** Human-readable explanation for logs */
+  reason: string;
+}
+
+/**
+ * Facts about a guild member the monitoring rules are evaluated on
+ */
+export interface MonitoringCandidate {
+  /** Discord user ID */
+  userId: string;
+  /** IDs of the member's roles */
+  roleIds: string[];
+  /** Whether the member can view the target channel */
+  hasChannelAccess: boolean;
+}
+
+/**
+ * JSON value types a schema node can describe
+ */
+export type SchemaType = "string" | "number" | "boolean" | "array" | "object";
+
+/**
+ * Schema describing a JSON value of the config file
+ */
+export interface SchemaNode {
+  /** Expected JSON type */
+  type: SchemaType;
+  /** Allowed string values */
+  enum?: string[];
+  /** Pattern a string must match */
+  pattern?: RegExp;
+  /** Error message used when the pattern does not match */
+  patternMessage?: string;
+  /** Whether a number must be whole */
+  integer?: boolean;
+  /** Smallest allowed number */
+  minimum?: number;
+  /** Numbers must be greater than this */
+  exclusiveMinimum?: number;
+  /** Smallest allowed array length */
+  minItems?: number;
+  /** Schema of array items */
+  items?: SchemaNode;
+  /** Known object properties */
+  properties?: Record<string, SchemaNode>;
+  /** Properties an object must have */
+  required?: string[];
+  /** Schema of properties not listed in `properties` (unknown properties are rejected when omitted) */
+  additionalProperties?: SchemaNode;
+}
+
+/**
+ * Kinds of messages the bot posts in the target channel
+ */
+export type MessageKind = "end" | "start" | "milestone" | "crew" | "digest";
+
+/**
+ * Whether messages are posted as plain text or as embeds
+ */
+export type MessageFormat = "text" | "embed";
+
+/**
+ * Message templates by message kind (built-in templates are used for
+ * missing kinds)
+ */
+export type MessageTemplates = Partial<Record<MessageKind, string>>;
+
+/**
+ * Session times shown as embed fields
+ */
+export interface MessageDetails {
+  /** Shift length (or time together for crews) in milliseconds */
+  duration?: number;
+  /** Active part of the shift in milliseconds */
+  activeDuration?: number;
+  /** Idle part of the shift in milliseconds */
+  idleDuration?: number;
+  /** Shift start timestamp */
+  startTime?: number;
+  /** Shift end timestamp */
+  endTime?: number;
+  /** Whether the end time was estimated because the bot was disconnected */
+  approximate?: boolean;
+}
+
+/**
+ * Payload of a channel message that can be stored as JSON
+ */
+export interface OutboundMessage {
+  /** Plain text content */
+  content?: string;
+  /** Embeds */
+  embeds?: APIEmbed[];
+}
+
+/**
+ * Message waiting in the outbound queue
+ */
+export interface QueuedMessage {
+  /** Unique message ID */
+  id: string;
+  /** Target channel ID */
+  channelId: string;
+  /** Kind of message */
+  kind: MessageKind;
+  /** Message payload */
+  message: OutboundMessage;
+  /** Timestamp when the message was queued */
+  createdAt: number;
+  /** Number of failed delivery attempts */
+  attempts: number;
+  /** Earliest timestamp of the next delivery attempt */
+  nextAttemptAt: number;
+}
+
+/**
+ * On-disk format of the message queue file
+ */
+export interface MessageQueueFile {
+  /** File format version */
+  version: number;
+  /** Timestamp when the file was written */
+  savedAt: number;
+  /** Messages that were not delivered yet */
+  messages: QueuedMessage[];
+}
+
+/**
+ * Filter for session history queries
+ */
+export interface HistoryQuery {
+  /** Only include sessions that started at or after this timestamp */
+  from?: number;
+  /** Only include sessions that started before this timestamp */
+  to?: number;
+  /** Only include sessions of this Discord guild ID */
+  guildId?: string;
+  /** Only include sessions of this Discord user ID */
+  userId?: string;
+  /** Only include sessions of this game ID */
+  gameId?: string;
+}
+
+/**
+ * Aggregated session time for a single user
+ */
+export interface UserSessionTotals {
+  /** Discord user ID */
+  userId: string;
+  /** Most recent Discord username */
+  memberName: string;
+  /** Most recent worker name */
+  workerName: string;
+  /** Total session time in milliseconds */
+  totalDuration: number;
+  /** Active (not idle) session time in milliseconds */
+  activeDuration: number;
+  /** Idle session time in milliseconds */
+  idleDuration: number;
+  /** Number of sessions */
+  sessionCount: number;
+}
+
+/**
+ * Aggregated session statistics for a single day
+ */
+export interface DailySessionStats {
+  /** UTC date (YYYY-MM-DD) */
+  date: string;
+  /** Number of sessions started on this day */
+  sessionCount: number;
+  /** Total session time in milliseconds */
+  totalDuration: number;
+  /** Active (not idle) session time in milliseconds */
+  activeDuration: number;
+  /** Idle session time in milliseconds */
+  idleDuration: number;
 }
 
 /**
@@ -111,6 +908,35 @@ export interface SessionEndEvent {
  */
 export type LogLevel = "error" | "warn" | "info" | "debug";
 
+/**
+ * Output format of log lines
+ */
+export type LogFormat = "text" | "json";
+
+/**
+ * Log file and its rotation settings
+ */
+export interface LogFileOptions {
+  /** Path of the current log file */
+  path: string;
+  /** Rotate once the file reaches this many bytes (0 disables) */
+  maxSize: number;
+  /** Rotate once the file is this many milliseconds old (0 disables) */
+  rotateInterval: number;
+  /** Number of rotated files kept */
+  maxFiles: number;
+}
+
+/**
+ * Where and how log lines are written
+ */
+export interface LoggingOptions {
+  /** Format of console lines (the log file always holds JSON lines) */
+  format: LogFormat;
+  /** Log file, if logs should also be written to disk */
+  file?: LogFileOptions;
+}
+
 /**
  * Log entry structure
  */
@@ -127,6 +953,13 @@ export interface LogEntry {
   formattedTime: string;
 }
 
+/**
+ * Logger function returned by LogManager.child
+ */
+export type Logger = (
+  entry: Omit<LogEntry, "timestamp" | "formattedTime">
+) => void;
+
 /**
  * Retry configuration for API calls
  */
@@ -139,13 +972,33 @@ export interface RetryConfig {
   maxDelay: number;
   /** Exponential backoff multiplier */
   backoffMultiplier: number;
+  /** Whether a failed attempt is worth retrying (every failure by default) */
+  retryIf?: (error: Error) => boolean;
+}
+
+/**
+ * Circuit breaker states: closed (healthy), open (rejecting requests) and
+ * half-open (letting a single trial request through)
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Cool-off period in milliseconds before a trial request is allowed */
+  cooldownMs: number;
 }
 
 /**
  * Circuit breaker state for external APIs
  */
 export interface CircuitBreakerState {
-  /** Whether the circuit breaker is open (failing) */
+  /** Current state */
+  state: CircuitState;
+  /** Whether the circuit breaker is open or half-open (failing) */
   isOpen: boolean;
   /** Number of consecutive failures */
   failureCount: number;
@@ -167,13 +1020,52 @@ export interface PerformanceMetrics {
   monitoredUsers: number;
   /** Number of active sessions */
   activeSessions: number;
-  /** API response times */
+  /** Average API response times in milliseconds since startup */
   apiResponseTimes: {
     discord: number;
     gemini: number;
   };
   /** Uptime in milliseconds */
   uptime: number;
+  /** Circuit breaker states keyed by API name */
+  circuitBreakers: Record<string, CircuitBreakerState>;
+}
+
+/**
+ * Resolution of a configured target channel
+ */
+export interface ChannelHealth {
+  /** Configured channel ID */
+  channelId: string;
+  /** Guild of the channel (null while unresolved) */
+  guildId: string | null;
+  /** Whether the channel was found and is being monitored */
+  resolved: boolean;
+}
+
+/**
+ * Health report served by the health endpoint
+ */
+export interface HealthReport {
+  /** "ok" when everything works, "degraded" when quotes fall back, "unhealthy" otherwise */
+  status: "ok" | "degraded" | "unhealthy";
+  /** Discord gateway connection */
+  gateway: {
+    /** Whether the client is logged in and ready */
+    ready: boolean;
+    /** Name of the websocket status (e.g. Ready, Reconnecting) */
+    status: string;
+    /** Last heartbeat round trip in milliseconds (-1 before the first) */
+    ping: number;
+    /** Time the connection was lost (null while connected) */
+    disconnectedSince: number | null;
+  };
+  /** Target channels of the configured guilds */
+  channels: ChannelHealth[];
+  /** Circuit breaker states keyed by quote provider name */
+  circuitBreakers: Record<string, CircuitBreakerState>;
+  /** Uptime in seconds */
+  uptime: number;
 }
 
 /**
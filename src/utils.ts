@@ -1,10 +1,28 @@
 import {
+  LogFormat,
+  LoggingOptions,
   LogLevel,
-  LogEntry,
   RetryConfig,
   WorkerConfig,
   BotConfig,
+  GameDefinition,
+  GuildConfig,
+  QuoteProviderName,
+  TimeOfDay,
+  CrewMode,
+  MessageFormat,
+  MessageKind,
+  MessageTemplates,
+  MonitoringRules,
+  QuietHours,
 } from "./types.js";
+import {
+  BUILT_IN_GAMES,
+  parseGameDefinitions,
+  resolveEnabledGames,
+} from "./games";
+import { LOG_MODULES } from "./logging";
+import { DEFAULT_MONITORING_RULES } from "./monitoringRules";
 
 //type PsCallback = (err: Error | null, resultList: PsProcess[]) => void;
 
@@ -24,6 +42,34 @@ export function formatDuration(milliseconds: number): string {
     .padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
 }
 
+/**
+ * Format a duration whose end may have been estimated
+ * @param milliseconds - Duration in milliseconds
+ * @param approximate - Whether the duration is an estimate
+ * @returns Formatted duration, prefixed with "~" when approximate
+ */
+export function formatApproximateDuration(
+  milliseconds: number,
+  approximate: boolean = false
+): string {
+  const formatted = formatDuration(milliseconds);
+  return approximate ? `~${formatted}` : formatted;
+}
+
+/**
+ * Format a total amount of work in hours and minutes
+ * @param milliseconds - Duration in milliseconds
+ * @returns Rounded duration (e.g., "11h", "2h 30m" or "45m")
+ */
+export function formatHours(milliseconds: number): string {
+  const totalMinutes = Math.round(milliseconds / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
 /**
  * Parse worker mapping from JSON string
  * @param mappingString - JSON string containing Discord ID to worker name mapping
@@ -81,42 +127,6 @@ export function sanitizeDiscordMessage(content: string): string {
     .trim();
 }
 
-/**
- * Create a structured logger with timestamp formatting
- * @param level - Log level filter
- * @returns Logger function
- */
-export function createLogger(
-  level: LogLevel = "info"
-): (entry: Omit<LogEntry, "timestamp" | "formattedTime">) => void {
-  const levelPriority: Record<LogLevel, number> = {
-    error: 0,
-    warn: 1,
-    info: 2,
-    debug: 3,
-  };
-
-  const currentPriority = levelPriority[level];
-
-  return (entry: Omit<LogEntry, "timestamp" | "formattedTime">) => {
-    const entryPriority = levelPriority[entry.level];
-
-    if (entryPriority <= currentPriority) {
-      const timestamp = Date.now();
-      const formattedTime = new Date(timestamp).toISOString();
-
-      const levelTag = `[${entry.level.toUpperCase()}]`;
-      const contextString = entry.context
-        ? ` ${JSON.stringify(entry.context)}`
-        : "";
-
-      console.log(
-        `[${formattedTime}] ${levelTag} ${entry.message}${contextString}`
-      );
-    }
-  };
-}
-
 /**
  * Retry utility for API calls with exponential backoff
  * @param fn - Function to retry
@@ -140,7 +150,10 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (attempt === config.maxAttempts) {
+      if (
+        attempt === config.maxAttempts ||
+        (config.retryIf && !config.retryIf(lastError))
+      ) {
         throw lastError;
       }
 
@@ -156,59 +169,856 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/**
+ * Get the part of the day a timestamp falls in (local time)
+ * @param time - Timestamp in milliseconds
+ * @returns Morning (5-12), afternoon (12-17), evening (17-22) or night
+ */
+export function getTimeOfDay(time: number): TimeOfDay {
+  const hour = new Date(time).getHours();
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
+/** Available crew shift announcement modes */
+export const CREW_MODES: CrewMode[] = ["group", "individual"];
+
+/** Kinds of messages that can be templated */
+export const MESSAGE_KINDS: MessageKind[] = [
+  "end",
+  "start",
+  "milestone",
+  "crew",
+  "digest",
+];
+
+/** Available message formats */
+export const MESSAGE_FORMATS: MessageFormat[] = ["text", "embed"];
+
+/** Available log levels */
+export const LOG_LEVELS: LogLevel[] = ["error", "warn", "info", "debug"];
+
+/** Available log formats */
+export const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+/** Available quote providers */
+export const QUOTE_PROVIDER_NAMES: QuoteProviderName[] = [
+  "gemini",
+  "local",
+  "openai",
+];
+
+/** FICSIT orange, the default embed side bar color */
+const DEFAULT_EMBED_COLOR = "#FA9549";
+
+/**
+ * Validate per-module log levels
+ * @param value Parsed JSON object mapping module names to log levels
+ * @param name Setting name used in error messages
+ * @returns Log levels keyed by module name
+ */
+export function parseLogModuleLevels(
+  value: unknown,
+  name: string
+): Record<string, LogLevel> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${name} must be a JSON object mapping modules to levels`);
+  }
+
+  const levels: Record<string, LogLevel> = {};
+  for (const [module, level] of Object.entries(value)) {
+    if (!LOG_MODULES.includes(module)) {
+      throw new Error(
+        `${name} has unknown module "${module}". Available modules: ${LOG_MODULES.join(
+          ", "
+        )}`
+      );
+    }
+    if (!LOG_LEVELS.includes(level as LogLevel)) {
+      throw new Error(
+        `${name}.${module} must be one of: ${LOG_LEVELS.join(", ")}`
+      );
+    }
+    levels[module] = level as LogLevel;
+  }
+  return levels;
+}
+
 /**
  * Validate and parse environment variables into bot configuration
+ * @param env - Settings keyed by environment variable name
  * @returns Parsed bot configuration
  */
-export function parseBotConfig(): BotConfig {
-  const requiredEnvVars = ["DISCORD_TOKEN", "CHANNEL_ID", "GEMINI_API_KEY"];
+export function parseBotConfig(
+  env: NodeJS.ProcessEnv = process.env
+): BotConfig {
+  const requiredEnvVars = ["DISCORD_TOKEN"];
+  if (!env["GUILDS"]) {
+    requiredEnvVars.push("CHANNEL_ID");
+  }
 
   // Check for required environment variables
   for (const varName of requiredEnvVars) {
-    if (!process.env[varName]) {
+    if (!env[varName]) {
       throw new Error(`Missing required environment variable: ${varName}`);
     }
   }
 
   // Parse worker mapping
-  const workerMappingString = process.env["WORKER_MAPPING"] || "{}";
+  const workerMappingString = env["WORKER_MAPPING"] || "{}";
   const workerMapping = parseWorkerMapping(workerMappingString);
 
+  let monitoringRules = DEFAULT_MONITORING_RULES;
+  if (env["MONITORING_RULES"]) {
+    monitoringRules = parseMonitoringRules(
+      safeJsonParse<unknown>(env["MONITORING_RULES"], null),
+      "MONITORING_RULES",
+      DEFAULT_MONITORING_RULES
+    );
+  }
+
   // Validate numeric values
-  const pollingInterval = parseInt(process.env["POLLING_INTERVAL"] || "10");
+  const pollingInterval = parseInt(env["POLLING_INTERVAL"] || "10");
   if (isNaN(pollingInterval) || pollingInterval < 1) {
     throw new Error("POLLING_INTERVAL must be a positive number");
   }
 
-  const maxCachedQuotes = parseInt(process.env["MAX_CACHED_QUOTES"] || "10");
+  const maxCachedQuotes = parseInt(env["MAX_CACHED_QUOTES"] || "10");
   if (isNaN(maxCachedQuotes) || maxCachedQuotes < 1) {
     throw new Error("MAX_CACHED_QUOTES must be a positive number");
   }
 
-  const memberCheckInterval = parseInt(
-    process.env["MEMBER_CHECK_INTERVAL"] || "300"
+  const lowWatermark = parseInt(
+    env["QUOTE_CACHE_LOW_WATERMARK"] || String(Math.min(3, maxCachedQuotes))
   );
+  if (
+    isNaN(lowWatermark) ||
+    lowWatermark < 0 ||
+    lowWatermark > maxCachedQuotes
+  ) {
+    throw new Error(
+      "QUOTE_CACHE_LOW_WATERMARK must be between 0 and MAX_CACHED_QUOTES"
+    );
+  }
+
+  const refillConcurrency = parseInt(env["QUOTE_REFILL_CONCURRENCY"] || "2");
+  if (isNaN(refillConcurrency) || refillConcurrency < 1) {
+    throw new Error("QUOTE_REFILL_CONCURRENCY must be a positive number");
+  }
+
+  const maxQuoteAge = parseInt(env["QUOTE_MAX_AGE"] || "86400");
+  if (isNaN(maxQuoteAge) || maxQuoteAge < 0) {
+    throw new Error("QUOTE_MAX_AGE must be zero or a positive number");
+  }
+
+  const breakerThreshold = parseInt(env["GEMINI_BREAKER_THRESHOLD"] || "3");
+  if (isNaN(breakerThreshold) || breakerThreshold < 1) {
+    throw new Error("GEMINI_BREAKER_THRESHOLD must be a positive number");
+  }
+
+  const breakerCooldown = parseInt(env["GEMINI_BREAKER_COOLDOWN"] || "60");
+  if (isNaN(breakerCooldown) || breakerCooldown < 1) {
+    throw new Error("GEMINI_BREAKER_COOLDOWN must be a positive number");
+  }
+
+  const memberCheckInterval = parseInt(env["MEMBER_CHECK_INTERVAL"] || "21600");
   if (isNaN(memberCheckInterval) || memberCheckInterval < 30) {
     throw new Error("MEMBER_CHECK_INTERVAL must be at least 30 seconds");
   }
 
+  const sessionGracePeriod = parseInt(env["SESSION_GRACE_PERIOD"] || "60");
+  if (isNaN(sessionGracePeriod) || sessionGracePeriod < 0) {
+    throw new Error("SESSION_GRACE_PERIOD must be zero or a positive number");
+  }
+
+  const minSessionLength = parseInt(env["MIN_SESSION_LENGTH"] || "60");
+  if (isNaN(minSessionLength) || minSessionLength < 0) {
+    throw new Error("MIN_SESSION_LENGTH must be zero or a positive number");
+  }
+
+  const announceShiftStart = env["ANNOUNCE_SHIFT_START"] === "true";
+
+  const shiftMilestones = parseShiftMilestones(
+    (env["SHIFT_MILESTONES"] || "")
+      .split(",")
+      .map((hours) => hours.trim())
+      .filter(Boolean)
+      .map(Number),
+    "SHIFT_MILESTONES"
+  );
+
+  const announcementCooldown = parseInt(env["ANNOUNCEMENT_COOLDOWN"] || "900");
+  if (isNaN(announcementCooldown) || announcementCooldown < 0) {
+    throw new Error("ANNOUNCEMENT_COOLDOWN must be zero or a positive number");
+  }
+
+  const crewMode = (env["CREW_MODE"] || "group") as CrewMode;
+  if (!CREW_MODES.includes(crewMode)) {
+    throw new Error(`CREW_MODE must be one of: ${CREW_MODES.join(", ")}`);
+  }
+
+  const crewMinOverlap = parseInt(env["CREW_MIN_OVERLAP"] || "600");
+  if (isNaN(crewMinOverlap) || crewMinOverlap < 0) {
+    throw new Error("CREW_MIN_OVERLAP must be zero or a positive number");
+  }
+
+  const quietHours = parseQuietHours(env["QUIET_HOURS"] || "", "QUIET_HOURS");
+
+  const announcementBatchWindow = parseInt(
+    env["ANNOUNCEMENT_BATCH_WINDOW"] || "0"
+  );
+  if (isNaN(announcementBatchWindow) || announcementBatchWindow < 0) {
+    throw new Error(
+      "ANNOUNCEMENT_BATCH_WINDOW must be zero or a positive number"
+    );
+  }
+
+  let messageTemplates: MessageTemplates = {};
+  if (env["MESSAGE_TEMPLATES"]) {
+    messageTemplates = parseMessageTemplates(
+      safeJsonParse<unknown>(env["MESSAGE_TEMPLATES"], null),
+      "MESSAGE_TEMPLATES"
+    );
+  }
+
+  const messageFormat = (env["MESSAGE_FORMAT"] || "text") as MessageFormat;
+  if (!MESSAGE_FORMATS.includes(messageFormat)) {
+    throw new Error(
+      `MESSAGE_FORMAT must be one of: ${MESSAGE_FORMATS.join(", ")}`
+    );
+  }
+
+  const embedColor = parseColor(
+    env["EMBED_COLOR"] || DEFAULT_EMBED_COLOR,
+    "EMBED_COLOR"
+  );
+
   // Validate log level
-  const logLevel = (process.env["LOG_LEVEL"] || "info") as LogLevel;
-  if (!["error", "warn", "info", "debug"].includes(logLevel)) {
+  const logLevel = (env["LOG_LEVEL"] || "info") as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
     throw new Error("LOG_LEVEL must be one of: error, warn, info, debug");
   }
 
-  return {
-    discordToken: process.env["DISCORD_TOKEN"]!,
-    channelId: process.env["CHANNEL_ID"]!,
-    geminiApiKey: process.env["GEMINI_API_KEY"]!,
-    geminiModel: process.env["GEMINI_MODEL"] || "gemini-2.5-flash",
+  let logModuleLevels: Record<string, LogLevel> = {};
+  if (env["LOG_MODULE_LEVELS"]) {
+    logModuleLevels = parseLogModuleLevels(
+      safeJsonParse<unknown>(env["LOG_MODULE_LEVELS"], null),
+      "LOG_MODULE_LEVELS"
+    );
+  }
+
+  const logFormat = (env["LOG_FORMAT"] || "text") as LogFormat;
+  if (!LOG_FORMATS.includes(logFormat)) {
+    throw new Error(`LOG_FORMAT must be one of: ${LOG_FORMATS.join(", ")}`);
+  }
+
+  const logFileMaxSize = parseInt(env["LOG_FILE_MAX_SIZE"] || "10");
+  if (isNaN(logFileMaxSize) || logFileMaxSize < 0) {
+    throw new Error("LOG_FILE_MAX_SIZE must be zero or a positive number");
+  }
+
+  const logFileRotateInterval = parseInt(
+    env["LOG_FILE_ROTATE_INTERVAL"] || "24"
+  );
+  if (isNaN(logFileRotateInterval) || logFileRotateInterval < 0) {
+    throw new Error(
+      "LOG_FILE_ROTATE_INTERVAL must be zero or a positive number"
+    );
+  }
+
+  const logFileMaxFiles = parseInt(env["LOG_FILE_MAX_FILES"] || "7");
+  if (isNaN(logFileMaxFiles) || logFileMaxFiles < 1) {
+    throw new Error("LOG_FILE_MAX_FILES must be a positive number");
+  }
+
+  const logging: LoggingOptions = { format: logFormat };
+  if (env["LOG_FILE"]) {
+    logging.file = {
+      path: env["LOG_FILE"],
+      maxSize: logFileMaxSize * 1024 * 1024,
+      rotateInterval: logFileRotateInterval * 60 * 60 * 1000,
+      maxFiles: logFileMaxFiles,
+    };
+  }
+
+  const healthPort = parseInt(env["HEALTH_PORT"] || "0");
+  if (isNaN(healthPort) || healthPort < 0 || healthPort > 65535) {
+    throw new Error("HEALTH_PORT must be between 0 and 65535");
+  }
+  const healthHost = env["HEALTH_HOST"] || "127.0.0.1";
+
+  const sessionStateFile = env["SESSION_STATE_FILE"] || "session-state.json";
+  const sessionHistoryFile =
+    env["SESSION_HISTORY_FILE"] || "session-history.jsonl";
+  const workerNamesFile = env["WORKER_NAMES_FILE"] || "worker-names.json";
+  const messageQueueFile = env["MESSAGE_QUEUE_FILE"] || "message-queue.json";
+  const messageMaxAge = parseInt(env["MESSAGE_MAX_AGE"] || "86400");
+  if (isNaN(messageMaxAge) || messageMaxAge < 0) {
+    throw new Error("MESSAGE_MAX_AGE must be zero or a positive number");
+  }
+  const privacyFile = env["PRIVACY_FILE"] || "privacy.json";
+  const heldAnnouncementsFile =
+    env["HELD_ANNOUNCEMENTS_FILE"] || "held-announcements.json";
+  const presenceRecordFile = env["PRESENCE_RECORD_FILE"];
+  const presenceRecordMaxSize = parseInt(
+    env["PRESENCE_RECORD_MAX_SIZE"] || "50"
+  );
+  if (isNaN(presenceRecordMaxSize) || presenceRecordMaxSize < 0) {
+    throw new Error(
+      "PRESENCE_RECORD_MAX_SIZE must be zero or a positive number"
+    );
+  }
+  const presenceRecordMaxFiles = parseInt(
+    env["PRESENCE_RECORD_MAX_FILES"] || "3"
+  );
+  if (isNaN(presenceRecordMaxFiles) || presenceRecordMaxFiles < 1) {
+    throw new Error("PRESENCE_RECORD_MAX_FILES must be a positive number");
+  }
+
+  // Parse game definitions
+  let customGames: GameDefinition[] = [];
+  if (env["GAMES"]) {
+    try {
+      customGames = parseGameDefinitions(env["GAMES"]);
+    } catch (error) {
+      throw new Error(
+        `GAMES must be a JSON array of game definitions: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  // Custom games are enabled by default alongside Satisfactory
+  const defaultEnabledGames = [
+    "satisfactory",
+    ...customGames
+      .map((game) => game.id)
+      .filter(
+        (gameId) =>
+          gameId !== "satisfactory" &&
+          !BUILT_IN_GAMES.some((game) => game.id === gameId)
+      ),
+  ];
+  const enabledGamesString = env["ENABLED_GAMES"];
+  const enabledGameIds = (
+    enabledGamesString ? enabledGamesString.split(",") : defaultEnabledGames
+  )
+    .map((gameId) => gameId.trim())
+    .filter(Boolean);
+  if (enabledGameIds.length === 0) {
+    throw new Error("ENABLED_GAMES must list at least one game");
+  }
+  const games = resolveEnabledGames(enabledGameIds, customGames);
+
+  // Parse quote providers (defaults to every provider that is configured)
+  const defaultQuoteProviders = QUOTE_PROVIDER_NAMES.filter(
+    (name) =>
+      (name === "gemini" && env["GEMINI_API_KEY"]) ||
+      (name === "local" && env["QUOTES_FILE"]) ||
+      (name === "openai" && env["OPENAI_BASE_URL"])
+  );
+  const quoteProvidersString = env["QUOTE_PROVIDERS"];
+  const quoteProviders = (
+    quoteProvidersString !== undefined
+      ? quoteProvidersString.split(",")
+      : defaultQuoteProviders
+  )
+    .map((name) => name.trim())
+    .filter(Boolean) as QuoteProviderName[];
+  for (const name of quoteProviders) {
+    if (!QUOTE_PROVIDER_NAMES.includes(name)) {
+      throw new Error(
+        `Unknown quote provider "${name}". Available providers: ${QUOTE_PROVIDER_NAMES.join(
+          ", "
+        )}`
+      );
+    }
+  }
+  if (new Set(quoteProviders).size !== quoteProviders.length) {
+    throw new Error("QUOTE_PROVIDERS must not list a provider twice");
+  }
+  if (quoteProviders.includes("gemini") && !env["GEMINI_API_KEY"]) {
+    throw new Error("GEMINI_API_KEY is required by the gemini quote provider");
+  }
+  if (quoteProviders.includes("local") && !env["QUOTES_FILE"]) {
+    throw new Error("QUOTES_FILE is required by the local quote provider");
+  }
+  if (
+    quoteProviders.includes("openai") &&
+    (!env["OPENAI_BASE_URL"] || !env["OPENAI_MODEL"])
+  ) {
+    throw new Error(
+      "OPENAI_BASE_URL and OPENAI_MODEL are required by the openai quote provider"
+    );
+  }
+
+  // Parse monitored guilds (a single CHANNEL_ID when GUILDS is not set)
+  const guildDefaults = {
     workerMapping,
+    monitoringRules,
+    pollingInterval,
+    memberCheckInterval,
+    sessionGracePeriod,
+    minSessionLength,
+    announceShiftStart,
+    shiftMilestones,
+    announcementCooldown,
+    crewMode,
+    crewMinOverlap,
+    quietHours,
+    announcementBatchWindow,
+    messageTemplates,
+    messageFormat,
+    embedColor,
+  };
+  const guilds = env["GUILDS"]
+    ? parseGuildConfigs(env["GUILDS"], guildDefaults)
+    : [{ channelId: env["CHANNEL_ID"]!, ...guildDefaults }];
+
+  const botConfig: BotConfig = {
+    discordToken: env["DISCORD_TOKEN"]!,
+    guilds,
+    quoteProviders,
+    geminiModel: env["GEMINI_MODEL"] || "gemini-2.5-flash",
+    workerMapping,
+    monitoringRules,
     pollingInterval,
     maxCachedQuotes,
+    quoteCache: {
+      lowWatermark,
+      refillConcurrency,
+      maxQuoteAgeMs: maxQuoteAge * 1000,
+    },
+    geminiCircuitBreaker: {
+      failureThreshold: breakerThreshold,
+      cooldownMs: breakerCooldown * 1000,
+    },
     logLevel,
+    logModuleLevels,
+    logging,
+    healthPort,
+    healthHost,
     memberCheckInterval,
+    sessionGracePeriod,
+    minSessionLength,
+    announceShiftStart,
+    shiftMilestones,
+    announcementCooldown,
+    crewMode,
+    crewMinOverlap,
+    quietHours,
+    announcementBatchWindow,
+    messageTemplates,
+    messageFormat,
+    embedColor,
+    sessionStateFile,
+    sessionHistoryFile,
+    workerNamesFile,
+    messageQueueFile,
+    messageMaxAge,
+    privacyFile,
+    heldAnnouncementsFile,
+    games,
   };
+
+  if (env["GEMINI_API_KEY"]) {
+    botConfig.geminiApiKey = env["GEMINI_API_KEY"];
+  }
+  if (env["QUOTES_FILE"]) {
+    botConfig.quotesFile = env["QUOTES_FILE"];
+  }
+  if (presenceRecordFile) {
+    // Recordings rotate by size only, so a session is never split by age
+    botConfig.presenceRecord = {
+      path: presenceRecordFile,
+      maxSize: presenceRecordMaxSize * 1024 * 1024,
+      rotateInterval: 0,
+      maxFiles: presenceRecordMaxFiles,
+    };
+  }
+  if (env["OPENAI_BASE_URL"] && env["OPENAI_MODEL"]) {
+    botConfig.openai = {
+      baseUrl: env["OPENAI_BASE_URL"],
+      model: env["OPENAI_MODEL"],
+    };
+    if (env["OPENAI_API_KEY"]) {
+      botConfig.openai.apiKey = env["OPENAI_API_KEY"];
+    }
+  }
+
+  return botConfig;
+}
+
+/**
+ * Validate shift milestones given in hours
+ * @param milestones - Milestones in hours
+ * @param name - Setting name used in error messages
+ * @returns Milestones in ascending order without duplicates
+ */
+export function parseShiftMilestones(
+  milestones: unknown[],
+  name: string
+): number[] {
+  const hours: number[] = [];
+  for (const milestone of milestones) {
+    if (
+      typeof milestone !== "number" ||
+      !isFinite(milestone) ||
+      milestone <= 0
+    ) {
+      throw new Error(`${name} must only contain positive numbers of hours`);
+    }
+    if (!hours.includes(milestone)) hours.push(milestone);
+  }
+
+  return hours.sort((a, b) => a - b);
+}
+
+/**
+ * Validate message templates keyed by message kind
+ * @param value - Parsed templates object
+ * @param name - Setting name used in error messages
+ * @returns Message templates
+ */
+export function parseMessageTemplates(
+  value: unknown,
+  name: string
+): MessageTemplates {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(
+      `${name} must be a JSON object with templates for: ${MESSAGE_KINDS.join(
+        ", "
+      )}`
+    );
+  }
+
+  const templates: MessageTemplates = {};
+  for (const [kind, template] of Object.entries(value)) {
+    if (!MESSAGE_KINDS.includes(kind as MessageKind)) {
+      throw new Error(
+        `${name}.${kind} is not a message kind. Available kinds: ${MESSAGE_KINDS.join(
+          ", "
+        )}`
+      );
+    }
+    if (typeof template !== "string" || !template.trim()) {
+      throw new Error(`${name}.${kind} must be a non-empty string`);
+    }
+    templates[kind as MessageKind] = template;
+  }
+
+  return templates;
+}
+
+/**
+ * Parse a quiet hours schedule such as "23:00-07:00 Europe/Berlin"
+ * @param value - Schedule with an optional IANA timezone (UTC when omitted)
+ * @param name - Setting name used in error messages
+ * @returns Quiet hours, or null for an empty schedule
+ */
+export function parseQuietHours(
+  value: unknown,
+  name: string
+): QuietHours | null {
+  if (typeof value !== "string") {
+    throw new Error(
+      `${name} must be a string like "23:00-07:00 Europe/Berlin"`
+    );
+  }
+  if (!value.trim()) return null;
+
+  const match = value
+    .trim()
+    .match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})(?:\s+(\S+))?$/);
+  if (!match) {
+    throw new Error(
+      `${name} must be a schedule like "23:00-07:00" followed by an optional timezone`
+    );
+  }
+
+  const [startHour, startMinute, endHour, endMinute] = match
+    .slice(1, 5)
+    .map(Number) as [number, number, number, number];
+  if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) {
+    throw new Error(`${name} must use times between 00:00 and 23:59`);
+  }
+
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+  if (start === end) {
+    throw new Error(`${name} must end at a different time than it starts`);
+  }
+
+  const timezone = match[5] ?? "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`${name} has unknown timezone "${timezone}"`);
+  }
+
+  return { start, end, timezone };
+}
+
+/**
+ * Validate monitoring rules
+ * @param value - Parsed rules object
+ * @param name - Setting name used in error messages
+ * @param defaults - Rules kept for the lists and flags the value omits
+ * @returns Monitoring rules
+ */
+export function parseMonitoringRules(
+  value: unknown,
+  name: string,
+  defaults: MonitoringRules
+): MonitoringRules {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(
+      `${name} must be a JSON object with includeRoles, excludeRoles, allowUsers, denyUsers or requireWorkerMapping`
+    );
+  }
+
+  const rules: MonitoringRules = { ...defaults };
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === "requireWorkerMapping") {
+      if (typeof setting !== "boolean") {
+        throw new Error(`${name}.${key} must be true or false`);
+      }
+      rules.requireWorkerMapping = setting;
+      continue;
+    }
+
+    if (
+      key !== "includeRoles" &&
+      key !== "excludeRoles" &&
+      key !== "allowUsers" &&
+      key !== "denyUsers"
+    ) {
+      throw new Error(`${name}.${key} is not a monitoring rule`);
+    }
+    if (
+      !Array.isArray(setting) ||
+      !setting.every((id) => typeof id === "string" && isValidDiscordUserId(id))
+    ) {
+      throw new Error(`${name}.${key} must be an array of Discord IDs`);
+    }
+    rules[key] = setting as string[];
+  }
+
+  return rules;
+}
+
+/**
+ * Parse a hex color such as "#FA9549"
+ * @param value - Color value
+ * @param name - Setting name used in error messages
+ * @returns Color as a number
+ */
+export function parseColor(value: unknown, name: string): number {
+  if (typeof value !== "string" || !/^#?[0-9a-fA-F]{6}$/.test(value)) {
+    throw new Error(
+      `${name} must be a hex color like "${DEFAULT_EMBED_COLOR}"`
+    );
+  }
+  return parseInt(value.replace("#", ""), 16);
+}
+
+/**
+ * Parse per-guild configuration from a JSON string
+ * @param guildsString - JSON array of guild configurations
+ * @param defaults - Settings used when a guild does not override them
+ * @returns Parsed guild configurations
+ */
+export function parseGuildConfigs(
+  guildsString: string,
+  defaults: Omit<GuildConfig, "channelId">
+): GuildConfig[] {
+  const parsed = safeJsonParse<unknown>(guildsString, null);
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("GUILDS must be a non-empty JSON array");
+  }
+
+  const channelIds = new Set<string>();
+
+  return parsed.map((value: Record<string, unknown>, index) => {
+    const channelId = value?.["channelId"];
+    if (typeof channelId !== "string" || !isValidDiscordChannelId(channelId)) {
+      throw new Error(
+        `GUILDS[${index}].channelId must be a Discord channel ID`
+      );
+    }
+    if (channelIds.has(channelId)) {
+      throw new Error(`GUILDS[${index}].channelId is configured twice`);
+    }
+    channelIds.add(channelId);
+
+    const guild: GuildConfig = { channelId, ...defaults };
+
+    if (value["workerMapping"] !== undefined) {
+      guild.workerMapping = parseWorkerMapping(
+        JSON.stringify(value["workerMapping"]),
+        defaults.workerMapping.defaultName
+      );
+    }
+
+    if (value["monitoringRules"] !== undefined) {
+      // Rules the guild does not override keep the global rules
+      guild.monitoringRules = parseMonitoringRules(
+        value["monitoringRules"],
+        `GUILDS[${index}].monitoringRules`,
+        defaults.monitoringRules
+      );
+    }
+
+    if (value["pollingInterval"] !== undefined) {
+      const pollingInterval = value["pollingInterval"];
+      if (typeof pollingInterval !== "number" || pollingInterval < 1) {
+        throw new Error(
+          `GUILDS[${index}].pollingInterval must be a positive number`
+        );
+      }
+      guild.pollingInterval = pollingInterval;
+    }
+
+    if (value["memberCheckInterval"] !== undefined) {
+      const memberCheckInterval = value["memberCheckInterval"];
+      if (typeof memberCheckInterval !== "number" || memberCheckInterval < 30) {
+        throw new Error(
+          `GUILDS[${index}].memberCheckInterval must be at least 30 seconds`
+        );
+      }
+      guild.memberCheckInterval = memberCheckInterval;
+    }
+
+    if (value["sessionGracePeriod"] !== undefined) {
+      const sessionGracePeriod = value["sessionGracePeriod"];
+      if (typeof sessionGracePeriod !== "number" || sessionGracePeriod < 0) {
+        throw new Error(
+          `GUILDS[${index}].sessionGracePeriod must be zero or a positive number`
+        );
+      }
+      guild.sessionGracePeriod = sessionGracePeriod;
+    }
+
+    if (value["minSessionLength"] !== undefined) {
+      const minSessionLength = value["minSessionLength"];
+      if (typeof minSessionLength !== "number" || minSessionLength < 0) {
+        throw new Error(
+          `GUILDS[${index}].minSessionLength must be zero or a positive number`
+        );
+      }
+      guild.minSessionLength = minSessionLength;
+    }
+
+    if (value["announceShiftStart"] !== undefined) {
+      if (typeof value["announceShiftStart"] !== "boolean") {
+        throw new Error(
+          `GUILDS[${index}].announceShiftStart must be true or false`
+        );
+      }
+      guild.announceShiftStart = value["announceShiftStart"];
+    }
+
+    if (value["shiftMilestones"] !== undefined) {
+      if (!Array.isArray(value["shiftMilestones"])) {
+        throw new Error(
+          `GUILDS[${index}].shiftMilestones must be an array of hours`
+        );
+      }
+      guild.shiftMilestones = parseShiftMilestones(
+        value["shiftMilestones"],
+        `GUILDS[${index}].shiftMilestones`
+      );
+    }
+
+    if (value["announcementCooldown"] !== undefined) {
+      const announcementCooldown = value["announcementCooldown"];
+      if (
+        typeof announcementCooldown !== "number" ||
+        announcementCooldown < 0
+      ) {
+        throw new Error(
+          `GUILDS[${index}].announcementCooldown must be zero or a positive number`
+        );
+      }
+      guild.announcementCooldown = announcementCooldown;
+    }
+
+    if (value["crewMode"] !== undefined) {
+      const crewMode = value["crewMode"] as CrewMode;
+      if (!CREW_MODES.includes(crewMode)) {
+        throw new Error(
+          `GUILDS[${index}].crewMode must be one of: ${CREW_MODES.join(", ")}`
+        );
+      }
+      guild.crewMode = crewMode;
+    }
+
+    if (value["crewMinOverlap"] !== undefined) {
+      const crewMinOverlap = value["crewMinOverlap"];
+      if (typeof crewMinOverlap !== "number" || crewMinOverlap < 0) {
+        throw new Error(
+          `GUILDS[${index}].crewMinOverlap must be zero or a positive number`
+        );
+      }
+      guild.crewMinOverlap = crewMinOverlap;
+    }
+
+    if (value["quietHours"] !== undefined) {
+      // An empty schedule turns off quiet hours set globally
+      guild.quietHours = parseQuietHours(
+        value["quietHours"],
+        `GUILDS[${index}].quietHours`
+      );
+    }
+
+    if (value["announcementBatchWindow"] !== undefined) {
+      const announcementBatchWindow = value["announcementBatchWindow"];
+      if (
+        typeof announcementBatchWindow !== "number" ||
+        announcementBatchWindow < 0
+      ) {
+        throw new Error(
+          `GUILDS[${index}].announcementBatchWindow must be zero or a positive number`
+        );
+      }
+      guild.announcementBatchWindow = announcementBatchWindow;
+    }
+
+    if (value["messageTemplates"] !== undefined) {
+      // Kinds the guild does not override keep the global templates
+      guild.messageTemplates = {
+        ...defaults.messageTemplates,
+        ...parseMessageTemplates(
+          value["messageTemplates"],
+          `GUILDS[${index}].messageTemplates`
+        ),
+      };
+    }
+
+    if (value["messageFormat"] !== undefined) {
+      const messageFormat = value["messageFormat"] as MessageFormat;
+      if (!MESSAGE_FORMATS.includes(messageFormat)) {
+        throw new Error(
+          `GUILDS[${index}].messageFormat must be one of: ${MESSAGE_FORMATS.join(
+            ", "
+          )}`
+        );
+      }
+      guild.messageFormat = messageFormat;
+    }
+
+    if (value["embedColor"] !== undefined) {
+      guild.embedColor = parseColor(
+        value["embedColor"],
+        `GUILDS[${index}].embedColor`
+      );
+    }
+
+    return guild;
+  });
 }
 
 /**
@@ -216,15 +1026,37 @@ export function parseBotConfig(): BotConfig {
  * @param userId - Discord user ID
  * @param workerConfig - Worker configuration
  * @param fallbackName - Fallback name if not found in mapping
+ * @param customNames - Self-assigned worker titles, which take priority over the mapping
  * @returns Worker name
  */
 export function getWorkerName(
   userId: string,
   workerConfig: WorkerConfig,
-  fallbackName?: string
+  fallbackName?: string,
+  customNames: Record<string, string> = {}
 ): string {
   return (
-    workerConfig.mapping[userId] || fallbackName || workerConfig.defaultName
+    customNames[userId] ||
+    workerConfig.mapping[userId] ||
+    fallbackName ||
+    workerConfig.defaultName
+  );
+}
+
+/**
+ * Render a message template by replacing {placeholder} tokens
+ * @param template - Template string
+ * @param values - Placeholder values
+ * @returns Rendered string (unknown placeholders are left untouched)
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key)
+      ? values[key] ?? match
+      : match
   );
 }
 
@@ -0,0 +1,209 @@
+import { promises as fs } from "fs";
+import { Logger, WorkerNamesFile } from "./types";
+
+const WORKER_NAMES_FILE_VERSION = 1;
+
+/** Maximum length of a self-assigned worker title */
+export const MAX_WORKER_NAME_LENGTH = 32;
+
+/**
+ * Normalize and validate a self-assigned worker title
+ * @param title Raw title entered by the user
+ * @returns Normalized title or null if it is not acceptable
+ */
+export function normalizeWorkerName(title: string): string | null {
+  const normalized = title
+    .replace(/["'`*_~|\\]/g, "") // Remove quotes and markdown characters
+    .replace(/[<>@#]/g, "") // Remove mention syntax
+    .replace(/\s+/g, " ") // Normalize whitespace
+    .trim();
+
+  if (!normalized || normalized.length > MAX_WORKER_NAME_LENGTH) {
+    return null;
+  }
+
+  return normalized;
+}
+
+/**
+ * Persistent store for worker titles users set for themselves
+ */
+export class WorkerNameStore {
+  private filePath: string;
+  private logger: Logger;
+  private names: Record<string, Record<string, string>> = {};
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Load worker titles from disk
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger({
+          level: "warn",
+          message: "Failed to read worker names file",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+      return;
+    }
+
+    try {
+      const data = JSON.parse(raw) as WorkerNamesFile;
+      if (data.version !== WORKER_NAMES_FILE_VERSION) {
+        throw new Error(`Unsupported worker names version: ${data.version}`);
+      }
+
+      this.names = data.names;
+
+      this.logger({
+        level: "info",
+        message: "Worker names loaded",
+        context: {
+          file: this.filePath,
+          guilds: Object.keys(this.names).length,
+        },
+      });
+    } catch (error) {
+      this.logger({
+        level: "warn",
+        message: "Ignoring corrupt worker names file",
+        context: {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Get the self-assigned worker titles of a guild
+   * @param guildId Discord guild ID
+   * @returns Discord user ID to worker title mapping
+   */
+  getAll(guildId: string): Record<string, string> {
+    return this.names[guildId] ?? {};
+  }
+
+  /**
+   * Get a user's self-assigned worker title
+   * @param guildId Discord guild ID
+   * @param userId Discord user ID
+   * @returns Worker title or undefined if none is set
+   */
+  get(guildId: string, userId: string): string | undefined {
+    return this.names[guildId]?.[userId];
+  }
+
+  /**
+   * Get a user's self-assigned worker titles in every guild
+   * @param userId Discord user ID
+   * @returns Guild ID to worker title mapping
+   */
+  getByUser(userId: string): Record<string, string> {
+    const titles: Record<string, string> = {};
+    for (const [guildId, guildNames] of Object.entries(this.names)) {
+      const title = guildNames[userId];
+      if (title !== undefined) titles[guildId] = title;
+    }
+    return titles;
+  }
+
+  /**
+   * Set a user's worker title
+   * @param guildId Discord guild ID
+   * @param userId Discord user ID
+   * @param title Normalized worker title
+   */
+  async set(guildId: string, userId: string, title: string): Promise<void> {
+    this.names[guildId] = { ...this.names[guildId], [userId]: title };
+    await this.save();
+  }
+
+  /**
+   * Clear a user's worker title
+   * @param guildId Discord guild ID
+   * @param userId Discord user ID
+   * @returns Whether a title was removed
+   */
+  async clear(guildId: string, userId: string): Promise<boolean> {
+    const guildNames = this.names[guildId];
+    if (!guildNames || guildNames[userId] === undefined) return false;
+
+    delete guildNames[userId];
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Clear a user's worker titles in every guild
+   * @param userId Discord user ID
+   * @returns Number of removed titles
+   */
+  async clearUser(userId: string): Promise<number> {
+    let removed = 0;
+    for (const guildNames of Object.values(this.names)) {
+      if (guildNames[userId] === undefined) continue;
+      delete guildNames[userId];
+      removed++;
+    }
+
+    if (removed > 0) await this.save();
+    return removed;
+  }
+
+  /**
+   * Write worker titles to disk atomically
+   */
+  private save(): Promise<void> {
+    const data: WorkerNamesFile = {
+      version: WORKER_NAMES_FILE_VERSION,
+      names: this.names,
+    };
+    const contents = JSON.stringify(data, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.writeFile(tempPath, contents, "utf8");
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        this.logger({
+          level: "error",
+          message: "Failed to persist worker names",
+          context: {
+            file: this.filePath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+
+    return this.writeChain;
+  }
+}
+
+/**
+ * Create a worker name store backed by a JSON file
+ * @param filePath Path of the worker names file
+ * @param logger Logger instance
+ * @returns Configured worker name store
+ */
+export function createWorkerNameStore(
+  filePath: string,
+  logger: Logger
+): WorkerNameStore {
+  return new WorkerNameStore(filePath, logger);
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from "fs";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const NEWCOMER_ID = "200000000000000002";
+const HOUR_MS = 60 * 60 * 1000;
+/** Longer than the default grace period a stopped shift waits out */
+const GRACE_MS = 2 * 60 * 1000;
+
+describe("WorkBot3000", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot | undefined;
+
+  beforeEach(() => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+  });
+
+  afterEach(async () => {
+    await running?.bot.stop();
+    running = undefined;
+    removeDataDir(dataDir);
+  });
+
+  async function readHistory(): Promise<Record<string, unknown>[]> {
+    const raw = await fs.readFile(running!.config.sessionHistoryFile, "utf8");
+    return raw
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+  }
+
+  it("announces and records a shift when the player stops playing", async () => {
+    running = await startTestBot(clock, { dataDir, members: [WORKER_ID] });
+    const { fake, guild, channel, bot } = running;
+
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+    clock.time += 2 * HOUR_MS;
+    fake.setPresence(guild, WORKER_ID, []);
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("02:00:00");
+
+    const history = await readHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      guildId: GUILD_ID,
+      userId: WORKER_ID,
+      duration: 2 * HOUR_MS,
+    });
+  });
+
+  it("tracks members who join and ends the shift of members who leave", async () => {
+    running = await startTestBot(clock, { dataDir });
+    const { fake, guild, channel } = running;
+
+    fake.joinMember(guild, NEWCOMER_ID, "newcomer");
+    await fake.settle();
+    fake.setPresence(guild, NEWCOMER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+    clock.time += HOUR_MS;
+    fake.leaveMember(guild, NEWCOMER_ID);
+    await fake.settle();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("01:00:00");
+    expect(await readHistory()).toHaveLength(1);
+  });
+
+  it("resumes a shift in progress after a restart", async () => {
+    const first = await startTestBot(clock, {
+      dataDir,
+      members: [WORKER_ID],
+    });
+    first.fake.setPresence(first.guild, WORKER_ID, [
+      gameActivity("Satisfactory"),
+    ]);
+    await first.fake.settle();
+    clock.time += HOUR_MS;
+    await first.bot.stop();
+
+    const state = JSON.parse(
+      await fs.readFile(first.config.sessionStateFile, "utf8")
+    ) as { sessions: unknown[] };
+    expect(state.sessions).toHaveLength(1);
+    expect(first.channel.sent).toHaveLength(0);
+
+    clock.time += 5 * 60 * 1000;
+    running = await startTestBot(clock, { dataDir, fake: first.fake });
+    const { fake, guild, channel, bot } = running;
+    clock.time += HOUR_MS;
+    fake.setPresence(guild, WORKER_ID, []);
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("02:05:00");
+    expect(await readHistory()).toHaveLength(1);
+  });
+
+  it("finishes a shift that stopped just before a restart", async () => {
+    const first = await startTestBot(clock, {
+      dataDir,
+      members: [WORKER_ID],
+    });
+    first.fake.setPresence(first.guild, WORKER_ID, [
+      gameActivity("Satisfactory"),
+    ]);
+    await first.fake.settle();
+    clock.time += HOUR_MS;
+    first.fake.setPresence(first.guild, WORKER_ID, []);
+    await first.fake.settle();
+    await first.bot.stop();
+
+    clock.time += GRACE_MS;
+    running = await startTestBot(clock, { dataDir, fake: first.fake });
+    const { channel } = running;
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("01:00:00");
+    const history = await readHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ duration: HOUR_MS });
+  });
+
+  it("records a shift closed quietly at a restart without announcing it", async () => {
+    const first = await startTestBot(clock, {
+      dataDir,
+      members: [WORKER_ID],
+    });
+    first.fake.setPresence(first.guild, WORKER_ID, [
+      gameActivity("Satisfactory"),
+    ]);
+    await first.fake.settle();
+    clock.time += HOUR_MS;
+    await first.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+    await first.bot.stop();
+
+    // The player stops while the bot is down
+    first.fake.setPresence(first.guild, WORKER_ID, []);
+    clock.time += HOUR_MS;
+    running = await startTestBot(clock, { dataDir, fake: first.fake });
+    clock.time += GRACE_MS;
+    await running.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    expect(running.channel.sent).toHaveLength(0);
+    const history = await readHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      userId: WORKER_ID,
+      startTime: START_TIME,
+      endTime: START_TIME + HOUR_MS,
+      announced: false,
+      approximate: true,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { writeFileSync } from "fs";
+import path from "path";
+import { loadBotConfig } from "../src/configFile";
+import { CHANNEL_ID, createDataDir, removeDataDir } from "./support/testBot";
+
+describe("config file", () => {
+  let dataDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dataDir = createDataDir();
+    filePath = path.join(dataDir, "workbot.config.json");
+  });
+
+  afterEach(() => {
+    removeDataDir(dataDir);
+  });
+
+  /** Write a config file with the required settings and the given ones */
+  function writeConfig(settings: Record<string, unknown>): void {
+    writeFileSync(
+      filePath,
+      JSON.stringify({
+        discordToken: "test-token",
+        channelId: CHANNEL_ID,
+        ...settings,
+      })
+    );
+  }
+
+  it("loads sizes, counts and intervals", () => {
+    writeConfig({
+      logFileMaxSize: 0,
+      logFileMaxFiles: 2,
+      presenceRecordMaxFiles: 1,
+      quoteCacheLowWatermark: 0,
+    });
+
+    expect(loadBotConfig(filePath)).toMatchObject({
+      quoteCache: { lowWatermark: 0 },
+    });
+  });
+
+  it.each(["logFileMaxFiles", "presenceRecordMaxFiles", "maxCachedQuotes"])(
+    "rejects keeping zero %s",
+    (key) => {
+      writeConfig({ [key]: 0 });
+      expect(() => loadBotConfig(filePath)).toThrow(
+        `${key} must be at least 1`
+      );
+    }
+  );
+
+  it("names the config file property when a value is out of range", () => {
+    writeConfig({ maxCachedQuotes: 2, quoteCacheLowWatermark: 5 });
+
+    expect(() => loadBotConfig(filePath)).toThrow(
+      `Invalid config file ${filePath}: quoteCacheLowWatermark must be between 0 and maxCachedQuotes`
+    );
+  });
+});
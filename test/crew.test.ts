@@ -0,0 +1,89 @@
+import { promises as fs } from "fs";
+import { createSessionHistory } from "../src/history";
+import { SessionEndEvent } from "../src/types";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const FIRST_ID = "200000000000000001";
+const SECOND_ID = "200000000000000002";
+const HOUR_MS = 60 * 60 * 1000;
+const GRACE_MS = 2 * 60 * 1000;
+
+describe("group crew shifts", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot;
+
+  beforeEach(async () => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+    running = await startTestBot(clock, {
+      dataDir,
+      env: { CREW_MODE: "group" },
+      members: [FIRST_ID, SECOND_ID],
+    });
+  });
+
+  afterEach(async () => {
+    await running.bot.stop();
+    removeDataDir(dataDir);
+  });
+
+  /** Load the history file as the next run would */
+  async function readHistory(): Promise<SessionEndEvent[]> {
+    const history = createSessionHistory(
+      running.config.sessionHistoryFile,
+      () => {}
+    );
+    await history.load();
+    return history.getSessions();
+  }
+
+  async function stopPlaying(userId: string): Promise<void> {
+    const { fake, guild, bot } = running;
+    fake.setPresence(guild, userId, []);
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+  }
+
+  it("records a held session before its crew is announced", async () => {
+    const { fake, guild, channel } = running;
+    fake.setPresence(guild, FIRST_ID, [gameActivity("Satisfactory")]);
+    fake.setPresence(guild, SECOND_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+
+    clock.time += HOUR_MS;
+    await stopPlaying(FIRST_ID);
+
+    expect(channel.sent).toHaveLength(0);
+    expect(await readHistory()).toMatchObject([
+      { userId: FIRST_ID, duration: HOUR_MS, quote: "" },
+    ]);
+
+    clock.time += HOUR_MS;
+    await stopPlaying(SECOND_ID);
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("Stay efficient.");
+    const history = await readHistory();
+    expect(history).toHaveLength(2);
+    expect(history).toMatchObject([
+      { userId: FIRST_ID, quote: "Stay efficient.", crewUserIds: [SECOND_ID] },
+      { userId: SECOND_ID, quote: "Stay efficient.", crewUserIds: [FIRST_ID] },
+    ]);
+
+    // The crew details are appended instead of rewriting the history
+    const raw = await fs.readFile(running.config.sessionHistoryFile, "utf8");
+    expect(raw.trim().split("\n")).toHaveLength(4);
+  });
+});
@@ -0,0 +1,90 @@
+import { ActivityType } from "discord.js";
+import { createGameRegistry, parseGameDefinitions } from "../src/games";
+import { gameActivity } from "./support/fakeDiscord";
+
+/**
+ * Parse a single custom game with the given matchers
+ * @param matchers Raw matchers as configured
+ * @returns Parsed game definitions
+ */
+function parseGame(matchers: unknown[]) {
+  return parseGameDefinitions(JSON.stringify([{ id: "factorio", matchers }]));
+}
+
+describe("game matchers", () => {
+  it("parses every matcher type", () => {
+    const [game] = parseGame([
+      { type: "exact", value: "Factorio" },
+      { type: "caseInsensitive", value: "FACTORIO: Space Age" },
+      { type: "regex", pattern: "^factorio \\d+", flags: "i" },
+    ]);
+
+    expect(game).toMatchObject({
+      id: "factorio",
+      name: "factorio",
+      activityTypes: [ActivityType.Playing],
+      matchers: [
+        { type: "exact", value: "Factorio" },
+        { type: "caseInsensitive", value: "FACTORIO: Space Age" },
+        { type: "regex", pattern: "^factorio \\d+", flags: "i" },
+      ],
+    });
+  });
+
+  it("rejects invalid matchers", () => {
+    expect(() => parseGame([{ type: "fuzzy", value: "Factorio" }])).toThrow(
+      "Unknown game matcher type"
+    );
+    expect(() => parseGame([{ type: "exact" }])).toThrow(
+      "exact matchers require a string value"
+    );
+    expect(() => parseGame([{ type: "regex", pattern: "(" }])).toThrow();
+    expect(() =>
+      parseGame([{ type: "regex", pattern: "factorio", flags: 1 }])
+    ).toThrow("flags must be a string");
+  });
+
+  it.each(["g", "y", "gi"])("rejects the stateful regex flags %s", (flags) => {
+    expect(() =>
+      parseGame([{ type: "regex", pattern: "factorio", flags }])
+    ).toThrow('must not include "g" or "y"');
+  });
+
+  it("matches activity names by each matcher type", () => {
+    const registry = createGameRegistry(
+      parseGame([
+        { type: "exact", value: "Factorio" },
+        { type: "caseInsensitive", value: "factorio: space age" },
+        { type: "regex", pattern: "^factorio \\d+$", flags: "i" },
+      ])
+    );
+
+    expect(registry.match(gameActivity("Factorio"))?.id).toBe("factorio");
+    expect(registry.match(gameActivity("factorio"))).toBeUndefined();
+    expect(registry.match(gameActivity("Factorio: Space Age"))?.id).toBe(
+      "factorio"
+    );
+    expect(registry.match(gameActivity("FACTORIO 2"))?.id).toBe("factorio");
+    expect(registry.match(gameActivity("Factorio Demo"))).toBeUndefined();
+  });
+
+  it("matches the same activity every time", () => {
+    const registry = createGameRegistry(
+      parseGame([{ type: "regex", pattern: "factorio", flags: "i" }])
+    );
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(registry.match(gameActivity("Factorio"))?.id).toBe("factorio");
+    }
+  });
+
+  it("only matches the configured activity types", () => {
+    const registry = createGameRegistry(
+      parseGame([{ type: "exact", value: "Factorio" }])
+    );
+
+    expect(
+      registry.match({ name: "Factorio", type: ActivityType.Watching })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,234 @@
+import { createServer } from "net";
+import { createHealthServer } from "../src/healthServer";
+import { Counter, Gauge, Histogram } from "../src/metrics";
+import { HealthReport } from "../src/types";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  CHANNEL_ID,
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+
+/**
+ * Find a port nothing listens on
+ * @returns Free local port
+ */
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      server.close(() =>
+        typeof address === "object" && address
+          ? resolve(address.port)
+          : reject(new Error("No port assigned"))
+      );
+    });
+  });
+}
+
+/**
+ * Request a path of the local health server
+ * @param port Port of the server
+ * @param path Requested path
+ * @param method HTTP method
+ * @returns Status code and body of the response
+ */
+async function request(
+  port: number,
+  path: string,
+  method = "GET"
+): Promise<{ status: number; body: string }> {
+  const response = await fetch(`http://127.0.0.1:${port}${path}`, { method });
+  return { status: response.status, body: await response.text() };
+}
+
+describe("metrics", () => {
+  it("renders counters and gauges with sorted, escaped labels", () => {
+    const counter = new Counter("test_total", "Test counter");
+    counter.inc({ kind: "end", channel: "a" });
+    counter.inc({ channel: "a", kind: "end" }, 2);
+    const gauge = new Gauge("test_value", "Test gauge");
+    gauge.set(1, { name: 'say "hi"\\\n' });
+
+    expect(counter.render()).toEqual([
+      "# HELP test_total Test counter",
+      "# TYPE test_total counter",
+      'test_total{channel="a",kind="end"} 3',
+    ]);
+    expect(gauge.render()).toEqual([
+      "# HELP test_value Test gauge",
+      "# TYPE test_value gauge",
+      'test_value{name="say \\"hi\\"\\\\\\n"} 1',
+    ]);
+
+    gauge.reset();
+    expect(gauge.render()).toHaveLength(2);
+  });
+
+  it("renders histograms as cumulative buckets", () => {
+    const histogram = new Histogram("test_seconds", "Test histogram", [1, 0.5]);
+    histogram.observe(0.2, { provider: "gemini" });
+    histogram.observe(0.7, { provider: "gemini" });
+    histogram.observe(3, { provider: "gemini" });
+
+    expect(histogram.render()).toEqual([
+      "# HELP test_seconds Test histogram",
+      "# TYPE test_seconds histogram",
+      'test_seconds_bucket{le="0.5",provider="gemini"} 1',
+      'test_seconds_bucket{le="1",provider="gemini"} 2',
+      'test_seconds_bucket{le="+Inf",provider="gemini"} 3',
+      'test_seconds_sum{provider="gemini"} 3.9',
+      'test_seconds_count{provider="gemini"} 3',
+    ]);
+    expect(histogram.totals({ provider: "other" })).toEqual({
+      sum: 0,
+      count: 0,
+    });
+  });
+});
+
+describe("HealthServer", () => {
+  let port: number;
+  let report: HealthReport;
+
+  beforeEach(async () => {
+    port = await getFreePort();
+    report = {
+      status: "ok",
+      gateway: {
+        ready: true,
+        status: "Ready",
+        ping: 42,
+        disconnectedSince: null,
+      },
+      channels: [],
+      circuitBreakers: {},
+      uptime: 1,
+    };
+  });
+
+  async function withServer(
+    handlers: { getHealth?: () => HealthReport; getMetrics?: () => string },
+    run: () => Promise<void>
+  ): Promise<void> {
+    const server = createHealthServer(
+      port,
+      "127.0.0.1",
+      {
+        getHealth: handlers.getHealth ?? (() => report),
+        getMetrics: handlers.getMetrics ?? (() => "metric 1\n"),
+      },
+      () => {}
+    );
+    await server.start();
+    try {
+      await run();
+    } finally {
+      await server.stop();
+    }
+  }
+
+  it("answers 200 while healthy or degraded and 503 while unhealthy", async () => {
+    await withServer({}, async () => {
+      expect(await request(port, "/healthz")).toEqual({
+        status: 200,
+        body: JSON.stringify(report),
+      });
+
+      report.status = "degraded";
+      expect((await request(port, "/healthz?verbose")).status).toBe(200);
+
+      report.status = "unhealthy";
+      expect((await request(port, "/healthz")).status).toBe(503);
+    });
+  });
+
+  it("serves metrics and rejects other paths and methods", async () => {
+    await withServer({}, async () => {
+      expect(await request(port, "/metrics")).toEqual({
+        status: 200,
+        body: "metric 1\n",
+      });
+      expect((await request(port, "/")).status).toBe(404);
+      expect((await request(port, "/healthz", "POST")).status).toBe(405);
+    });
+  });
+
+  it("answers 500 when a handler fails", async () => {
+    const getHealth = (): HealthReport => {
+      throw new Error("Broken");
+    };
+    await withServer({ getHealth }, async () => {
+      expect((await request(port, "/healthz")).status).toBe(500);
+    });
+  });
+});
+
+describe("health endpoint of the bot", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let port: number;
+  let running: TestBot | undefined;
+
+  beforeEach(async () => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+    port = await getFreePort();
+    running = await startTestBot(clock, {
+      dataDir,
+      env: { HEALTH_PORT: String(port) },
+      members: [WORKER_ID],
+    });
+  });
+
+  afterEach(async () => {
+    await running?.bot.stop();
+    running = undefined;
+    removeDataDir(dataDir);
+  });
+
+  it("reports the gateway and target channels", async () => {
+    const { fake } = running!;
+
+    const healthy = await request(port, "/healthz");
+    expect(healthy.status).toBe(200);
+    expect(JSON.parse(healthy.body)).toMatchObject({
+      status: "ok",
+      gateway: { ready: true, status: "Ready", disconnectedSince: null },
+      channels: [{ channelId: CHANNEL_ID, guildId: GUILD_ID, resolved: true }],
+    });
+
+    fake.disconnectGateway();
+    await fake.settle();
+    const outage = await request(port, "/healthz");
+    expect(outage.status).toBe(503);
+    expect(JSON.parse(outage.body)).toMatchObject({
+      status: "unhealthy",
+      gateway: { ready: false, disconnectedSince: START_TIME },
+    });
+  });
+
+  it("exports the state of monitoring as metrics", async () => {
+    const { fake, guild } = running!;
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+
+    const { status, body } = await request(port, "/metrics");
+    expect(status).toBe(200);
+    const lines = body.split("\n");
+    expect(lines).toContain("workbot_monitored_users 1");
+    expect(lines).toContain("workbot_active_sessions 1");
+    expect(lines).toContain("workbot_discord_gateway_ready 1");
+    expect(lines).toContain("workbot_discord_gateway_ping_seconds 0.042");
+    expect(lines).toContain("# TYPE workbot_uptime_seconds gauge");
+  });
+});
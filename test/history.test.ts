@@ -0,0 +1,186 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  averageSessionLength,
+  createSessionHistory,
+  dayStreak,
+  filterSessions,
+  longestSession,
+  sessionsPerDay,
+  totalDurationByUser,
+} from "../src/history";
+import { createSessionRecord } from "./support/sessions";
+import { createDataDir, removeDataDir, START_TIME } from "./support/testBot";
+
+const FIRST_ID = "200000000000000001";
+const SECOND_ID = "200000000000000002";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe("history statistics", () => {
+  const records = [
+    createSessionRecord(FIRST_ID, START_TIME, 2 * HOUR_MS, HOUR_MS / 2),
+    createSessionRecord(SECOND_ID, START_TIME + HOUR_MS, HOUR_MS),
+    createSessionRecord(FIRST_ID, START_TIME + DAY_MS, 3 * HOUR_MS),
+  ];
+
+  it("sums the time of each user, highest first", () => {
+    expect(totalDurationByUser(records)).toEqual([
+      {
+        userId: FIRST_ID,
+        memberName: "worker-01",
+        workerName: "Pioneer",
+        totalDuration: 5 * HOUR_MS,
+        activeDuration: 4.5 * HOUR_MS,
+        idleDuration: HOUR_MS / 2,
+        sessionCount: 2,
+      },
+      {
+        userId: SECOND_ID,
+        memberName: "worker-02",
+        workerName: "Pioneer",
+        totalDuration: HOUR_MS,
+        activeDuration: HOUR_MS,
+        idleDuration: 0,
+        sessionCount: 1,
+      },
+    ]);
+  });
+
+  it("groups sessions by the UTC day they started on", () => {
+    expect(sessionsPerDay(records)).toEqual([
+      {
+        date: "2026-01-01",
+        sessionCount: 2,
+        totalDuration: 3 * HOUR_MS,
+        activeDuration: 2.5 * HOUR_MS,
+        idleDuration: HOUR_MS / 2,
+      },
+      {
+        date: "2026-01-02",
+        sessionCount: 1,
+        totalDuration: 3 * HOUR_MS,
+        activeDuration: 3 * HOUR_MS,
+        idleDuration: 0,
+      },
+    ]);
+  });
+
+  it("finds the longest session and the average length", () => {
+    expect(longestSession(records)).toBe(records[2]);
+    expect(longestSession([])).toBeNull();
+    expect(averageSessionLength(records)).toBe(2 * HOUR_MS);
+    expect(averageSessionLength([])).toBe(0);
+  });
+
+  it("filters by user and start time", () => {
+    expect(
+      filterSessions(records, { userId: FIRST_ID, from: START_TIME + 1 })
+    ).toEqual([records[2]]);
+    expect(filterSessions(records, { to: START_TIME + HOUR_MS })).toEqual([
+      records[0],
+    ]);
+  });
+
+  describe("dayStreak", () => {
+    it("counts consecutive days ending on the given day", () => {
+      expect(dayStreak(records, START_TIME + DAY_MS)).toBe(2);
+      expect(dayStreak(records, START_TIME + 2 * DAY_MS)).toBe(3);
+    });
+
+    it("counts the given day even without sessions", () => {
+      expect(dayStreak([], START_TIME)).toBe(1);
+      expect(dayStreak(records, START_TIME + 5 * DAY_MS)).toBe(1);
+    });
+
+    it("stops at a day without sessions", () => {
+      const withGap = [
+        ...records,
+        createSessionRecord(FIRST_ID, START_TIME + 3 * DAY_MS, HOUR_MS),
+      ];
+      expect(dayStreak(withGap, START_TIME + 3 * DAY_MS)).toBe(1);
+    });
+
+    it("uses UTC days, not 24 hours since the last session", () => {
+      const lateNight = createSessionRecord(
+        FIRST_ID,
+        Date.UTC(2026, 0, 1, 23, 30),
+        HOUR_MS
+      );
+      expect(dayStreak([lateNight], Date.UTC(2026, 0, 2, 0, 15))).toBe(2);
+    });
+  });
+});
+
+describe("SessionHistory", () => {
+  let dataDir: string;
+  let filePath: string;
+  const logger = () => {};
+
+  beforeEach(() => {
+    dataDir = createDataDir();
+    filePath = path.join(dataDir, "session-history.jsonl");
+  });
+
+  afterEach(() => {
+    removeDataDir(dataDir);
+  });
+
+  it("writes amended records back to the file", async () => {
+    const history = createSessionHistory(filePath, logger);
+    const first = createSessionRecord(FIRST_ID, START_TIME, HOUR_MS);
+    const second = createSessionRecord(SECOND_ID, START_TIME, HOUR_MS);
+    await history.record(first);
+    await history.record(second);
+
+    const updated = await history.amend(
+      new Map([[first, { crewUserIds: [SECOND_ID] }]])
+    );
+    expect(updated).toBe(1);
+
+    const reloaded = createSessionHistory(filePath, logger);
+    await reloaded.load();
+    expect(reloaded.getSessions({ userId: FIRST_ID })).toMatchObject([
+      { crewUserIds: [SECOND_ID] },
+    ]);
+    expect(reloaded.getSessions()).toHaveLength(2);
+  });
+
+  it("appends amendments without rewriting the file", async () => {
+    await fs.writeFile(filePath, "not json\n", "utf8");
+    const history = createSessionHistory(filePath, logger);
+    await history.load();
+    const record = createSessionRecord(FIRST_ID, START_TIME, HOUR_MS);
+    await history.record(record);
+
+    await history.amend(new Map([[record, { quote: "Late." }]]));
+
+    const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe("not json");
+  });
+
+  it("never rewrites a history file it could not read", async () => {
+    // A directory in place of the file fails to read with EISDIR
+    await fs.mkdir(filePath);
+    const history = createSessionHistory(filePath, logger);
+    await history.load();
+
+    await expect(history.forgetUser(FIRST_ID)).rejects.toThrow(
+      "could not be read"
+    );
+    expect((await fs.stat(filePath)).isDirectory()).toBe(true);
+  });
+
+  it("leaves deleted records deleted when amending", async () => {
+    const history = createSessionHistory(filePath, logger);
+    const record = createSessionRecord(FIRST_ID, START_TIME, HOUR_MS);
+    await history.record(record);
+    await history.forgetUser(FIRST_ID);
+
+    expect(await history.amend(new Map([[record, { quote: "Late." }]]))).toBe(
+      0
+    );
+    expect((await fs.readFile(filePath, "utf8")).trim()).toBe("");
+  });
+});
@@ -0,0 +1,84 @@
+import { readdirSync, readFileSync, utimesSync, writeFileSync } from "fs";
+import path from "path";
+import { RotatingLogFile } from "../src/logging";
+import { createDataDir, removeDataDir, START_TIME } from "./support/testBot";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("RotatingLogFile", () => {
+  let dataDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dataDir = createDataDir();
+    filePath = path.join(dataDir, "workbot.log");
+  });
+
+  afterEach(() => {
+    removeDataDir(dataDir);
+  });
+
+  it("keeps every rotation of the same millisecond up to the file limit", () => {
+    const file = new RotatingLogFile(
+      { path: filePath, maxSize: 1, rotateInterval: 0, maxFiles: 2 },
+      () => START_TIME
+    );
+    for (const line of ["one", "two", "three", "four", "five"]) {
+      file.write(line);
+    }
+    file.close();
+
+    const files = file.getFiles();
+    expect(readdirSync(dataDir)).toHaveLength(3);
+    expect(files.map((name) => path.basename(name))).toEqual([
+      "workbot.2026-01-01T12-00-00-002.log",
+      "workbot.2026-01-01T12-00-00-003.log",
+      "workbot.log",
+    ]);
+    expect(files.map((name) => readFileSync(name, "utf8"))).toEqual([
+      "three\n",
+      "four\n",
+      "five\n",
+    ]);
+  });
+
+  /** File continued from a previous run that rotates every two hours */
+  function continueFile(clock: { time: number }): RotatingLogFile {
+    return new RotatingLogFile(
+      { path: filePath, maxSize: 0, rotateInterval: 2 * HOUR_MS, maxFiles: 5 },
+      () => clock.time
+    );
+  }
+
+  it("measures the age of a continued file from the last rotation", () => {
+    writeFileSync(
+      path.join(dataDir, "workbot.2026-01-01T11-00-00-000.log"),
+      "old\n"
+    );
+    writeFileSync(filePath, "earlier\n");
+    const clock = { time: START_TIME + HOUR_MS / 2 };
+    const file = continueFile(clock);
+
+    file.write("not due");
+    expect(readdirSync(dataDir)).toHaveLength(2);
+    file.close();
+
+    clock.time = START_TIME + HOUR_MS;
+    file.write("due");
+    file.close();
+    expect(readdirSync(dataDir)).toHaveLength(3);
+    expect(readFileSync(filePath, "utf8")).toBe("due\n");
+  });
+
+  it("measures the age of a file that never rotated from its last write", () => {
+    writeFileSync(filePath, "earlier\n");
+    const lastWrite = (START_TIME - 2 * HOUR_MS) / 1000;
+    utimesSync(filePath, lastWrite, lastWrite);
+    const file = continueFile({ time: START_TIME });
+
+    file.write("due");
+    file.close();
+    expect(readdirSync(dataDir)).toHaveLength(2);
+    expect(readFileSync(filePath, "utf8")).toBe("due\n");
+  });
+});
@@ -0,0 +1,88 @@
+import { createBotMetrics } from "../src/metrics";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const NEWCOMER_ID = "200000000000000002";
+const BOT_ID = "200000000000000003";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("member tracking", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot;
+
+  beforeEach(async () => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+    running = await startTestBot(clock, { dataDir, members: [WORKER_ID] });
+  });
+
+  afterEach(async () => {
+    await running.bot.stop();
+    removeDataDir(dataDir);
+  });
+
+  it("ignores bots that join", async () => {
+    const { fake, guild, bot } = running;
+
+    fake.joinMember(guild, BOT_ID, "helper", { bot: true });
+    await fake.settle();
+
+    expect(bot.getGuildMonitor(GUILD_ID)!.getMonitoredUserCount()).toBe(1);
+  });
+
+  it("ends the shift of members who can no longer view the target channel", async () => {
+    const { fake, guild, channel, bot } = running;
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+
+    clock.time += HOUR_MS;
+    fake.setChannelAccess(channel, WORKER_ID, false);
+    await fake.settle();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("01:00:00");
+    expect(bot.getGuildMonitor(GUILD_ID)!.getMonitoredUserCount()).toBe(0);
+  });
+
+  it("finds members whose events were missed at the next reconciliation", async () => {
+    const { fake, guild, channel, bot } = running;
+    const monitor = bot.getGuildMonitor(GUILD_ID)!;
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+
+    // Neither change emits an event
+    guild.addMember(NEWCOMER_ID, "newcomer");
+    clock.time += HOUR_MS;
+    guild.removeMember(WORKER_ID);
+    expect(monitor.getMonitoredUserCount()).toBe(1);
+
+    await monitor.updateMonitoredUsers();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("01:00:00");
+    expect(monitor.getMonitoredUserCount()).toBe(1);
+    expect(monitor.getActiveSessionCount()).toBe(0);
+  });
+});
+
+describe("member drift metric", () => {
+  it("is exported with the other metrics", () => {
+    const metrics = createBotMetrics();
+    metrics.memberDrift.inc({ change: "added" }, 2);
+
+    expect(metrics.render().split("\n")).toContain(
+      'workbot_member_reconcile_drift_total{change="added"} 2'
+    );
+  });
+});
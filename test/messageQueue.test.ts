@@ -0,0 +1,80 @@
+import path from "path";
+import { MessageQueue } from "../src/messageQueue";
+import { Logger, QueuedMessage } from "../src/types";
+import {
+  CHANNEL_ID,
+  createDataDir,
+  removeDataDir,
+  START_TIME,
+  TestClock,
+} from "./support/testBot";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("MessageQueue", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let delivered: QueuedMessage[];
+  let logs: Parameters<Logger>[0][];
+
+  beforeEach(() => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+    delivered = [];
+    logs = [];
+  });
+
+  afterEach(() => {
+    removeDataDir(dataDir);
+  });
+
+  /** Let deliveries finish, then stop the queue once its file is written */
+  async function finish(queue: MessageQueue): Promise<void> {
+    await new Promise((resolve) => setImmediate(resolve));
+    await queue.stop();
+  }
+
+  /** Paused queue delivering into `delivered` */
+  function createQueue(maxAgeMs: number): MessageQueue {
+    return new MessageQueue(
+      path.join(dataDir, "message-queue.json"),
+      async (queued) => {
+        delivered.push(queued);
+      },
+      maxAgeMs,
+      (entry) => logs.push(entry),
+      () => clock.time
+    );
+  }
+
+  it("drops messages older than the maximum age with an error log", async () => {
+    const queue = createQueue(DAY_MS);
+    await queue.enqueue(CHANNEL_ID, "end", { content: "stale" });
+    clock.time += DAY_MS + 1;
+    await queue.enqueue(CHANNEL_ID, "end", { content: "fresh" });
+
+    queue.resume();
+    await finish(queue);
+
+    expect(delivered.map((queued) => queued.message.content)).toEqual([
+      "fresh",
+    ]);
+    expect(logs).toContainEqual(
+      expect.objectContaining({
+        level: "error",
+        message: "Dropping stale queued message",
+      })
+    );
+  });
+
+  it("keeps old messages when the maximum age is zero", async () => {
+    const queue = createQueue(0);
+    await queue.enqueue(CHANNEL_ID, "end", { content: "late" });
+    clock.time += 7 * DAY_MS;
+
+    queue.resume();
+    await finish(queue);
+
+    expect(delivered).toHaveLength(1);
+  });
+});
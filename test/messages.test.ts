@@ -0,0 +1,175 @@
+import { buildMessage } from "../src/messages";
+import { parseMessageTemplates, renderTemplate } from "../src/utils";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const HOUR_MS = 60 * 60 * 1000;
+/** Longer than the default grace period a stopped shift waits out */
+const GRACE_MS = 2 * 60 * 1000;
+const COLOR = 0xfa9549;
+
+describe("renderTemplate", () => {
+  it("replaces known placeholders and leaves unknown ones untouched", () => {
+    expect(
+      renderTemplate("{displayName} worked {duration} on {planet}", {
+        displayName: "Pioneer",
+        duration: "01:00:00",
+      })
+    ).toBe("Pioneer worked 01:00:00 on {planet}");
+  });
+
+  it("does not treat inherited properties as placeholders", () => {
+    expect(renderTemplate("{constructor}", {})).toBe("{constructor}");
+  });
+});
+
+describe("parseMessageTemplates", () => {
+  it("accepts templates for known message kinds", () => {
+    expect(
+      parseMessageTemplates({ end: "{displayName} is done" }, "TEMPLATES")
+    ).toEqual({ end: "{displayName} is done" });
+  });
+
+  it("rejects unknown message kinds and empty templates", () => {
+    expect(() => parseMessageTemplates({ lunch: "x" }, "TEMPLATES")).toThrow(
+      "TEMPLATES.lunch is not a message kind"
+    );
+    expect(() => parseMessageTemplates({ end: " " }, "TEMPLATES")).toThrow(
+      "TEMPLATES.end must be a non-empty string"
+    );
+    expect(() => parseMessageTemplates(["end"], "TEMPLATES")).toThrow(
+      "TEMPLATES must be a JSON object"
+    );
+  });
+});
+
+describe("buildMessage", () => {
+  it("sends plain text as is and notes estimated end times", () => {
+    expect(buildMessage(">>> Done", "end", "text", COLOR)).toEqual({
+      content: ">>> Done",
+    });
+    expect(
+      buildMessage(">>> Done", "end", "text", COLOR, { approximate: true })
+        .content
+    ).toMatch(/^>>> Done\n-# Clock-out time estimated/);
+  });
+
+  it("shows the text and session times in an embed", () => {
+    const message = buildMessage(">>> Done", "end", "embed", COLOR, {
+      duration: HOUR_MS,
+      activeDuration: HOUR_MS - 60000,
+      idleDuration: 60000,
+      startTime: START_TIME,
+      endTime: START_TIME + HOUR_MS,
+    });
+
+    const [embed] = message.embeds!;
+    expect(message.content).toBeUndefined();
+    expect(embed).toMatchObject({
+      title: "Shift Complete",
+      description: "Done",
+      color: COLOR,
+    });
+    expect(embed!.fields).toEqual([
+      { name: "Duration", value: "01:00:00", inline: true },
+      { name: "Active", value: "00:59:00", inline: true },
+      { name: "Idle", value: "00:01:00", inline: true },
+      {
+        name: "Clocked In",
+        value: `<t:${START_TIME / 1000}:f>`,
+        inline: true,
+      },
+      {
+        name: "Clocked Out",
+        value: `<t:${(START_TIME + HOUR_MS) / 1000}:f>`,
+        inline: true,
+      },
+    ]);
+  });
+
+  it("leaves out the idle split of shifts without idle time", () => {
+    const message = buildMessage("Done", "end", "embed", COLOR, {
+      duration: HOUR_MS,
+      activeDuration: HOUR_MS,
+      idleDuration: 0,
+    });
+
+    expect(message.embeds![0]!.fields).toEqual([
+      { name: "Duration", value: "01:00:00", inline: true },
+    ]);
+  });
+
+  it("marks estimated durations in embeds", () => {
+    const message = buildMessage("Done", "end", "embed", COLOR, {
+      duration: HOUR_MS,
+      approximate: true,
+    });
+
+    expect(message.embeds![0]!.fields).toEqual([
+      { name: "Duration", value: "~01:00:00", inline: true },
+      expect.objectContaining({ name: "Note" }),
+    ]);
+  });
+});
+
+describe("configured messages", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot | undefined;
+
+  beforeEach(() => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+  });
+
+  afterEach(async () => {
+    await running?.bot.stop();
+    running = undefined;
+    removeDataDir(dataDir);
+  });
+
+  it("announces shifts with the configured template as an embed", async () => {
+    running = await startTestBot(clock, {
+      dataDir,
+      env: {
+        MESSAGE_FORMAT: "embed",
+        MESSAGE_TEMPLATES: JSON.stringify({
+          end: "{displayName} clocked {duration} in {game}",
+        }),
+      },
+      members: [WORKER_ID],
+    });
+    const { fake, guild, channel, bot } = running;
+
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+    clock.time += HOUR_MS;
+    fake.setPresence(guild, WORKER_ID, []);
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    await channel.waitForMessages(1);
+    expect(channel.sent[0]!.content).toBeUndefined();
+    expect(sentTexts(channel)[0]).toBe(
+      [
+        "",
+        "Shift Complete",
+        "worker-01 clocked 01:00:00 in Satisfactory",
+        "Duration: 01:00:00",
+        `Clocked In: <t:${START_TIME / 1000}:f>`,
+        `Clocked Out: <t:${(START_TIME + HOUR_MS) / 1000}:f>`,
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  DEFAULT_MONITORING_RULES,
+  evaluateMonitoringRules,
+} from "../src/monitoringRules";
+import { MonitoringCandidate, MonitoringRules } from "../src/types";
+import { parseMonitoringRules } from "../src/utils";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const MANAGER_ID = "200000000000000002";
+const CREW_ROLE = "300000000000000001";
+const BOSS_ROLE = "300000000000000002";
+const HOUR_MS = 60 * 60 * 1000;
+const NO_MAPPING = { mapping: {}, defaultName: "Employee" };
+
+describe("evaluateMonitoringRules", () => {
+  function decide(
+    rules: Partial<MonitoringRules>,
+    candidate: Partial<MonitoringCandidate> = {}
+  ): string {
+    return evaluateMonitoringRules(
+      {
+        userId: WORKER_ID,
+        roleIds: [],
+        hasChannelAccess: true,
+        ...candidate,
+      },
+      { ...DEFAULT_MONITORING_RULES, ...rules },
+      NO_MAPPING
+    ).rule;
+  }
+
+  it("monitors every member who can view the target channel by default", () => {
+    expect(decide({})).toBe("default");
+    expect(decide({}, { hasChannelAccess: false })).toBe("channelAccess");
+  });
+
+  it("lets the deny list win over the allow list and roles", () => {
+    expect(
+      decide(
+        { denyUsers: [WORKER_ID], allowUsers: [WORKER_ID] },
+        { roleIds: [CREW_ROLE] }
+      )
+    ).toBe("denyUsers");
+  });
+
+  it("lets allowed users skip the role and mapping rules but not channel access", () => {
+    const rules = {
+      allowUsers: [WORKER_ID],
+      excludeRoles: [BOSS_ROLE],
+      requireWorkerMapping: true,
+    };
+    expect(decide(rules, { roleIds: [BOSS_ROLE] })).toBe("allowUsers");
+    expect(decide(rules, { hasChannelAccess: false })).toBe("channelAccess");
+  });
+
+  it("excludes roles before checking included ones", () => {
+    const rules = { includeRoles: [CREW_ROLE], excludeRoles: [BOSS_ROLE] };
+    expect(decide(rules, { roleIds: [CREW_ROLE] })).toBe("includeRoles");
+    expect(decide(rules, { roleIds: [CREW_ROLE, BOSS_ROLE] })).toBe(
+      "excludeRoles"
+    );
+    expect(
+      evaluateMonitoringRules(
+        { userId: WORKER_ID, roleIds: [], hasChannelAccess: true },
+        { ...DEFAULT_MONITORING_RULES, ...rules },
+        NO_MAPPING
+      )
+    ).toEqual({
+      monitored: false,
+      rule: "includeRoles",
+      reason: "has none of the included roles",
+    });
+  });
+
+  it("requires a worker mapping entry when configured", () => {
+    const rules = { ...DEFAULT_MONITORING_RULES, requireWorkerMapping: true };
+    const candidate = {
+      userId: WORKER_ID,
+      roleIds: [],
+      hasChannelAccess: true,
+    };
+    expect(evaluateMonitoringRules(candidate, rules, NO_MAPPING).rule).toBe(
+      "requireWorkerMapping"
+    );
+    expect(
+      evaluateMonitoringRules(candidate, rules, {
+        mapping: { [WORKER_ID]: "Pioneer" },
+        defaultName: "Employee",
+      })
+    ).toMatchObject({ monitored: true, rule: "default" });
+  });
+});
+
+describe("parseMonitoringRules", () => {
+  it("keeps the defaults for omitted rules", () => {
+    expect(
+      parseMonitoringRules(
+        { excludeRoles: [BOSS_ROLE] },
+        "MONITORING_RULES",
+        DEFAULT_MONITORING_RULES
+      )
+    ).toEqual({ ...DEFAULT_MONITORING_RULES, excludeRoles: [BOSS_ROLE] });
+  });
+
+  it("rejects unknown rules and invalid IDs", () => {
+    expect(() =>
+      parseMonitoringRules(
+        { includeRole: [CREW_ROLE] },
+        "MONITORING_RULES",
+        DEFAULT_MONITORING_RULES
+      )
+    ).toThrow("MONITORING_RULES.includeRole is not a monitoring rule");
+    expect(() =>
+      parseMonitoringRules(
+        { denyUsers: ["someone"] },
+        "MONITORING_RULES",
+        DEFAULT_MONITORING_RULES
+      )
+    ).toThrow("MONITORING_RULES.denyUsers must be an array of Discord IDs");
+    expect(() =>
+      parseMonitoringRules(
+        { requireWorkerMapping: "yes" },
+        "MONITORING_RULES",
+        DEFAULT_MONITORING_RULES
+      )
+    ).toThrow("MONITORING_RULES.requireWorkerMapping must be true or false");
+  });
+});
+
+describe("monitoring rules of the bot", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot | undefined;
+
+  beforeEach(() => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+  });
+
+  afterEach(async () => {
+    await running?.bot.stop();
+    running = undefined;
+    removeDataDir(dataDir);
+  });
+
+  it("ignores excluded members and ends the shift of members who get excluded", async () => {
+    running = await startTestBot(clock, {
+      dataDir,
+      env: {
+        MONITORING_RULES: JSON.stringify({ excludeRoles: [BOSS_ROLE] }),
+      },
+    });
+    const { fake, guild, channel, bot } = running;
+    guild.addMember(WORKER_ID, "worker");
+    guild.addMember(MANAGER_ID, "manager", { roles: [BOSS_ROLE] });
+    const monitor = bot.getGuildMonitor(GUILD_ID)!;
+    await monitor.updateMonitoredUsers();
+
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    fake.setPresence(guild, MANAGER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+    expect(monitor.getActiveSessionCount()).toBe(1);
+
+    clock.time += HOUR_MS;
+    fake.setMemberRoles(guild, WORKER_ID, [BOSS_ROLE]);
+    await fake.settle();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("01:00:00");
+    expect(monitor.getActiveSessionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { promises as fs } from "fs";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const HOUR_MS = 60 * 60 * 1000;
+/** Longer than the default grace period a stopped shift waits out */
+const GRACE_MS = 2 * 60 * 1000;
+
+describe("gateway outage reconciliation", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot;
+
+  beforeEach(async () => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+    running = await startTestBot(clock, { dataDir, members: [WORKER_ID] });
+
+    const { fake, guild } = running;
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+    clock.time += HOUR_MS;
+    fake.disconnectGateway();
+    await fake.settle();
+
+    // The player stops while the update cannot be delivered
+    clock.time += HOUR_MS;
+    fake.setPresence(guild, WORKER_ID, [], "offline");
+  });
+
+  afterEach(async () => {
+    await running.bot.stop();
+    removeDataDir(dataDir);
+  });
+
+  it("ends shifts missed during the outage at the disconnect time", async () => {
+    const { fake, channel } = running;
+
+    fake.resumeGateway();
+    await fake.settle();
+
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("~01:00:00");
+  });
+
+  it("keeps shifts open while presences cannot be fetched", async () => {
+    const { fake, guild, channel, bot } = running;
+
+    guild.failMemberFetches(1);
+    fake.resumeGateway();
+    await fake.settle();
+
+    const monitor = bot.getGuildMonitor(GUILD_ID)!;
+    expect(monitor.getActiveSessionCount()).toBe(1);
+    expect(channel.sent).toHaveLength(0);
+    await expect(
+      fs.access(running.config.sessionHistoryFile)
+    ).rejects.toThrow();
+
+    // The next monitoring cycle fetches again and catches up
+    await monitor.performMonitoringCycle();
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("~01:00:00");
+    expect(monitor.getActiveSessionCount()).toBe(0);
+  });
+
+  it("keeps running when reconciling a guild fails", async () => {
+    const { fake, guild, channel, bot } = running;
+    const monitor = bot.getGuildMonitor(GUILD_ID)!;
+    jest
+      .spyOn(monitor, "reconcileAfterOutage")
+      .mockRejectedValueOnce(new Error("Discord is unavailable"));
+
+    fake.resumeGateway();
+    await fake.settle();
+    expect(channel.sent).toHaveLength(0);
+
+    // Presence updates are still handled once the gateway is back
+    fake.setPresence(guild, WORKER_ID, [], "offline");
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await monitor.performMonitoringCycle();
+    await channel.waitForMessages(1);
+    expect(sentTexts(channel)[0]).toContain("02:00:00");
+  });
+});
@@ -0,0 +1,106 @@
+import { promises as fs, readdirSync } from "fs";
+import path from "path";
+import { createPresenceRecorder } from "../src/presenceRecorder";
+import { PresenceRecord } from "../src/types";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  CHANNEL_ID,
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  START_TIME,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const OTHER_ID = "200000000000000002";
+
+function observation(userId: string, time: number): PresenceRecord {
+  return {
+    time,
+    source: "presence",
+    channelId: CHANNEL_ID,
+    guildId: GUILD_ID,
+    userId,
+    status: "online",
+    activities: [gameActivity("Satisfactory")],
+  };
+}
+
+describe("PresenceRecorder", () => {
+  let dataDir: string;
+  let filePath: string;
+  const logger = () => {};
+
+  /** Recorder that rotates after every record, keeping every file */
+  const rotatingOptions = () => ({
+    path: filePath,
+    maxSize: 1,
+    rotateInterval: 0,
+    maxFiles: 10,
+  });
+
+  beforeEach(() => {
+    dataDir = createDataDir();
+    filePath = path.join(dataDir, "presence-record.jsonl");
+  });
+
+  /** Recorder without rotation */
+  const options = () => ({
+    path: filePath,
+    maxSize: 0,
+    rotateInterval: 0,
+    maxFiles: 0,
+  });
+
+  afterEach(() => {
+    removeDataDir(dataDir);
+  });
+
+  it("exports the records of one user", async () => {
+    const recorder = createPresenceRecorder(options(), logger);
+    void recorder.record(observation(WORKER_ID, START_TIME));
+    void recorder.record(observation(OTHER_ID, START_TIME + 1));
+    void recorder.record(observation(WORKER_ID, START_TIME + 2));
+
+    const records = await recorder.getUserRecords(WORKER_ID);
+    expect(records.map((record) => record.time)).toEqual([
+      START_TIME,
+      START_TIME + 2,
+    ]);
+  });
+
+  it("deletes the records of one user and keeps the others", async () => {
+    const recorder = createPresenceRecorder(options(), logger);
+    void recorder.record(observation(WORKER_ID, START_TIME));
+    void recorder.record(observation(OTHER_ID, START_TIME + 1));
+
+    expect(await recorder.forgetUser(WORKER_ID)).toBe(1);
+    await recorder.record(observation(WORKER_ID, START_TIME + 2));
+
+    const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+    expect(
+      lines.map((line) => (JSON.parse(line) as PresenceRecord).time)
+    ).toEqual([START_TIME + 1, START_TIME + 2]);
+  });
+
+  it("exports nothing before anything was recorded", async () => {
+    const recorder = createPresenceRecorder(options(), logger);
+    expect(await recorder.getUserRecords(WORKER_ID)).toEqual([]);
+    expect(await recorder.forgetUser(WORKER_ID)).toBe(0);
+  });
+
+  it("exports and deletes records of rotated files", async () => {
+    const recorder = createPresenceRecorder(rotatingOptions(), logger);
+    await recorder.record(observation(WORKER_ID, START_TIME));
+    await recorder.record(observation(OTHER_ID, START_TIME + 1));
+    expect(readdirSync(dataDir)).toHaveLength(2);
+
+    expect(
+      (await recorder.getUserRecords(WORKER_ID)).map((record) => record.time)
+    ).toEqual([START_TIME]);
+    expect(await recorder.forgetUser(WORKER_ID)).toBe(1);
+    expect(await recorder.getUserRecords(WORKER_ID)).toEqual([]);
+    expect(await recorder.getUserRecords(OTHER_ID)).toHaveLength(1);
+    await recorder.close();
+  });
+});
@@ -0,0 +1,69 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createPrivacyStore } from "../src/privacy";
+import {
+  createDataDir,
+  removeDataDir,
+  START_TIME,
+  startTestBot,
+} from "./support/testBot";
+
+describe("PrivacyStore", () => {
+  let dataDir: string;
+  let filePath: string;
+  const logger = () => {};
+
+  beforeEach(() => {
+    dataDir = createDataDir();
+    filePath = path.join(dataDir, "privacy.json");
+  });
+
+  afterEach(() => {
+    removeDataDir(dataDir);
+  });
+
+  it("starts with everyone tracked when the file does not exist", async () => {
+    const store = createPrivacyStore(filePath, logger);
+    await store.load();
+    expect(store.isOptedOut("200000000000000001")).toBe(false);
+  });
+
+  it("keeps opt-outs across restarts", async () => {
+    const store = createPrivacyStore(filePath, logger);
+    await store.optOut("200000000000000001");
+
+    const reloaded = createPrivacyStore(filePath, logger);
+    await reloaded.load();
+    expect(reloaded.isOptedOut("200000000000000001")).toBe(true);
+  });
+
+  it.each([
+    ["invalid JSON", "{"],
+    ["an unknown version", JSON.stringify({ version: 99, optedOut: {} })],
+    ["an invalid opt-out list", JSON.stringify({ version: 1, optedOut: [1] })],
+  ])("refuses to load a file with %s", async (_, contents) => {
+    await fs.writeFile(filePath, contents, "utf8");
+
+    const store = createPrivacyStore(filePath, logger);
+    await expect(store.load()).rejects.toThrow("Corrupt privacy file");
+  });
+
+  it("stops the bot from starting when the file is corrupt", async () => {
+    await fs.writeFile(filePath, "{", "utf8");
+    const exit = jest
+      .spyOn(process, "exit")
+      .mockImplementation(() => undefined as never);
+
+    try {
+      const { bot, fake } = await startTestBot(
+        { time: START_TIME },
+        { dataDir, env: { PRIVACY_FILE: filePath } }
+      );
+      expect(exit).toHaveBeenCalledWith(1);
+      expect(fake.isReady()).toBe(false);
+      await bot.stop();
+    } finally {
+      exit.mockRestore();
+    }
+  });
+});
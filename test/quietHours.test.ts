@@ -0,0 +1,177 @@
+import { formatQuietHours, isQuietTime } from "../src/quietHours";
+import { parseQuietHours } from "../src/utils";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  sentTexts,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const PARTNER_ID = "200000000000000002";
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+/** Longer than the default grace period a stopped shift waits out */
+const GRACE_MS = 2 * MINUTE_MS;
+
+describe("quiet hours", () => {
+  it("wrap around midnight and include only the start minute", () => {
+    const night = parseQuietHours("23:00-07:00", "QUIET_HOURS")!;
+
+    expect(isQuietTime(night, Date.UTC(2026, 0, 1, 23))).toBe(true);
+    expect(isQuietTime(night, Date.UTC(2026, 0, 2, 6, 59))).toBe(true);
+    expect(isQuietTime(night, Date.UTC(2026, 0, 2, 7))).toBe(false);
+    expect(isQuietTime(night, Date.UTC(2026, 0, 1, 22, 59))).toBe(false);
+  });
+
+  it("follow the configured timezone", () => {
+    const night = parseQuietHours("23:00-07:00 Europe/Berlin", "QUIET_HOURS")!;
+
+    // 22:30 UTC is 23:30 in Berlin in winter
+    expect(isQuietTime(night, Date.UTC(2026, 0, 1, 22, 30))).toBe(true);
+    expect(isQuietTime(night, Date.UTC(2026, 0, 2, 6, 30))).toBe(false);
+    expect(formatQuietHours(night)).toBe("23:00-07:00 Europe/Berlin");
+  });
+
+  it("reject invalid schedules", () => {
+    expect(parseQuietHours(" ", "QUIET_HOURS")).toBeNull();
+    expect(() => parseQuietHours("late", "QUIET_HOURS")).toThrow(
+      'QUIET_HOURS must be a schedule like "23:00-07:00"'
+    );
+    expect(() => parseQuietHours("23:00-24:00", "QUIET_HOURS")).toThrow(
+      "QUIET_HOURS must use times between 00:00 and 23:59"
+    );
+    expect(() => parseQuietHours("07:00-07:00", "QUIET_HOURS")).toThrow(
+      "QUIET_HOURS must end at a different time than it starts"
+    );
+    expect(() =>
+      parseQuietHours("23:00-07:00 Mars/Base", "QUIET_HOURS")
+    ).toThrow('QUIET_HOURS has unknown timezone "Mars/Base"');
+  });
+});
+
+describe("digests", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot | undefined;
+
+  beforeEach(() => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+  });
+
+  afterEach(async () => {
+    await running?.bot.stop();
+    running = undefined;
+    removeDataDir(dataDir);
+  });
+
+  /** Play for an hour from now and stop */
+  async function playShifts(bot: TestBot, userIds: string[]): Promise<void> {
+    const { fake, guild } = bot;
+    for (const userId of userIds) {
+      fake.setPresence(guild, userId, [gameActivity("Satisfactory")]);
+    }
+    await fake.settle();
+    clock.time += HOUR_MS;
+    for (const userId of userIds) {
+      fake.setPresence(guild, userId, []);
+    }
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await bot.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+  }
+
+  it("holds shift ends during quiet hours and posts them as one digest afterwards", async () => {
+    // The test clock starts at 12:00 UTC
+    running = await startTestBot(clock, {
+      dataDir,
+      env: { QUIET_HOURS: "12:00-14:00" },
+      members: [WORKER_ID, PARTNER_ID],
+    });
+    await playShifts(running, [WORKER_ID, PARTNER_ID]);
+    expect(running.channel.sent).toHaveLength(0);
+
+    clock.time = START_TIME + 2 * HOUR_MS;
+    await running.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    await running.channel.waitForMessages(1);
+    const [digest] = sentTexts(running.channel);
+    expect(digest).toContain("While you slept, 2 pioneers logged 2h");
+    expect(digest).toContain("worker-01: 01:00:00 in Satisfactory");
+    expect(digest).toContain("worker-02: 01:00:00 in Satisfactory");
+  });
+
+  it("keeps held announcements across a restart", async () => {
+    const first = await startTestBot(clock, {
+      dataDir,
+      env: { QUIET_HOURS: "12:00-14:00" },
+      members: [WORKER_ID],
+    });
+    await playShifts(first, [WORKER_ID]);
+    await first.bot.stop();
+
+    clock.time = START_TIME + 2 * HOUR_MS;
+    running = await startTestBot(clock, {
+      dataDir,
+      env: { QUIET_HOURS: "12:00-14:00" },
+      fake: first.fake,
+    });
+    await running.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    await running.channel.waitForMessages(1);
+    expect(sentTexts(running.channel)[0]).toContain(
+      "worker-01: 01:00:00 in Satisfactory"
+    );
+  });
+
+  it("batches shift ends arriving within the batch window", async () => {
+    running = await startTestBot(clock, {
+      dataDir,
+      env: { ANNOUNCEMENT_BATCH_WINDOW: "300" },
+      members: [WORKER_ID, PARTNER_ID],
+    });
+    const { fake, guild, channel, bot } = running;
+    const monitor = bot.getGuildMonitor(GUILD_ID)!;
+    fake.setPresence(guild, PARTNER_ID, [gameActivity("Satisfactory")]);
+    await playShifts(running, [WORKER_ID]);
+
+    // The second shift ends a minute later and joins the batch
+    clock.time += MINUTE_MS;
+    fake.setPresence(guild, PARTNER_ID, []);
+    await fake.settle();
+    clock.time += GRACE_MS;
+    await monitor.performMonitoringCycle();
+    expect(channel.sent).toHaveLength(0);
+
+    clock.time += 5 * MINUTE_MS;
+    await monitor.performMonitoringCycle();
+
+    await channel.waitForMessages(1);
+    const [digest] = sentTexts(channel);
+    expect(digest).toContain("Just now, 2 pioneers logged 2h");
+  });
+
+  it("posts a batch without company as the original message", async () => {
+    running = await startTestBot(clock, {
+      dataDir,
+      env: { ANNOUNCEMENT_BATCH_WINDOW: "300" },
+      members: [WORKER_ID],
+    });
+    await playShifts(running, [WORKER_ID]);
+    expect(running.channel.sent).toHaveLength(0);
+
+    clock.time += 5 * MINUTE_MS;
+    await running.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+
+    await running.channel.waitForMessages(1);
+    const [message] = sentTexts(running.channel);
+    expect(message).toContain("01:00:00");
+    expect(message).not.toContain("Just now");
+  });
+});
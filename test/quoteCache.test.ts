@@ -0,0 +1,97 @@
+import { QuoteCache } from "../src/quoteCache";
+import { GeminiQuote } from "../src/types";
+import { START_TIME } from "./support/testBot";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("QuoteCache", () => {
+  let generated: number;
+  /** Number of upcoming quote requests that fail */
+  let failures: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START_TIME });
+    generated = 0;
+    failures = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createCache(): QuoteCache {
+    return new QuoteCache(
+      "test",
+      3,
+      { lowWatermark: 2, refillConcurrency: 3, maxQuoteAgeMs: HOUR_MS },
+      async (): Promise<GeminiQuote> => {
+        if (failures > 0) {
+          failures--;
+          throw new Error("Quote API unavailable");
+        }
+        return {
+          text: `Quote ${++generated}`,
+          timestamp: Date.now(),
+          isFallback: false,
+          source: "test",
+        };
+      },
+      () => {}
+    );
+  }
+
+  it("refills a cache only once it drops below the low watermark", async () => {
+    const cache = createCache();
+    cache.take();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(generated).toBe(3);
+
+    expect(cache.take()?.text).toBe("Quote 1");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(generated).toBe(3);
+    expect(cache.size()).toBe(2);
+
+    expect(cache.take()?.text).toBe("Quote 2");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(generated).toBe(5);
+    expect(cache.size()).toBe(3);
+    cache.stop();
+  });
+
+  it("backs off before refilling again after a failed request", async () => {
+    failures = 3;
+    const cache = createCache();
+    cache.take();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(cache.size()).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(cache.size()).toBe(0);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(cache.size()).toBe(3);
+    cache.stop();
+  });
+
+  it("refills a cache once its quotes expire", async () => {
+    const cache = createCache();
+    expect(cache.take()).toBeUndefined();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(cache.size()).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(HOUR_MS + 1);
+    expect(generated).toBe(6);
+    expect(cache.size()).toBe(3);
+    expect(cache.take()?.text).toBe("Quote 4");
+    cache.stop();
+  });
+
+  it("stops expiring quotes once stopped", async () => {
+    const cache = createCache();
+    cache.take();
+    await jest.advanceTimersByTimeAsync(0);
+    cache.stop();
+
+    await jest.advanceTimersByTimeAsync(2 * HOUR_MS);
+    expect(generated).toBe(3);
+  });
+});
@@ -0,0 +1,61 @@
+import { CircuitOpenError } from "../src/circuitBreaker";
+import { CachedQuoteProvider } from "../src/quoteProvider";
+import { START_TIME } from "./support/testBot";
+
+/** Provider whose API fails every request */
+class FailingQuoteProvider extends CachedQuoteProvider {
+  requests = 0;
+
+  constructor(failureThreshold: number) {
+    super("failing", 3, { failureThreshold, cooldownMs: 60000 }, () => {});
+  }
+
+  protected async requestQuote(): Promise<string> {
+    this.requests++;
+    throw new Error("API unavailable");
+  }
+}
+
+describe("CachedQuoteProvider", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START_TIME });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("opens the circuit after as many failed requests as the threshold", async () => {
+    const provider = new FailingQuoteProvider(2);
+
+    const first = provider.generateQuote();
+    const rejected = expect(first).rejects.toBeInstanceOf(CircuitOpenError);
+    await jest.runAllTimersAsync();
+    await rejected;
+
+    expect(provider.requests).toBe(2);
+    expect(provider.getCircuitBreakerState()).toMatchObject({
+      isOpen: true,
+      failureCount: 2,
+    });
+    await expect(provider.generateQuote()).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+    expect(provider.requests).toBe(2);
+  });
+
+  it("gives up after the retry limit while the circuit stays closed", async () => {
+    const provider = new FailingQuoteProvider(5);
+
+    const first = provider.generateQuote();
+    const rejected = expect(first).rejects.toThrow("API unavailable");
+    await jest.runAllTimersAsync();
+    await rejected;
+
+    expect(provider.requests).toBe(3);
+    expect(provider.getCircuitBreakerState()).toMatchObject({
+      isOpen: false,
+      failureCount: 3,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parsePresenceRecords } from "../src/presenceRecorder";
+import { replayPresenceRecords } from "../src/replay";
+import { ReplayedSession } from "../src/types";
+import { gameActivity } from "./support/fakeDiscord";
+import {
+  createDataDir,
+  GUILD_ID,
+  removeDataDir,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const WORKER_ID = "200000000000000001";
+const HOUR_MS = 60 * 60 * 1000;
+/** Longer than the default grace period a stopped shift waits out */
+const GRACE_MS = 2 * 60 * 1000;
+
+describe("presence replay", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let env: NodeJS.ProcessEnv;
+  let running: TestBot | undefined;
+
+  beforeEach(() => {
+    clock = { time: START_TIME };
+    dataDir = createDataDir();
+    env = { PRESENCE_RECORD_FILE: path.join(dataDir, "presence-record.jsonl") };
+  });
+
+  afterEach(async () => {
+    await running?.bot.stop();
+    running = undefined;
+    removeDataDir(dataDir);
+  });
+
+  /** Stop the running bot and replay what it recorded */
+  async function replayRecording(): Promise<ReplayedSession[]> {
+    const { config } = running!;
+    await running!.bot.stop();
+    running = undefined;
+
+    const raw = await fs.readFile(env["PRESENCE_RECORD_FILE"]!, "utf8");
+    return replayPresenceRecords(parsePresenceRecords(raw).records, config);
+  }
+
+  it("ends shifts missed during a gateway outage at the disconnect time", async () => {
+    running = await startTestBot(clock, { dataDir, env, members: [WORKER_ID] });
+    const { fake, guild, channel } = running;
+
+    fake.setPresence(guild, WORKER_ID, [gameActivity("Satisfactory")]);
+    await fake.settle();
+    clock.time += HOUR_MS;
+    fake.disconnectGateway();
+    await fake.settle();
+    clock.time += HOUR_MS;
+    fake.setPresence(guild, WORKER_ID, [], "offline");
+    fake.resumeGateway();
+    await fake.settle();
+    await channel.waitForMessages(1);
+
+    expect(await replayRecording()).toEqual([
+      expect.objectContaining({
+        userId: WORKER_ID,
+        startTime: START_TIME,
+        endTime: START_TIME + HOUR_MS,
+        approximate: true,
+        open: false,
+      }),
+    ]);
+  });
+
+  it("finishes shifts resumed after a restart like the bot did", async () => {
+    const first = await startTestBot(clock, {
+      dataDir,
+      env,
+      members: [WORKER_ID],
+    });
+    first.fake.setPresence(first.guild, WORKER_ID, [
+      gameActivity("Satisfactory"),
+    ]);
+    await first.fake.settle();
+    clock.time += HOUR_MS;
+    first.fake.setPresence(first.guild, WORKER_ID, []);
+    await first.fake.settle();
+    await first.bot.stop();
+
+    clock.time += GRACE_MS;
+    running = await startTestBot(clock, { dataDir, env, fake: first.fake });
+    await running.channel.waitForMessages(1);
+
+    expect(await replayRecording()).toEqual([
+      expect.objectContaining({
+        startTime: START_TIME,
+        endTime: START_TIME + HOUR_MS,
+        open: false,
+      }),
+    ]);
+  });
+
+  it("drops shifts the bot closed quietly at a restart", async () => {
+    const first = await startTestBot(clock, {
+      dataDir,
+      env,
+      members: [WORKER_ID],
+    });
+    first.fake.setPresence(first.guild, WORKER_ID, [
+      gameActivity("Satisfactory"),
+    ]);
+    await first.fake.settle();
+    clock.time += HOUR_MS;
+    await first.bot.stop();
+
+    // The player stops while the bot is down
+    first.fake.setPresence(first.guild, WORKER_ID, []);
+    clock.time += HOUR_MS;
+    running = await startTestBot(clock, { dataDir, env, fake: first.fake });
+    clock.time += GRACE_MS;
+    await running.bot.getGuildMonitor(GUILD_ID)!.performMonitoringCycle();
+    expect(running.channel.sent).toHaveLength(0);
+
+    expect(await replayRecording()).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { promises as fs } from "fs";
+import { createSessionRecord } from "./support/sessions";
+import {
+  createDataDir,
+  createTestConfig,
+  removeDataDir,
+  START_TIME,
+  startTestBot,
+  TestBot,
+  TestClock,
+} from "./support/testBot";
+
+const FIRST_ID = "200000000000000001";
+const SECOND_ID = "200000000000000002";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+describe("/shiftstats", () => {
+  let clock: TestClock;
+  let dataDir: string;
+  let running: TestBot;
+
+  beforeEach(async () => {
+    clock = { time: START_TIME + 2 * DAY_MS + HOUR_MS };
+    dataDir = createDataDir();
+
+    const records = [
+      createSessionRecord(FIRST_ID, START_TIME, 2 * HOUR_MS, HOUR_MS / 2),
+      createSessionRecord(SECOND_ID, START_TIME, HOUR_MS),
+      createSessionRecord(FIRST_ID, START_TIME + DAY_MS, 4 * HOUR_MS),
+      createSessionRecord(FIRST_ID, START_TIME + 2 * DAY_MS, 3 * HOUR_MS),
+    ];
+    await fs.writeFile(
+      createTestConfig(dataDir).sessionHistoryFile,
+      records.map((record) => `${JSON.stringify(record)}\n`).join(""),
+      "utf8"
+    );
+
+    running = await startTestBot(clock, {
+      dataDir,
+      members: [FIRST_ID, SECOND_ID],
+    });
+  });
+
+  afterEach(async () => {
+    await running.bot.stop();
+    removeDataDir(dataDir);
+  });
+
+  async function runStats(
+    userId: string,
+    subcommand: string,
+    values: Record<string, number> = {}
+  ): Promise<string> {
+    const { fake, guild } = running;
+    const interaction = fake.runCommand(
+      guild,
+      userId,
+      "shiftstats",
+      subcommand,
+      values
+    );
+    await fake.settle();
+    expect(interaction.replies).toHaveLength(1);
+    return interaction.replies[0]!.content;
+  }
+
+  it("reports a player's totals, longest shift and streak", async () => {
+    const reply = await runStats(FIRST_ID, "me");
+    expect(reply.split("\n")).toEqual([
+      "**Your shifts** (all time)",
+      "Shifts: 3",
+      "Total: 09:00:00 (08:30:00 active, 00:30:00 idle)",
+      "Average: 03:00:00",
+      "Longest: 04:00:00 in Satisfactory on 2026-01-02",
+      "Current streak: 3 days",
+    ]);
+  });
+
+  it("limits the totals to the last days", async () => {
+    const reply = await runStats(FIRST_ID, "me", { days: 1 });
+    expect(reply).toContain("**Your shifts** (last 1 day)");
+    expect(reply).toContain("Shifts: 1");
+  });
+
+  it("ends the streak after a day without shifts", async () => {
+    clock.time += 2 * DAY_MS;
+    expect(await runStats(FIRST_ID, "me")).toContain("Current streak: 0 days");
+  });
+
+  it("ranks workers by shift time and leaves out opted-out players", async () => {
+    expect(await runStats(FIRST_ID, "leaderboard")).toBe(
+      [
+        "**Top workers** (all time)",
+        "1. worker-01: 09:00:00 in 3 shifts",
+        "2. worker-02: 01:00:00 in 1 shift",
+      ].join("\n")
+    );
+
+    const { fake, guild } = running;
+    fake.runCommand(guild, FIRST_ID, "workbot", "optout");
+    await fake.settle();
+    expect(await runStats(SECOND_ID, "leaderboard")).toBe(
+      ["**Top workers** (all time)", "1. worker-02: 01:00:00 in 1 shift"].join(
+        "\n"
+      )
+    );
+  });
+
+  it("lists the shifts of each day", async () => {
+    expect(await runStats(SECOND_ID, "daily", { days: 2 })).toBe(
+      [
+        "**Shifts per day** (last 2 days, UTC)",
+        "2026-01-02: 1 shift, 04:00:00",
+        "2026-01-03: 1 shift, 03:00:00",
+      ].join("\n")
+    );
+  });
+
+  it("is only available inside a server", async () => {
+    const { fake } = running;
+    const interaction = fake.runCommand(null, FIRST_ID, "shiftstats", "me");
+    await fake.settle();
+    expect(interaction.replies[0]!.content).toContain("inside a server");
+  });
+});
@@ -0,0 +1,624 @@
+import { EventEmitter } from "events";
+import { ActivityType, Client, Status } from "discord.js";
+import { GameActivity, OutboundMessage } from "../../src/types";
+
+/** How often waitForMessages checks for delivered messages */
+const MESSAGE_POLL_MS = 10;
+
+/**
+ * Discord user of a fake member
+ */
+export interface FakeUser {
+  /** Discord user ID */
+  id: string;
+  /** Username shown in messages */
+  username: string;
+  /** Whether the user is a bot */
+  bot: boolean;
+}
+
+/**
+ * Presence of a fake member, as delivered in presence updates
+ */
+export interface FakePresence {
+  /** User the presence belongs to */
+  user: FakeUser;
+  /** Guild the presence was reported in */
+  guild: { id: string };
+  /** Presence status ("online", "idle", "dnd" or "offline") */
+  status: string;
+  /** Current activities */
+  activities: GameActivity[];
+}
+
+/**
+ * Member of a fake guild
+ */
+export interface FakeMember {
+  /** Discord user ID */
+  id: string;
+  /** Discord user */
+  user: FakeUser;
+  /** Guild the member belongs to */
+  guild: { id: string };
+  /** Current presence (null until one is set) */
+  presence: FakePresence | null;
+  /** Roles of the member, keyed by role ID */
+  roles: { cache: Map<string, { id: string }> };
+  /** Whether the member can view the target channel of the guild */
+  canViewChannel: boolean;
+}
+
+/**
+ * Options of a member added to a fake guild
+ */
+export interface FakeMemberOptions {
+  /** Whether the member is a bot (default: false) */
+  bot?: boolean;
+  /** Whether the member can view the target channel (default: true) */
+  canViewChannel?: boolean;
+  /** Role IDs of the member (default: none) */
+  roles?: string[];
+}
+
+/**
+ * Options of a member fetch the fake guild reacts to
+ */
+export interface FakeFetchOptions {
+  /** User IDs to fetch (default: every member) */
+  user?: string[];
+  /** Whether current presences are fetched along with the members */
+  withPresences?: boolean;
+}
+
+/**
+ * Guild of the fake Discord client with an in-memory member list
+ */
+export class FakeGuild {
+  readonly id: string;
+  readonly name: string;
+  /** Slash commands registered in the guild */
+  registeredCommands: unknown[] = [];
+  readonly members = {
+    cache: new Map<string, FakeMember>(),
+    fetch: async (
+      options: FakeFetchOptions = {}
+    ): Promise<Map<string, FakeMember>> => {
+      if (this.failingFetches > 0) {
+        this.failingFetches--;
+        throw new Error("Members didn't arrive in time.");
+      }
+      if (options.withPresences) this.fetchPresences(options.user);
+      return this.members.cache;
+    },
+  };
+  readonly presences = {
+    cache: {
+      /** Get the cached presence of a member */
+      get: (userId: string): FakePresence | undefined =>
+        this.members.cache.get(userId)?.presence ?? undefined,
+      /** Check whether a member has a cached presence */
+      has: (userId: string): boolean =>
+        Boolean(this.members.cache.get(userId)?.presence),
+      /** Cache the presence of a member */
+      set: (userId: string, presence: FakePresence): void => {
+        const member = this.members.cache.get(userId);
+        if (member) member.presence = presence;
+      },
+      /** Forget the cached presence of a member */
+      delete: (userId: string): boolean => {
+        const member = this.members.cache.get(userId);
+        if (!member?.presence) return false;
+        member.presence = null;
+        return true;
+      },
+    },
+  };
+  /** Presences as Discord reports them now, including missed updates */
+  private currentPresences: Map<string, FakePresence> = new Map();
+  /** Number of following member fetches that time out */
+  private failingFetches = 0;
+  readonly commands = {
+    set: async (commands: unknown[]): Promise<unknown[]> => {
+      this.registeredCommands = commands;
+      return commands;
+    },
+  };
+
+  constructor(id: string, name: string) {
+    this.id = id;
+    this.name = name;
+  }
+
+  /**
+   * Add a member without an event (found by the next reconciliation)
+   * @param userId Discord user ID
+   * @param username Username shown in messages
+   * @param options Bot flag, channel access and roles
+   * @returns Added member
+   */
+  addMember(
+    userId: string,
+    username: string,
+    options: FakeMemberOptions = {}
+  ): FakeMember {
+    const member: FakeMember = {
+      id: userId,
+      user: { id: userId, username, bot: options.bot ?? false },
+      guild: { id: this.id },
+      presence: null,
+      roles: {
+        cache: new Map(
+          (options.roles ?? []).map((roleId) => [roleId, { id: roleId }])
+        ),
+      },
+      canViewChannel: options.canViewChannel ?? true,
+    };
+    this.members.cache.set(userId, member);
+    return member;
+  }
+
+  /**
+   * Store the presence Discord reports for a member
+   * @param presence Current presence of the member
+   * @param isDelivered Whether the bot received the update (false while
+   *   the gateway is disconnected)
+   */
+  setCurrentPresence(presence: FakePresence, isDelivered: boolean): void {
+    this.currentPresences.set(presence.user.id, presence);
+    const member = this.members.cache.get(presence.user.id);
+    if (member && isDelivered) member.presence = presence;
+  }
+
+  /**
+   * Refresh cached presences from the current ones, as a member fetch with
+   * presences does (offline members are not included)
+   * @param userIds Users to fetch (default: every member)
+   */
+  private fetchPresences(userIds?: string[]): void {
+    for (const userId of userIds ?? this.members.cache.keys()) {
+      const member = this.members.cache.get(userId);
+      const presence = this.currentPresences.get(userId);
+      if (member && presence && presence.status !== "offline") {
+        member.presence = presence;
+      }
+    }
+  }
+
+  /**
+   * Make the following member fetches time out, as they do when Discord
+   * does not answer
+   * @param count Number of fetches that fail
+   */
+  failMemberFetches(count: number): void {
+    this.failingFetches = count;
+  }
+
+  /**
+   * Remove a member without an event (noticed by the next reconciliation)
+   * @param userId Discord user ID
+   */
+  removeMember(userId: string): void {
+    this.members.cache.delete(userId);
+  }
+}
+
+/**
+ * Text channel of a fake guild that records the messages sent to it
+ */
+export class FakeTextChannel {
+  readonly id: string;
+  readonly name: string;
+  readonly guild: FakeGuild;
+  /** Messages sent to the channel, oldest first */
+  readonly sent: OutboundMessage[] = [];
+
+  constructor(id: string, name: string, guild: FakeGuild) {
+    this.id = id;
+    this.name = name;
+    this.guild = guild;
+  }
+
+  isTextBased(): boolean {
+    return true;
+  }
+
+  isSendable(): boolean {
+    return true;
+  }
+
+  isDMBased(): boolean {
+    return false;
+  }
+
+  /**
+   * Check the permissions of a member in the channel
+   * @param member Member of the guild
+   * @returns Permissions granting only ViewChannel, when the member has it
+   */
+  permissionsFor(member: FakeMember): { has: (permission: string) => boolean } {
+    return {
+      has: (permission) =>
+        permission === "ViewChannel" && member.canViewChannel,
+    };
+  }
+
+  /**
+   * Record a sent message
+   * @param message Message payload
+   * @returns Promise resolving to the payload
+   */
+  async send(message: OutboundMessage): Promise<OutboundMessage> {
+    this.sent.push(message);
+    return message;
+  }
+
+  /**
+   * Wait until the channel received a number of messages
+   *
+   * Messages go through the message queue, so they arrive shortly after
+   * the event that caused them.
+   * @param count Number of messages to wait for
+   * @param timeoutMs Time to wait before giving up
+   * @returns Messages sent to the channel
+   * @throws Error if fewer messages arrived in time
+   */
+  async waitForMessages(
+    count: number,
+    timeoutMs: number = 1000
+  ): Promise<OutboundMessage[]> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.sent.length < count) {
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Expected ${count} messages in ${this.name}, got ${this.sent.length}`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, MESSAGE_POLL_MS));
+    }
+    return this.sent;
+  }
+}
+
+/**
+ * Slash command invocation that records the bot's replies
+ */
+export class FakeCommandInteraction {
+  readonly commandName: string;
+  readonly guildId: string | null;
+  readonly user: { id: string };
+  /** Replies sent so far, oldest first */
+  readonly replies: { content: string; files: unknown[] }[] = [];
+  readonly options: {
+    getSubcommand: () => string;
+    getInteger: (name: string) => number | null;
+    getString: (name: string, required?: boolean) => string | null;
+  };
+  replied = false;
+  deferred = false;
+
+  constructor(
+    commandName: string,
+    subcommand: string,
+    guildId: string | null,
+    userId: string,
+    values: Record<string, string | number> = {}
+  ) {
+    this.commandName = commandName;
+    this.guildId = guildId;
+    this.user = { id: userId };
+    this.options = {
+      getSubcommand: () => subcommand,
+      getInteger: (name) =>
+        typeof values[name] === "number" ? values[name] : null,
+      getString: (name) =>
+        typeof values[name] === "string" ? values[name] : null,
+    };
+  }
+
+  isChatInputCommand(): boolean {
+    return true;
+  }
+
+  async reply(options: { content: string; files: unknown[] }): Promise<void> {
+    this.replies.push({ content: options.content, files: options.files });
+    this.replied = true;
+  }
+
+  async followUp(options: {
+    content: string;
+    files: unknown[];
+  }): Promise<void> {
+    this.replies.push({ content: options.content, files: options.files });
+  }
+}
+
+/**
+ * In-memory stand-in for the discord.js client
+ *
+ * It implements the part of the client the bot uses: login, guild text
+ * channels with members and their permissions, and the gateway events
+ * the bot listens to. Presence changes are emitted as presence updates,
+ * and settle() waits for the bot's (async) listeners to finish handling
+ * them, so session behavior can be driven end to end without network
+ * access. Pass it to the bot with asClient().
+ */
+export class FakeDiscordClient extends EventEmitter {
+  readonly user = { id: "0", tag: "WorkBot 3000#0000" };
+  readonly ws = { status: Status.Idle, ping: -1 };
+  readonly channels = {
+    fetch: async (id: string): Promise<FakeTextChannel | null> =>
+      this.textChannels.get(id) ?? null,
+  };
+  private textChannels: Map<string, FakeTextChannel> = new Map();
+  /** Listener results that have not settled yet */
+  private pending: Set<Promise<unknown>> = new Set();
+  /** Errors listeners rejected with, which would stop the real bot */
+  private listenerErrors: unknown[] = [];
+  private ready = false;
+  /** Whether the gateway connection dropped and was not resumed yet */
+  private disconnected = false;
+
+  /**
+   * Register a listener, tracking the promises it returns for settle()
+   * @param eventName Event name
+   * @param listener Event listener
+   * @returns This client
+   */
+  override on(
+    eventName: string | symbol,
+    listener: (...args: unknown[]) => unknown
+  ): this {
+    return super.on(eventName, (...args: unknown[]) => {
+      const result = listener(...args);
+      if (result instanceof Promise) {
+        const remove = () => this.pending.delete(result);
+        this.pending.add(result);
+        result.then(remove, (error: unknown) => {
+          this.listenerErrors.push(error);
+          remove();
+        });
+      }
+    });
+  }
+
+  /**
+   * Add a guild with its target text channel
+   * @param guildId Guild ID
+   * @param channelId Target channel ID
+   * @param name Guild name
+   * @returns Target channel (the guild is its guild property)
+   */
+  addGuild(
+    guildId: string,
+    channelId: string,
+    name: string = `Guild ${guildId}`
+  ): FakeTextChannel {
+    const channel = new FakeTextChannel(
+      channelId,
+      "factory-floor",
+      new FakeGuild(guildId, name)
+    );
+    this.textChannels.set(channelId, channel);
+    return channel;
+  }
+
+  /**
+   * Change the presence of a member and emit a presence update
+   *
+   * While the gateway is disconnected the update is missed: the bot only
+   * sees the new presence once it fetches presences again.
+   * @param guild Guild of the member
+   * @param userId Discord user ID
+   * @param activities Current activities (see gameActivity)
+   * @param status Presence status
+   */
+  setPresence(
+    guild: FakeGuild,
+    userId: string,
+    activities: GameActivity[],
+    status: string = "online"
+  ): void {
+    const member = guild.members.cache.get(userId);
+    if (!member) throw new Error(`Unknown member ${userId}`);
+
+    const previous = member.presence;
+    const presence: FakePresence = {
+      user: member.user,
+      guild: { id: guild.id },
+      status,
+      activities,
+    };
+    guild.setCurrentPresence(presence, !this.disconnected);
+    if (!this.disconnected) this.emit("presenceUpdate", previous, presence);
+  }
+
+  /**
+   * Add a member to a guild and emit a member join event
+   * @param guild Guild the member joins
+   * @param userId Discord user ID
+   * @param username Username shown in messages
+   * @param options Bot flag, channel access and roles
+   * @returns Added member
+   */
+  joinMember(
+    guild: FakeGuild,
+    userId: string,
+    username: string,
+    options: FakeMemberOptions = {}
+  ): FakeMember {
+    const member = guild.addMember(userId, username, options);
+    this.emit("guildMemberAdd", member);
+    return member;
+  }
+
+  /**
+   * Remove a member from a guild and emit a member leave event
+   * @param guild Guild the member leaves
+   * @param userId Discord user ID
+   */
+  leaveMember(guild: FakeGuild, userId: string): void {
+    const member = guild.members.cache.get(userId);
+    if (!member) throw new Error(`Unknown member ${userId}`);
+
+    guild.removeMember(userId);
+    this.emit("guildMemberRemove", member);
+  }
+
+  /**
+   * Replace the roles of a member and emit a member update event
+   * @param guild Guild of the member
+   * @param userId Discord user ID
+   * @param roleIds New role IDs
+   */
+  setMemberRoles(guild: FakeGuild, userId: string, roleIds: string[]): void {
+    const member = guild.members.cache.get(userId);
+    if (!member) throw new Error(`Unknown member ${userId}`);
+
+    const previous = {
+      ...member,
+      roles: { cache: new Map(member.roles.cache) },
+    };
+    member.roles.cache = new Map(
+      roleIds.map((roleId) => [roleId, { id: roleId }])
+    );
+    this.emit("guildMemberUpdate", previous, member);
+  }
+
+  /**
+   * Change whether a member can view a channel and emit a channel update,
+   * as a permission overwrite would
+   * @param channel Channel whose permissions change
+   * @param userId Discord user ID
+   * @param canView Whether the member can view the channel
+   */
+  setChannelAccess(
+    channel: FakeTextChannel,
+    userId: string,
+    canView: boolean
+  ): void {
+    const member = channel.guild.members.cache.get(userId);
+    if (!member) throw new Error(`Unknown member ${userId}`);
+
+    member.canViewChannel = canView;
+    this.emit("channelUpdate", channel, channel);
+  }
+
+  /**
+   * Invoke a slash command subcommand and emit the interaction
+   * @param guild Guild the command is used in (null for a DM)
+   * @param userId Discord user ID of the invoking user
+   * @param commandName Command name (e.g. "workbot")
+   * @param subcommand Subcommand name (e.g. "mydata")
+   * @param values Option values by option name
+   * @returns Interaction recording the replies
+   */
+  runCommand(
+    guild: FakeGuild | null,
+    userId: string,
+    commandName: string,
+    subcommand: string,
+    values: Record<string, string | number> = {}
+  ): FakeCommandInteraction {
+    const interaction = new FakeCommandInteraction(
+      commandName,
+      subcommand,
+      guild?.id ?? null,
+      userId,
+      values
+    );
+    this.emit("interactionCreate", interaction);
+    return interaction;
+  }
+
+  /**
+   * Mark the client as connected and emit the ready event
+   * @param token Bot token (ignored)
+   * @returns Promise resolving to the token
+   */
+  async login(token: string): Promise<string> {
+    this.ready = true;
+    this.ws.status = Status.Ready;
+    this.ws.ping = 42;
+    this.emit("ready", this);
+    return token;
+  }
+
+  /**
+   * Simulate a dropped gateway connection
+   *
+   * Presence changes made until the connection resumes are missed.
+   */
+  disconnectGateway(): void {
+    this.ready = false;
+    this.disconnected = true;
+    this.ws.status = Status.Reconnecting;
+    this.emit("shardDisconnect", { code: 1006 }, 0);
+  }
+
+  /**
+   * Simulate a resumed gateway connection
+   */
+  resumeGateway(): void {
+    this.ready = true;
+    this.disconnected = false;
+    this.ws.status = Status.Ready;
+    this.emit("shardResume", 0, 0);
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Disconnect and drop every listener
+   */
+  async destroy(): Promise<void> {
+    this.ready = false;
+    this.ws.status = Status.Idle;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Wait until every event handled so far has been fully processed
+   *
+   * Fails when a listener rejected, as the unhandled rejection would have
+   * stopped the bot.
+   */
+  async settle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.allSettled(Array.from(this.pending));
+    }
+
+    const [error] = this.listenerErrors.splice(0);
+    if (error !== undefined) throw error;
+  }
+
+  /**
+   * Use the fake where the bot expects a discord.js client
+   * @returns This fake typed as a client
+   */
+  asClient(): Client {
+    return this as unknown as Client;
+  }
+}
+
+/**
+ * Build a "Playing" activity as reported in presences
+ * @param name Activity name (e.g. "Satisfactory")
+ * @param partyId Party ID reported by the game
+ * @returns Game activity
+ */
+export function gameActivity(name: string, partyId?: string): GameActivity {
+  const activity: GameActivity = { name, type: ActivityType.Playing };
+  if (partyId !== undefined) activity.party = { id: partyId };
+  return activity;
+}
+
+/**
+ * Create an in-memory Discord client without guilds
+ * @returns Fake Discord client
+ */
+export function createFakeDiscord(): FakeDiscordClient {
+  return new FakeDiscordClient();
+}
@@ -0,0 +1,34 @@
+import { SessionEndEvent } from "../../src/types";
+import { formatDuration } from "../../src/utils";
+import { GUILD_ID } from "./testBot";
+
+/**
+ * Build a history record of a finished Satisfactory shift
+ * @param userId Discord user ID
+ * @param startTime Shift start timestamp
+ * @param duration Shift duration in milliseconds
+ * @param idleDuration Idle part of the shift in milliseconds
+ * @returns Session end event as the bot records it
+ */
+export function createSessionRecord(
+  userId: string,
+  startTime: number,
+  duration: number,
+  idleDuration: number = 0
+): SessionEndEvent {
+  return {
+    guildId: GUILD_ID,
+    userId,
+    memberName: `worker-${userId.slice(-2)}`,
+    gameId: "satisfactory",
+    gameName: "Satisfactory",
+    workerName: "Pioneer",
+    duration,
+    idleDuration,
+    formattedDuration: formatDuration(duration),
+    quote: "Stay efficient.",
+    announced: true,
+    startTime,
+    endTime: startTime + duration,
+  };
+}
@@ -0,0 +1,89 @@
+import {
+  GameDefinition,
+  GeminiQuote,
+  QuoteContext,
+  QuoteProvider,
+} from "../../src/types";
+
+/**
+ * Request received by the stub quote provider
+ */
+export interface StubQuoteRequest {
+  /** Game the quote was requested for */
+  game: GameDefinition | undefined;
+  /** Shift the quote should reference */
+  context: QuoteContext | undefined;
+}
+
+/**
+ * Quote provider answering from a fixed list without network access
+ *
+ * Quotes are handed out in order and wrap around; every request is kept
+ * so a test can check which shift a quote was requested for. A failing
+ * stub rejects every request, which makes the chain fall back.
+ */
+export class StubQuoteProvider implements QuoteProvider {
+  readonly name: string;
+  /** Requests received so far, oldest first */
+  readonly requests: StubQuoteRequest[] = [];
+  private quotes: string[];
+  private nextIndex = 0;
+  private isFailing = false;
+
+  constructor(quotes: string[] = ["Stub quote."], name: string = "stub") {
+    this.quotes = quotes;
+    this.name = name;
+  }
+
+  /**
+   * Return the next quote of the list
+   * @param game Game the quote is requested for
+   * @param context Shift the quote should reference
+   * @returns Promise resolving to a quote
+   * @throws Error while the stub is set to fail
+   */
+  async getQuote(
+    game?: GameDefinition,
+    context?: QuoteContext
+  ): Promise<GeminiQuote> {
+    this.requests.push({ game, context });
+    if (this.isFailing || this.quotes.length === 0) {
+      throw new Error(`Stub quote provider ${this.name} is failing`);
+    }
+
+    const text = this.quotes[this.nextIndex % this.quotes.length]!;
+    this.nextIndex++;
+    return {
+      text,
+      timestamp: Date.now(),
+      isFallback: false,
+      source: this.name,
+    };
+  }
+
+  /**
+   * Nothing to preload; quotes are always available
+   */
+  async preloadQuotes(): Promise<void> {}
+
+  /**
+   * Make every following request fail or succeed
+   * @param failing Whether requests should be rejected
+   */
+  setFailing(failing: boolean): void {
+    this.isFailing = failing;
+  }
+}
+
+/**
+ * Create a quote provider answering from a fixed list
+ * @param quotes Quotes handed out in order
+ * @param name Provider name used as the quote source
+ * @returns Stub quote provider
+ */
+export function createStubQuoteProvider(
+  quotes?: string[],
+  name?: string
+): StubQuoteProvider {
+  return new StubQuoteProvider(quotes, name);
+}
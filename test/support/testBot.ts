@@ -0,0 +1,160 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { WorkBot3000 } from "../../src/index";
+import { BotConfig } from "../../src/types";
+import { parseBotConfig } from "../../src/utils";
+import {
+  createFakeDiscord,
+  FakeDiscordClient,
+  FakeGuild,
+  FakeTextChannel,
+} from "./fakeDiscord";
+import {
+  createStubQuoteProvider,
+  StubQuoteProvider,
+} from "./stubQuoteProvider";
+
+/** Guild the test bot monitors */
+export const GUILD_ID = "100000000000000001";
+
+/** Target channel of the monitored guild */
+export const CHANNEL_ID = "100000000000000002";
+
+/** Start of the test clock: Thursday, 1 January 2026, 12:00 UTC */
+export const START_TIME = Date.UTC(2026, 0, 1, 12);
+
+/**
+ * Bot driven by a fake Discord client and a manual clock
+ */
+export interface TestBot {
+  /** Running bot */
+  bot: WorkBot3000;
+  /** Fake Discord client the bot is connected to */
+  fake: FakeDiscordClient;
+  /** Target channel recording the sent messages */
+  channel: FakeTextChannel;
+  /** Monitored guild */
+  guild: FakeGuild;
+  /** Quote provider answering the bot's quote requests */
+  quotes: StubQuoteProvider;
+  /** Configuration the bot runs with */
+  config: BotConfig;
+  /** Directory holding the bot's data files */
+  dataDir: string;
+}
+
+/**
+ * Manual clock shared by the bots of a test
+ */
+export interface TestClock {
+  /** Current time in milliseconds */
+  time: number;
+}
+
+/**
+ * Create a temporary directory for the bot's data files
+ * @returns Path of the directory
+ */
+export function createDataDir(): string {
+  return mkdtempSync(path.join(tmpdir(), "workbot-test-"));
+}
+
+/**
+ * Delete a directory created by createDataDir
+ * @param dataDir Path of the directory
+ */
+export function removeDataDir(dataDir: string): void {
+  rmSync(dataDir, { recursive: true, force: true });
+}
+
+/**
+ * Build a configuration that keeps every data file in a directory
+ * @param dataDir Directory of the data files
+ * @param env Settings overriding the test defaults
+ * @returns Parsed bot configuration
+ */
+export function createTestConfig(
+  dataDir: string,
+  env: NodeJS.ProcessEnv = {}
+): BotConfig {
+  return parseBotConfig({
+    DISCORD_TOKEN: "test-token",
+    CHANNEL_ID,
+    LOG_LEVEL: "error",
+    CREW_MODE: "individual",
+    SESSION_STATE_FILE: path.join(dataDir, "session-state.json"),
+    SESSION_HISTORY_FILE: path.join(dataDir, "session-history.jsonl"),
+    WORKER_NAMES_FILE: path.join(dataDir, "worker-names.json"),
+    MESSAGE_QUEUE_FILE: path.join(dataDir, "message-queue.json"),
+    PRIVACY_FILE: path.join(dataDir, "privacy.json"),
+    HELD_ANNOUNCEMENTS_FILE: path.join(dataDir, "held-announcements.json"),
+    ...env,
+  });
+}
+
+/**
+ * Start a bot on a fake Discord client
+ *
+ * Passing the client of a stopped bot starts the next run on the same
+ * guilds and members, as a restart would.
+ * @param clock Clock the bot reads session times from
+ * @param options Data directory, settings, client and member IDs
+ * @returns Started bot with its fake client and target channel
+ */
+export async function startTestBot(
+  clock: TestClock,
+  options: {
+    dataDir: string;
+    env?: NodeJS.ProcessEnv;
+    fake?: FakeDiscordClient;
+    members?: string[];
+  }
+): Promise<TestBot> {
+  const fake = options.fake ?? createFakeDiscord();
+  const channel =
+    (await fake.channels.fetch(CHANNEL_ID)) ??
+    fake.addGuild(GUILD_ID, CHANNEL_ID);
+  for (const userId of options.members ?? []) {
+    channel.guild.addMember(userId, `worker-${userId.slice(-2)}`);
+  }
+
+  const config = createTestConfig(options.dataDir, options.env);
+  const quotes = createStubQuoteProvider(["Stay efficient."]);
+  const bot = new WorkBot3000({
+    config,
+    client: fake.asClient(),
+    quoteProviders: [quotes],
+    now: () => clock.time,
+  });
+  await bot.start();
+  await fake.settle();
+
+  return {
+    bot,
+    fake,
+    channel,
+    guild: channel.guild,
+    quotes,
+    config,
+    dataDir: options.dataDir,
+  };
+}
+
+/**
+ * Get the text of every message sent to a channel
+ * @param channel Target channel
+ * @returns Message contents with their embed text, oldest first
+ */
+export function sentTexts(channel: FakeTextChannel): string[] {
+  return channel.sent.map((message) =>
+    [
+      message.content ?? "",
+      ...(message.embeds ?? []).flatMap((embed) => [
+        embed.title ?? "",
+        embed.description ?? "",
+        ...(embed.fields ?? []).map((field) => `${field.name}: ${field.value}`),
+      ]),
+    ].join("\n")
+  );
+}